@@ -2,7 +2,7 @@
 
 import { Command } from 'commander';
 import chalk from 'chalk';
-import { init, check, fix, config, automation, status, diagnostics } from '../dist/commands/index.js';
+import { init, check, fix, config, automation, status, diagnostics, lsp, cache } from '../dist/commands/index.js';
 import { showTerminalHeader, showVersionInfo, showGlobalHelp } from '../dist/ui/index.js';
 import { StartupOptimizer } from '../dist/core/startup-optimizer.js';
 
@@ -90,21 +90,37 @@ program
   .command('check')
   .description('Scan code for browser compatibility violations using Baseline data')
   .option('--strict', 'Exit with error code if violations are found (useful for CI/CD)')
-  .option('--files <pattern>', 'File pattern to check using glob syntax', '**/*.{js,jsx,ts,tsx,vue,svelte,css,html}')
-  .option('--format <format>', 'Output format for results', 'table')
+  .option('--files <pattern>', 'File pattern to check using glob syntax', '**/*.{js,jsx,ts,tsx,vue,svelte,astro,mdx,css,scss,sass,less,html}')
+  .option('--format <format>', 'Output format for results (table, json, junit, sarif)', 'table')
   .option('--debug', 'Enable debug logging for troubleshooting')
   .option('--offline', 'Run in offline mode (no network requests)')
+  .option('--update-baseline', 'Record current violations in .baseguard-baseline.json as known')
+  .option('--no-baseline', 'Ignore .baseguard-baseline.json and report all violations')
+  .option('-w, --watch', 'Re-check changed files and report introduced and resolved violations')
+  .option('--since <ref>', 'Only report violations on lines changed since a git ref (e.g. main)')
+  .option('--type-aware', 'Resolve built-in method receivers with the TypeScript type checker (needs tsconfig.json)')
   .addHelpText('after', `
 ${chalk.cyan('Output Formats:')}
   ${chalk.white('table')}    Human-readable table format (default)
   ${chalk.white('json')}     JSON format for programmatic use
   ${chalk.white('junit')}    JUnit XML format for CI/CD integration
+  ${chalk.white('sarif')}    SARIF 2.1.0 for code-scanning dashboards and IDE viewers
+
+${chalk.cyan('Inline Suppressions:')}
+  ${chalk.white('// baseguard-disable-next-line [feature-ids]')}   Ignore the next line
+  ${chalk.white('/* baseguard-disable [ids] */ ... baseguard-enable')}  Ignore a block
+  ${chalk.white('<!-- baseguard-disable-file -->')}                Ignore the whole file
 
 ${chalk.cyan('Examples:')}
   ${chalk.dim('$')} base check                              ${chalk.gray('# Check all supported files')}
   ${chalk.dim('$')} base check --strict                     ${chalk.gray('# Exit with error if violations found')}
+  ${chalk.dim('$')} base check --update-baseline            ${chalk.gray('# Snapshot existing violations')}
+  ${chalk.dim('$')} base check --watch                      ${chalk.gray('# Re-check files as you edit them')}
+  ${chalk.dim('$')} base check --since main --strict        ${chalk.gray('# Only fail on lines changed since main')}
   ${chalk.dim('$')} base check --files "src/**/*.ts"        ${chalk.gray('# Check only TypeScript files in src/')}
+  ${chalk.dim('$')} base check --type-aware                 ${chalk.gray('# Only flag Array/String methods on real arrays and strings')}
   ${chalk.dim('$')} base check --format json                ${chalk.gray('# Output results as JSON')}
+  ${chalk.dim('$')} base check --format sarif > results.sarif ${chalk.gray('# Export for code scanning')}
   ${chalk.dim('$')} base check --files "*.css" --strict     ${chalk.gray('# Check CSS files with strict mode')}
 
 ${chalk.cyan('File Patterns:')}
@@ -117,7 +133,7 @@ ${chalk.cyan('What this checks:')}
   • CSS properties, selectors, and at-rules
   • JavaScript APIs and ECMAScript features  
   • HTML elements and attributes
-  • Framework-specific files (React, Vue, Svelte)
+  • Framework-specific files (React, Vue, Svelte, Angular, Astro, MDX)
   • Web platform APIs (Canvas, WebGL, WebRTC, WebAssembly, etc.)
 `)
   .action(async (options) => {
@@ -129,12 +145,17 @@ ${chalk.cyan('What this checks:')}
 // Fix violations with AI
 program
   .command('fix')
-  .description('Analyze and fix compatibility violations using AI (requires API keys)')
+  .description('Fix compatibility violations with local rules and AI (AI requires API keys)')
   .option('--auto', 'Apply fixes automatically without interactive confirmation')
   .option('--analyze-only', 'Only run AI analysis without generating code fixes')
-  .option('--files <pattern>', 'File pattern to fix using glob syntax', '**/*.{js,jsx,ts,tsx,vue,svelte,css,html}')
+  .option('--files <pattern>', 'File pattern to fix using glob syntax', '**/*.{js,jsx,ts,tsx,vue,svelte,astro,mdx,css,scss,sass,less,html}')
+  .option('--history', 'List previously applied fixes')
+  .option('--undo [id]', 'Undo a fix from the history (the latest when no ID is given)')
+  .option('--undo-all', 'Undo every fix in the history, newest first')
   .addHelpText('after', `
 ${chalk.cyan('Prerequisites:')}
+  • None for rule-based fixes (aspect-ratio, gap, inset, backdrop-filter, logical properties,
+    structuredClone, .at(), Object.hasOwn)
   • Gemini API key (for analysis and fixing) - Get from ${chalk.blue('https://aistudio.google.com')}
   • Jules API key (optional, for GitHub repos) - Get from ${chalk.blue('https://jules.google.com')}
   • Choose your coding agent: "base config coding-agent"
@@ -144,11 +165,13 @@ ${chalk.cyan('Examples:')}
   ${chalk.dim('$')} base fix --auto                          ${chalk.gray('# Apply all fixes automatically')}
   ${chalk.dim('$')} base fix --analyze-only                  ${chalk.gray('# Only analyze, don\'t generate fixes')}
   ${chalk.dim('$')} base fix --files "src/**/*.css"          ${chalk.gray('# Fix only CSS files in src/')}
+  ${chalk.dim('$')} base fix --history                       ${chalk.gray('# List applied fixes')}
+  ${chalk.dim('$')} base fix --undo 3                        ${chalk.gray('# Restore the file from before fix 3')}
 
 ${chalk.cyan('How it works:')}
   1. ${chalk.white('Scan')} - Detects compatibility violations using Baseline data
   2. ${chalk.white('Analyze')} - Gemini AI researches impact and fix strategies  
-  3. ${chalk.white('Fix')} - AI generates progressive enhancement code (Jules or Gemini)
+  3. ${chalk.white('Fix')} - Local rules fix known features; AI generates the rest (Jules or Gemini)
   4. ${chalk.white('Review')} - Shows preview of changes before applying
   5. ${chalk.white('Apply')} - Updates files with compatibility fixes
 
@@ -230,6 +253,7 @@ configCmd
   .option('--add <target>', 'Add browser target (format: "browser version")')
   .option('--remove <target>', 'Remove browser target by name')
   .option('--preset <preset>', 'Set predefined browser targets')
+  .option('--browserslist', 'Follow the project\'s browserslist config (.browserslistrc or package.json)')
   .addHelpText('after', `
 ${chalk.cyan('Target Formats:')}
   ${chalk.white('"chrome 100"')}      Minimum Chrome version 100
@@ -245,6 +269,7 @@ ${chalk.cyan('Examples:')}
   ${chalk.dim('$')} base config targets --add "chrome 100"
   ${chalk.dim('$')} base config targets --remove chrome
   ${chalk.dim('$')} base config targets --preset baseline-widely
+  ${chalk.dim('$')} base config targets --browserslist
 `)
   .action((options) => config('targets', options));
 
@@ -379,11 +404,16 @@ autoCmd
   .description('Enable git automation with hook installation')
   .option('--trigger <trigger>', 'When to run checks (pre-commit or pre-push)', 'pre-commit')
   .option('--auto-fix', 'Enable automatic fixing of violations')
+  .option('--changed-lines-only', 'Only report violations on lines changed by the commit or push')
   .addHelpText('after', `
 ${chalk.cyan('Trigger Options:')}
   ${chalk.white('pre-commit')}  Check before each commit (faster feedback)
   ${chalk.white('pre-push')}    Check before each push (less frequent)
 
+${chalk.cyan('Changed Lines Only:')}
+  With ${chalk.white('--changed-lines-only')}, pre-commit checks only staged lines and
+  pre-push checks only lines changed in the commits being pushed.
+
 ${chalk.cyan('What this does:')}
   • Installs git hooks using Husky
   • Configures BaseGuard to run automatically
@@ -532,6 +562,56 @@ ${chalk.cyan('Health Levels:')}
     return status(options);
   });
 
+// Language server for editors
+program
+  .command('lsp')
+  .description('Run the BaseGuard language server over stdio for editor integration')
+  .option('--stdio', 'Communicate over stdin/stdout (default)')
+  .option('--debug', 'Enable debug logging to stderr')
+  .addHelpText('after', `
+${chalk.cyan('Features:')}
+  • Diagnostics for open files, updated as you type
+  • Quick fix to insert a baseguard-disable-next-line comment
+  • Quick fix to generate an AI fix (requires API keys)
+
+${chalk.cyan('Editor Setup:')}
+  Configure your editor's generic LSP client to start ${chalk.white('base lsp --stdio')}
+  in the project root for JS, TS, Vue, Svelte, Astro, MDX, CSS, SCSS, Less and HTML files.
+`)
+  .action((options) => lsp(options));
+
+// Parse cache management
+const cacheCmd = program
+  .command('cache')
+  .description('Manage the on-disk parse cache in .baseguard/cache')
+  .addHelpText('after', `
+${chalk.cyan('About the cache:')}
+  Parse results are stored per file content hash, so unchanged files are not
+  re-parsed on the next run. Entries are ignored automatically after a
+  BaseGuard, parser or web-features upgrade.
+
+${chalk.cyan('Examples:')}
+  ${chalk.dim('$')} base cache stats                  ${chalk.gray('# Show entry count and size')}
+  ${chalk.dim('$')} base cache prune --max-age 7      ${chalk.gray('# Drop stale entries and those unused for 7 days')}
+  ${chalk.dim('$')} base cache clear                  ${chalk.gray('# Delete the whole cache')}
+`);
+
+cacheCmd
+  .command('stats')
+  .description('Show parse cache size, entry count and stale entries')
+  .action(() => cache('stats'));
+
+cacheCmd
+  .command('clear')
+  .description('Delete all cached parse results')
+  .action(() => cache('clear'));
+
+cacheCmd
+  .command('prune')
+  .description('Delete entries from other versions and entries not used recently')
+  .option('--max-age <days>', 'Remove entries not used for this many days', '30')
+  .action((options) => cache('prune', options));
+
 // System diagnostics
 program
   .command('diagnostics')
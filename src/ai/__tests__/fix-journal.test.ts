@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, writeFile, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FixJournal } from '../fix-journal.js';
+import type { Fix } from '../../types/index.js';
+
+const createFix = (filePath: string): Fix => ({
+  violation: {
+    feature: 'gap',
+    featureId: 'flexbox-gap',
+    file: filePath,
+    line: 2,
+    column: 3,
+    context: 'gap: 1rem;',
+    browser: 'safari',
+    required: '13',
+    actual: '14.1',
+    baselineStatus: 'high',
+    reason: 'Not supported'
+  },
+  analysis: {} as Fix['analysis'],
+  patch: '',
+  explanation: 'Added a margin fallback.\nDetails follow.',
+  filePath,
+  preview: '',
+  confidence: 0.9,
+  testable: true
+});
+
+describe('FixJournal', () => {
+  let dir: string;
+  let journal: FixJournal;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'baseguard-journal-'));
+    journal = new FixJournal(dir);
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * Simulate FixManager applying a fix: back up, write, record
+   */
+  const applyFix = async (file: string, before: string, after: string, backupName: string) => {
+    const backupPath = join(dir, backupName);
+    await writeFile(backupPath, before);
+    await writeFile(file, after);
+    return journal.record(createFix(file), before, after, backupPath);
+  };
+
+  it('should record fixes with relative paths and restore them across instances', async () => {
+    const file = join(dir, 'style.css');
+    const entry = await applyFix(file, 'original', 'fixed', 'backup-1');
+
+    expect(entry).toMatchObject({ id: '1', filePath: 'style.css', explanation: 'Added a margin fallback.' });
+
+    const undone = await new FixJournal(dir).undo();
+
+    expect(undone.id).toBe('1');
+    expect(await readFile(file, 'utf-8')).toBe('original');
+    expect((await journal.list())[0]?.undoneAt).toBeDefined();
+    await expect(journal.undo('1')).rejects.toThrow('already undone');
+  });
+
+  it('should refuse to undo when the file changed after the fix', async () => {
+    const file = join(dir, 'app.js');
+    await applyFix(file, 'original', 'fixed', 'backup-1');
+    await writeFile(file, 'fixed and edited');
+
+    await expect(journal.undo('1')).rejects.toThrow('has changed since fix 1');
+    expect(await readFile(file, 'utf-8')).toBe('fixed and edited');
+  });
+
+  it('should undo stacked fixes newest first and block older ones behind a refusal', async () => {
+    const css = join(dir, 'a.css');
+    const js = join(dir, 'b.js');
+    await applyFix(css, 'v1', 'v2', 'backup-1');
+    await applyFix(css, 'v2', 'v3', 'backup-2');
+    await applyFix(js, 'js1', 'js2', 'backup-3');
+    await writeFile(js, 'edited');
+
+    await expect(journal.undo('1')).rejects.toThrow('Fix 2 also changed a.css');
+
+    const { restored, refused } = await journal.undoAll();
+
+    expect(restored.map(entry => entry.id)).toEqual(['2', '1']);
+    expect(refused.map(({ entry }) => entry.id)).toEqual(['3']);
+    expect(await readFile(css, 'utf-8')).toBe('v1');
+    expect(await readFile(js, 'utf-8')).toBe('edited');
+  });
+});
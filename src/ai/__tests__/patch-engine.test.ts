@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { PatchEngine } from '../patch-engine.js';
+import { UnifiedDiff } from '../unified-diff.js';
+
+const file = Array.from({ length: 30 }, (_, i) => `line ${i + 1}`).join('\n') + '\n';
+
+describe('PatchEngine', () => {
+  it('should apply multi-hunk patches produced by UnifiedDiff', () => {
+    const modified = file.replace('line 2\n', 'line 2\ninserted\n').replace('line 20\n', '').replace('line 28', 'changed 28');
+
+    const result = PatchEngine.apply(file, UnifiedDiff.create('a.txt', file, modified));
+
+    expect(result.success && result.content).toBe(modified);
+  });
+
+  it('should place hunks whose line numbers are off by searching for their context', () => {
+    const patch = [
+      '@@ -3,3 +3,3 @@',        // really at line 13
+      ' line 13',
+      '-line 14',
+      '+line fourteen',
+      ' line 15',
+      '@@ -19,3 +19,4 @@',       // really at line 25, same drift
+      ' line 25',
+      '+extra',
+      ' line 26'
+    ].join('\n');
+
+    const result = PatchEngine.apply(file, patch);
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.content).toContain('line 13\nline fourteen\nline 15\n');
+      expect(result.content).toContain('line 25\nextra\nline 26\n');
+      expect(result.hunks.map(hunk => hunk.offset)).toEqual([10, 6]);
+    }
+  });
+
+  it('should tolerate whitespace differences and stale outer context', () => {
+    const css = '.a {\n    color: red;\n    gap: 1rem;\n}\n';
+    const patch = [
+      '@@ -1,4 +1,4 @@',
+      ' .b {',                   // stale context, ignored with fuzz
+      '  color: red;',           // indentation differs from the file
+      '-  gap: 1rem;',
+      '+  grid-gap: 1rem;',
+      ' }'
+    ].join('\n');
+
+    const result = PatchEngine.apply(css, patch);
+
+    expect(result.success && result.content).toBe('.a {\n    color: red;\n  grid-gap: 1rem;\n}\n');
+  });
+
+  it('should apply nothing and report every conflicting hunk when context is missing', () => {
+    const patch = [
+      '@@ -1,2 +1,2 @@',
+      ' line 1',
+      '-line 2',
+      '+line two',
+      '@@ -10,3 +10,3 @@',
+      ' line 10',
+      '-does not exist',
+      '+replacement',
+      ' line 12'
+    ].join('\n');
+
+    const result = PatchEngine.apply(file, patch, { maxFuzz: 0 });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.conflicts).toHaveLength(1);
+      expect(result.conflicts[0]).toMatchObject({
+        hunk: 2,
+        line: 10,
+        reason: 'context-mismatch',
+        expected: ['line 10', 'does not exist', 'line 12'],
+        actual: ['line 10', 'line 11', 'line 12']
+      });
+    }
+  });
+
+  it('should preserve CRLF line endings and missing trailing newlines', () => {
+    const original = 'a\r\nb\r\nc';
+    const patch = '--- a/x\n+++ b/x\n@@ -2,2 +2,2 @@\n b\n-c\n\\ No newline at end of file\n+C\n\\ No newline at end of file\n';
+
+    const result = PatchEngine.apply(original, patch);
+
+    expect(result.success && result.content).toBe('a\r\nb\r\nC');
+  });
+
+  it('should report patches without hunks as malformed', () => {
+    const result = PatchEngine.apply(file, 'Replace line 3 with something better');
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.conflicts[0]?.reason).toBe('malformed');
+    }
+  });
+});
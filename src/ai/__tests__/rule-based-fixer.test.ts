@@ -0,0 +1,216 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mkdtemp, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CSSCodemods } from '../css-codemods.js';
+import { JSCodemods } from '../js-codemods.js';
+import { UnifiedDiff } from '../unified-diff.js';
+import { FixManager } from '../fix-manager.js';
+import { RuleBasedFixer } from '../rule-based-fixer.js';
+import { BaseGuard } from '../../core/baseguard.js';
+import { ConfigurationManager } from '../../core/configuration.js';
+import type { Violation } from '../../types/index.js';
+
+const violation = (overrides: Partial<Violation>): Violation => ({
+  feature: 'aspect-ratio',
+  featureId: 'aspect-ratio',
+  file: 'src/card.css',
+  line: 1,
+  column: 1,
+  context: '',
+  browser: 'safari',
+  required: '14',
+  actual: '15',
+  baselineStatus: 'high',
+  reason: 'Not supported',
+  ...overrides
+});
+
+describe('CSSCodemods', () => {
+  it('should move aspect-ratio into @supports with a height computed from the width', () => {
+    const css = '.card {\n  width: 320px;\n  aspect-ratio: 16 / 9;\n}\n';
+
+    const result = CSSCodemods.apply(css, violation({ line: 3 }));
+
+    expect(result?.content).toBe(
+      '.card {\n  width: 320px;\n  height: 180px;\n}\n\n' +
+      '@supports (aspect-ratio: 16 / 9) {\n  .card {\n    aspect-ratio: 16 / 9;\n  }\n}\n'
+    );
+  });
+
+  it('should fall back to grid-gap in grid containers', () => {
+    const css = '.grid {\n  display: grid;\n  gap: 1rem;\n}\n';
+
+    const result = CSSCodemods.apply(css, violation({ feature: 'gap', featureId: 'grid-gap', line: 3 }));
+
+    expect(result?.content).toContain('  grid-gap: 1rem;\n}');
+    expect(result?.content).toContain('@supports (gap: 1rem) {\n  .grid {\n    gap: 1rem;');
+  });
+
+  it('should leave aspect-ratio and gap alone when the rule gives no fallback to compute', () => {
+    const css = '.card {\n  aspect-ratio: 16 / 9;\n  gap: 1rem;\n}\n';
+
+    expect(CSSCodemods.apply(css, violation({ line: 2 }))).toBeNull();
+    expect(CSSCodemods.apply(css, violation({ feature: 'gap', featureId: 'flexbox-gap', line: 3 }))).toBeNull();
+  });
+
+  it('should expand logical properties into physical ones', () => {
+    const css = '.box {\n  margin-inline: 1rem 2rem;\n  padding-block-start: 4px;\n}\n';
+
+    const inline = CSSCodemods.apply(css, violation({ feature: 'margin-inline', line: 2 }));
+    const block = CSSCodemods.apply(css, violation({ feature: 'padding-block-start', line: 3 }));
+
+    expect(inline?.content).toBe('.box {\n  margin-left: 1rem;\n  margin-right: 2rem;\n  padding-block-start: 4px;\n}\n');
+    expect(block?.content).toContain('  padding-top: 4px;\n');
+  });
+
+  it('should keep SCSS syntax when rewriting a nested declaration', () => {
+    const scss = '// card\n.card {\n  $w: 320px;\n  &__media {\n    width: 320px;\n    aspect-ratio: 16 / 9;\n  }\n}\n';
+
+    const result = CSSCodemods.apply(scss, violation({ file: 'card.scss', line: 6 }), 'scss');
+
+    expect(result?.content).toMatch(/^\/\/ card\n/);
+    expect(result?.content).toContain('    height: 180px;\n');
+    expect(result?.content).toContain('@supports (aspect-ratio: 16 / 9)');
+  });
+});
+
+describe('JSCodemods', () => {
+  it('should guard structuredClone with feature detection', () => {
+    const js = 'const copy = structuredClone(state);\n';
+
+    const result = JSCodemods.apply(js, violation({ feature: 'structuredClone', featureId: 'structured-clone', file: 'app.js' }));
+
+    expect(result?.content).toBe(
+      "const copy = (typeof structuredClone === 'function' ? structuredClone(state) : JSON.parse(JSON.stringify(state)));\n"
+    );
+  });
+
+  it('should rewrite .at() and Object.hasOwn to older equivalents', () => {
+    const js = 'const last = items.at(-1);\nif (Object.hasOwn(obj, key)) run();\n';
+    const file = 'app.ts';
+
+    const at = JSCodemods.apply(js, violation({ feature: 'Array.prototype.at', featureId: 'array-at', file, line: 1 }));
+    const hasOwn = JSCodemods.apply(js, violation({ feature: 'Object.hasOwn', featureId: 'object-has-own', file, line: 2 }));
+
+    expect(at?.content.split('\n')[0]).toBe('const last = items[items.length - 1];');
+    expect(hasOwn?.content.split('\n')[1]).toBe('if (Object.prototype.hasOwnProperty.call(obj, key)) run();');
+  });
+
+  it('should import the core-js polyfill after existing imports when polyfills are preferred', () => {
+    const js = "import { a } from './a.js';\n\nstructuredClone(a);\n";
+
+    const result = JSCodemods.apply(js, violation({ feature: 'structuredClone', featureId: 'structured-clone', file: 'app.js', line: 3 }), { usePolyfills: true });
+
+    expect(result?.content).toBe("import { a } from './a.js';\nimport 'core-js/actual/structured-clone';\n\nstructuredClone(a);\n");
+  });
+});
+
+describe('UnifiedDiff', () => {
+  it('should produce patches that apply back to the modified content', () => {
+    const original = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n') + '\n';
+    const modified = original.replace('line 3\n', 'line 3\nnew line\n').replace('line 15\n', 'changed 15\n');
+
+    const patch = UnifiedDiff.create('src/file.txt', original, modified);
+
+    expect(patch).toContain('@@ -1,6 +1,7 @@');
+    expect(patch).toContain('@@ -12,7 +13,7 @@');
+    expect(new FixManager().applyPatchToContent(original, patch)).toBe(modified);
+  });
+});
+
+describe('RuleBasedFixer', () => {
+  it('should combine fixes per file and rewrite each line once across browsers', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'baseguard-fixer-'));
+    const file = join(dir, 'app.js');
+    const original = 'const a = structuredClone(x);\nconst b = list.at(-1);\nfetch(url);\n';
+    await writeFile(file, original);
+
+    try {
+      const structured = { feature: 'structuredClone', featureId: 'structured-clone', file, line: 1 };
+      const { fixes, unfixed } = await new RuleBasedFixer(dir).generateFixes([
+        violation({ ...structured, browser: 'safari' }),
+        violation({ ...structured, browser: 'firefox' }),
+        violation({ feature: 'Array.prototype.at', featureId: 'array-at', file, line: 2 }),
+        violation({ feature: 'fetch', featureId: 'fetch', file, line: 3 })
+      ]);
+
+      expect(fixes).toHaveLength(1);
+      expect(unfixed.map(v => v.feature)).toEqual(['fetch']);
+      expect(new FixManager().applyPatchToContent(original, fixes[0]!.patch)).toBe(
+        "const a = (typeof structuredClone === 'function' ? structuredClone(x) : JSON.parse(JSON.stringify(x)));\n" +
+        'const b = list[list.length - 1];\nfetch(url);\n'
+      );
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should go from source through the parser to patches and report files rules cannot rewrite', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'baseguard-fixer-'));
+    const sources = [
+      { filePath: join(dir, 'app.js'), content: 'const last = items.at(-1);\n' },
+      { filePath: join(dir, 'card.scss'), content: '.card {\n  width: 320px;\n  aspect-ratio: 16 / 9;\n}\n' },
+      { filePath: join(dir, 'card.sass'), content: '.card\n  aspect-ratio: 1\n' }
+    ];
+    const [js, scss] = sources.map(source => source.filePath);
+    await Promise.all(sources.map(source => writeFile(source.filePath, source.content)));
+
+    const config = { ...ConfigurationManager.createDefault(), targets: [{ browser: 'safari', minVersion: '14' }] };
+    const baseGuard = new BaseGuard(config);
+    try {
+      const { violations } = await baseGuard.checkSources(sources);
+      const fixer = new RuleBasedFixer(dir);
+      const { fixes, unfixed } = await fixer.generateFixes(violations);
+
+      expect(fixes.map(fix => fix.filePath).sort()).toEqual([js, scss]);
+      expect(fixes.find(fix => fix.filePath === js)?.patch).toMatch(/^--- a\/app\.js\n\+\+\+ b\/app\.js\n/);
+      expect(fixes.find(fix => fix.filePath === js)?.patch).toContain('+const last = items[items.length - 1];');
+      expect(fixes.find(fix => fix.filePath === scss)?.patch).toContain('+  height: 180px;');
+      expect(unfixed.map(v => `${v.feature}: ${fixer.getSkipReason(v)}`))
+        .toContain('aspect-ratio: CSS rules only rewrite .css, .scss and .less files');
+    } finally {
+      await baseGuard.cleanup();
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should rewrite String.prototype.at found by type-aware analysis and explain the calls it skips', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'baseguard-fixer-'));
+    vi.spyOn(process, 'cwd').mockReturnValue(dir);
+    await writeFile(join(dir, 'tsconfig.json'), JSON.stringify({ compilerOptions: { target: 'ES2023' }, files: [] }));
+    const source = {
+      filePath: join(dir, 'name.ts'),
+      content: 'export const first = (name: string) => name.at(0);\n' +
+        'export const next = (name: string, i: number) => name.at(i + 1);\n' +
+        'export const last = (name: string) => name.at(-1);\n'
+    };
+    await writeFile(source.filePath, source.content);
+
+    const config = { ...ConfigurationManager.createDefault(), targets: [{ browser: 'safari', minVersion: '14' }], typeAware: true };
+    const baseGuard = new BaseGuard(config);
+    try {
+      const { violations } = await baseGuard.checkSources([source]);
+      const fixer = new RuleBasedFixer(dir);
+      const { fixes, unfixed } = await fixer.generateFixes(violations);
+
+      expect(violations.map(v => `${v.line}:${v.feature}:${v.featureId}`)).toEqual([
+        '1:String.prototype.at:string-at',
+        '2:String.prototype.at:string-at',
+        '3:String.prototype.at:string-at'
+      ]);
+      expect(new FixManager().applyPatchToContent(source.content, fixes[0]!.patch)).toBe(
+        'export const first = (name: string) => name[0];\n' +
+        'export const next = (name: string, i: number) => name.at(i + 1);\n' +
+        'export const last = (name: string) => name[name.length - 1];\n'
+      );
+      expect(unfixed.map(v => `${v.line}: ${fixer.getSkipReason(v)}`)).toEqual([
+        '2: .at() is only rewritten on a variable, this or a property chain with a number, negative number or variable index'
+      ]);
+    } finally {
+      vi.restoreAllMocks();
+      await baseGuard.cleanup();
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
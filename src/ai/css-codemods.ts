@@ -0,0 +1,513 @@
+import postcss, { type Declaration, type Rule, type ChildNode } from 'postcss';
+import { StyleSyntax, type StyleLanguage } from '../parsers/style-syntax.js';
+import type { Violation } from '../types/index.js';
+
+/**
+ * Result of a deterministic source rewrite
+ */
+export interface CodemodResult {
+  content: string;
+  description: string;
+}
+
+/**
+ * Property/value pair for generated declarations
+ */
+interface GeneratedDeclaration {
+  prop: string;
+  value: string;
+}
+
+/**
+ * How to move a declaration behind @supports
+ */
+interface SupportsPlan {
+  condition: string;
+  supported: GeneratedDeclaration[];      // declarations inside @supports
+  fallback: GeneratedDeclaration[];       // declarations left in the original rule
+  unsupported?: { selector: string; declarations: GeneratedDeclaration[] };  // rule for @supports not
+  description: string;
+}
+
+const PHYSICAL_SIDES: Record<string, string> = {
+  'inline-start': 'left',
+  'inline-end': 'right',
+  'block-start': 'top',
+  'block-end': 'bottom'
+};
+
+/**
+ * Deterministic CSS rewrites for features with well-known fallbacks
+ *
+ * Declarations are located with postcss and rewritten in place so the rest
+ * of the stylesheet keeps its formatting. Logical properties are expanded
+ * assuming a left-to-right, horizontal writing mode.
+ */
+export class CSSCodemods {
+  private static readonly SUPPORTS_PROPERTIES = new Set([
+    'aspect-ratio', 'gap', 'row-gap', 'column-gap', 'inset', 'backdrop-filter'
+  ]);
+
+  // What each @supports rewrite needs to build a fallback, for reporting the ones it skips
+  private static readonly LIMITS: Record<string, string> = {
+    'aspect-ratio': 'aspect-ratio is only rewritten when its rule sets a fixed width and no height',
+    'gap': 'gap is only rewritten when its rule makes a grid, or a flex row or column the gap spaces out',
+    'inset': 'inset is only rewritten with one to four values',
+    'backdrop-filter': 'backdrop-filter is only rewritten inside a style rule'
+  };
+
+  private static readonly LOGICAL_LONGHANDS = this.buildLogicalLonghands();
+
+  // Two-value logical shorthands: first value is the start side, second the end side
+  private static readonly LOGICAL_PAIRS: Record<string, [string, string]> = {
+    'margin-inline': ['margin-left', 'margin-right'],
+    'margin-block': ['margin-top', 'margin-bottom'],
+    'padding-inline': ['padding-left', 'padding-right'],
+    'padding-block': ['padding-top', 'padding-bottom'],
+    'inset-inline': ['left', 'right'],
+    'inset-block': ['top', 'bottom'],
+    'border-inline-width': ['border-left-width', 'border-right-width'],
+    'border-block-width': ['border-top-width', 'border-bottom-width'],
+    'border-inline-style': ['border-left-style', 'border-right-style'],
+    'border-block-style': ['border-top-style', 'border-bottom-style'],
+    'border-inline-color': ['border-left-color', 'border-right-color'],
+    'border-block-color': ['border-top-color', 'border-bottom-color']
+  };
+
+  // Shorthands whose single value applies to both sides
+  private static readonly LOGICAL_BORDERS: Record<string, [string, string]> = {
+    'border-inline': ['border-left', 'border-right'],
+    'border-block': ['border-top', 'border-bottom']
+  };
+
+  /**
+   * Whether a CSS property has a codemod
+   */
+  static canFix(property: string): boolean {
+    const prop = property.toLowerCase();
+    return this.SUPPORTS_PROPERTIES.has(prop) || this.isLogicalProperty(prop);
+  }
+
+  /**
+   * What a property's rewrite needs, for violations it couldn't fix
+   */
+  static describeLimits(property: string): string {
+    const prop = property.toLowerCase();
+    return this.LIMITS[/^(row-|column-)?gap$/.test(prop) ? 'gap' : prop]
+      ?? `${prop} is only rewritten with one or two values`;
+  }
+
+  /**
+   * Rewrite the declaration a violation points at in a CSS, SCSS or Less stylesheet,
+   * or return null if it can't be fixed safely
+   */
+  static apply(content: string, violation: Violation, language: Exclude<StyleLanguage, 'sass'> = 'css'): CodemodResult | null {
+    const prop = violation.feature.toLowerCase();
+    if (!this.canFix(prop)) {
+      return null;
+    }
+
+    let root;
+    try {
+      root = StyleSyntax.parse(content, language);
+    } catch {
+      return null;
+    }
+
+    let target: Declaration | undefined;
+    root.walkDecls(decl => {
+      if (!target && decl.prop.toLowerCase() === prop && decl.source?.start?.line === violation.line) {
+        target = decl;
+      }
+    });
+
+    if (!target) {
+      return null;
+    }
+
+    const description = this.isLogicalProperty(prop)
+      ? this.expandLogicalProperty(target)
+      : this.wrapInSupports(target);
+
+    return description ? { content: StyleSyntax.stringify(root, language), description } : null;
+  }
+
+  /**
+   * Whether a property is a logical property with a physical equivalent
+   */
+  private static isLogicalProperty(prop: string): boolean {
+    return prop in this.LOGICAL_LONGHANDS || prop in this.LOGICAL_PAIRS || prop in this.LOGICAL_BORDERS;
+  }
+
+  /**
+   * Replace a logical property with its physical longhands
+   */
+  private static expandLogicalProperty(decl: Declaration): string | null {
+    const prop = decl.prop.toLowerCase();
+    let replacements: GeneratedDeclaration[];
+
+    const longhand = this.LOGICAL_LONGHANDS[prop];
+    const pair = this.LOGICAL_PAIRS[prop];
+    const border = this.LOGICAL_BORDERS[prop];
+
+    if (longhand) {
+      replacements = [{ prop: longhand, value: decl.value }];
+    } else if (pair) {
+      const values = this.splitValue(decl.value);
+      if (values.length < 1 || values.length > 2) {
+        return null;
+      }
+      const [start = '', end = start] = values;
+      replacements = [{ prop: pair[0], value: start }, { prop: pair[1], value: end }];
+    } else if (border) {
+      replacements = border.map(physical => ({ prop: physical, value: decl.value }));
+    } else {
+      return null;
+    }
+
+    for (const replacement of replacements) {
+      decl.cloneBefore(replacement);
+    }
+    decl.remove();
+
+    return `Replaced ${prop} with ${replacements.map(r => r.prop).join(' and ')} (assumes left-to-right, horizontal text)`;
+  }
+
+  /**
+   * Move a declaration into an @supports block, leaving a computed fallback in the original rule,
+   * or return null if there is no fallback to leave
+   */
+  private static wrapInSupports(decl: Declaration): string | null {
+    if (decl.parent?.type !== 'rule') {
+      return null;
+    }
+
+    const rule = decl.parent as Rule;
+    const plan = this.planSupports(decl, rule);
+    if (!plan) {
+      return null;
+    }
+
+    const indent = this.getIndent(rule);
+    const unit = this.getIndentUnit(decl, indent);
+    const selector = rule.selector;
+
+    const blocks = [this.formatSupportsBlock(`@supports ${plan.condition}`, selector, plan.supported, indent, unit)];
+    if (plan.unsupported) {
+      blocks.push(this.formatSupportsBlock(
+        `@supports not ${plan.condition}`,
+        plan.unsupported.selector,
+        plan.unsupported.declarations,
+        indent,
+        unit
+      ));
+    }
+
+    for (const fallback of plan.fallback) {
+      decl.cloneBefore(fallback);
+    }
+    decl.remove();
+
+    const inserted = [...postcss.parse(blocks.join('\n\n')).nodes] as ChildNode[];
+    inserted.forEach(node => {
+      node.raws.before = `\n\n${indent}`;
+    });
+
+    if (rule.nodes.length === 0) {
+      const firstInserted = inserted[0];
+      if (firstInserted) {
+        firstInserted.raws.before = rule.raws.before ?? '';
+      }
+      rule.replaceWith(...inserted);
+    } else {
+      rule.after(inserted);
+    }
+
+    return plan.description;
+  }
+
+  /**
+   * Decide the @supports condition and fallback for a declaration
+   */
+  private static planSupports(decl: Declaration, rule: Rule): SupportsPlan | null {
+    const prop = decl.prop.toLowerCase();
+    const value = decl.value;
+    const supported = [{ prop: decl.prop, value: this.withImportant(decl) }];
+    const condition = `(${decl.prop}: ${value})`;
+
+    switch (prop) {
+      case 'aspect-ratio': {
+        const height = this.computeAspectRatioHeight(rule, value);
+        return height
+          ? {
+            condition,
+            supported,
+            fallback: [{ prop: 'height', value: height }],
+            description: `Moved aspect-ratio into @supports with a fixed height of ${height} computed from the width as a fallback`
+          }
+          : null;
+      }
+
+      case 'gap':
+      case 'row-gap':
+      case 'column-gap':
+        return this.planGap(decl, rule, condition, supported);
+
+      case 'inset': {
+        const sides = this.expandBoxValue(value);
+        if (!sides) {
+          return null;
+        }
+        const fallback = ['top', 'right', 'bottom', 'left'].map((side, index) => ({
+          prop: side,
+          value: sides[index] ?? ''
+        }));
+        return {
+          condition,
+          supported,
+          fallback,
+          description: 'Moved inset into @supports with top/right/bottom/left as a fallback'
+        };
+      }
+
+      case 'backdrop-filter': {
+        const plan: SupportsPlan = {
+          condition: `(${decl.prop}: ${value}) or (-webkit-backdrop-filter: ${value})`,
+          supported: [{ prop: '-webkit-backdrop-filter', value }, ...supported],
+          fallback: [],
+          description: 'Moved backdrop-filter into @supports with the -webkit- prefix for Safari'
+        };
+
+        // A translucent background relies on the blur for legibility, so make it more opaque without it
+        let background: Declaration | undefined;
+        rule.each(node => {
+          if (node.type === 'decl' && /^background(-color)?$/i.test(node.prop) && this.raiseAlpha(node.value) !== node.value) {
+            background = node;
+          }
+        });
+        if (background) {
+          plan.supported.push({ prop: background.prop, value: background.value });
+          background.value = this.raiseAlpha(background.value);
+          plan.description += `; ${background.prop} is more opaque where the blur is unsupported`;
+        }
+        return plan;
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Plan gap fallbacks: legacy grid-gap for grids, child margins for flex rows/columns,
+   * or null when the rule doesn't say which of those it is
+   */
+  private static planGap(
+    decl: Declaration,
+    rule: Rule,
+    condition: string,
+    supported: GeneratedDeclaration[]
+  ): SupportsPlan | null {
+    const prop = decl.prop.toLowerCase();
+    const display = this.findValue(rule, 'display') || '';
+
+    if (/grid/.test(display)) {
+      return {
+        condition,
+        supported,
+        fallback: [{ prop: `grid-${prop}`, value: decl.value }],
+        description: `Moved ${prop} into @supports with grid-${prop} as a fallback`
+      };
+    }
+
+    if (/flex/.test(display)) {
+      const [rowGap = '', columnGap = rowGap] = this.splitValue(decl.value);
+      const isColumn = /column/.test(this.findValue(rule, 'flex-direction') || this.findValue(rule, 'flex-flow') || '');
+      const margin = isColumn
+        ? (prop === 'column-gap' ? null : { prop: 'margin-top', value: rowGap })
+        : (prop === 'row-gap' ? null : { prop: 'margin-left', value: prop === 'gap' ? columnGap : rowGap });
+
+      if (margin) {
+        return {
+          condition,
+          supported,
+          fallback: [],
+          unsupported: { selector: this.childSelector(rule.selector), declarations: [margin] },
+          description: `Moved ${prop} into @supports with ${margin.prop} on children as a fallback`
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Compute a fixed height from a fixed width and an aspect ratio
+   */
+  private static computeAspectRatioHeight(rule: Rule, ratioValue: string): string | null {
+    if (this.findValue(rule, 'height')) {
+      return null;
+    }
+
+    const ratio = ratioValue.trim().match(/^(?:auto\s+)?(\d*\.?\d+)\s*(?:\/\s*(\d*\.?\d+))?$/);
+    const width = (this.findValue(rule, 'width') || '').trim().match(/^(\d*\.?\d+)(px|rem|em|vw)$/);
+    if (!ratio?.[1] || !width?.[1] || !width[2]) {
+      return null;
+    }
+
+    const ratioWidth = parseFloat(ratio[1]);
+    const ratioHeight = ratio[2] ? parseFloat(ratio[2]) : 1;
+    if (ratioWidth === 0) {
+      return null;
+    }
+
+    const height = Math.round((parseFloat(width[1]) * ratioHeight / ratioWidth) * 100) / 100;
+    return `${height}${width[2]}`;
+  }
+
+  /**
+   * Raise the alpha of an rgba()/hsla() or slash-alpha color to at least 0.9
+   */
+  private static raiseAlpha(value: string): string {
+    return value.replace(
+      /\b(rgba?|hsla?)\(([^)]*?)([,/]\s*)(\d*\.?\d+)(%?)\s*\)/gi,
+      (match, fn: string, channels: string, separator: string, alpha: string, percent: string) => {
+        const numericAlpha = percent ? parseFloat(alpha) / 100 : parseFloat(alpha);
+        return numericAlpha < 0.9 ? `${fn}(${channels}${separator}0.9)` : match;
+      }
+    );
+  }
+
+  /**
+   * Expand a 1-4 value box shorthand to top, right, bottom, left
+   */
+  private static expandBoxValue(value: string): string[] | null {
+    const values = this.splitValue(value);
+    if (values.length < 1 || values.length > 4) {
+      return null;
+    }
+
+    const [top = '', right = top, bottom = top, left = right] = values;
+    return [top, right, bottom, left];
+  }
+
+  /**
+   * Split a value on whitespace outside parentheses
+   */
+  private static splitValue(value: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+
+    for (const char of value.trim()) {
+      if (char === '(') depth++;
+      if (char === ')') depth--;
+      if (/\s/.test(char) && depth === 0) {
+        if (current) parts.push(current);
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    if (current) parts.push(current);
+
+    return parts;
+  }
+
+  /**
+   * Find the value of a declaration directly inside a rule
+   */
+  private static findValue(rule: Rule, prop: string): string | null {
+    let value: string | null = null;
+    rule.each(node => {
+      if (node.type === 'decl' && node.prop.toLowerCase() === prop) {
+        value = node.value;
+      }
+    });
+    return value;
+  }
+
+  /**
+   * Selector for all children after the first in each matched container
+   */
+  private static childSelector(selector: string): string {
+    return selector.split(',').map(part => `${part.trim()} > * + *`).join(', ');
+  }
+
+  /**
+   * Declaration value including any !important flag
+   */
+  private static withImportant(decl: Declaration): string {
+    return decl.important ? `${decl.value} !important` : decl.value;
+  }
+
+  /**
+   * Indentation of a rule's first line
+   */
+  private static getIndent(rule: Rule): string {
+    return (rule.raws.before ?? '').split('\n').pop() ?? '';
+  }
+
+  /**
+   * One indentation step, taken from the declaration if the rule spans several lines
+   */
+  private static getIndentUnit(decl: Declaration, ruleIndent: string): string {
+    const before = decl.raws.before ?? '';
+    if (!before.includes('\n')) {
+      return '  ';
+    }
+    const declIndent = before.split('\n').pop() ?? '';
+    return declIndent.startsWith(ruleIndent) && declIndent.length > ruleIndent.length
+      ? declIndent.slice(ruleIndent.length)
+      : '  ';
+  }
+
+  /**
+   * Format an @supports block containing one rule
+   */
+  private static formatSupportsBlock(
+    atRule: string,
+    selector: string,
+    declarations: GeneratedDeclaration[],
+    indent: string,
+    unit: string
+  ): string {
+    return [
+      `${atRule} {`,
+      `${indent}${unit}${selector} {`,
+      ...declarations.map(d => `${indent}${unit}${unit}${d.prop}: ${d.value};`),
+      `${indent}${unit}}`,
+      `${indent}}`
+    ].join('\n');
+  }
+
+  /**
+   * Map logical longhands such as margin-inline-start to physical properties
+   */
+  private static buildLogicalLonghands(): Record<string, string> {
+    const map: Record<string, string> = {
+      'inline-size': 'width',
+      'block-size': 'height',
+      'min-inline-size': 'min-width',
+      'max-inline-size': 'max-width',
+      'min-block-size': 'min-height',
+      'max-block-size': 'max-height',
+      'border-start-start-radius': 'border-top-left-radius',
+      'border-start-end-radius': 'border-top-right-radius',
+      'border-end-start-radius': 'border-bottom-left-radius',
+      'border-end-end-radius': 'border-bottom-right-radius'
+    };
+
+    for (const [logical, physical] of Object.entries(PHYSICAL_SIDES)) {
+      map[`margin-${logical}`] = `margin-${physical}`;
+      map[`padding-${logical}`] = `padding-${physical}`;
+      map[`inset-${logical}`] = physical;
+      map[`border-${logical}`] = `border-${physical}`;
+      for (const part of ['width', 'style', 'color']) {
+        map[`border-${logical}-${part}`] = `border-${physical}-${part}`;
+      }
+    }
+
+    return map;
+  }
+}
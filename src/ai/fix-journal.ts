@@ -0,0 +1,193 @@
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import { createHash } from 'crypto';
+import { dirname, isAbsolute, join, relative, resolve } from 'path';
+import type { Fix, FixJournalEntry, FixJournalFile } from '../types/index.js';
+
+/**
+ * Persistent record of applied fixes, used to undo them in later runs
+ *
+ * Each entry stores hashes of the file before and after the fix. A fix is
+ * only undone while the file still matches its after-hash and the backup
+ * still matches the before-hash, so later edits are never overwritten.
+ */
+export class FixJournal {
+  static readonly JOURNAL_FILE = join('.baseguard', 'fix-history.json');
+  private static readonly VERSION = 1;
+
+  constructor(
+    private readonly projectRoot: string = process.cwd(),
+    private readonly journalPath: string = join(projectRoot, FixJournal.JOURNAL_FILE)
+  ) {}
+
+  /**
+   * Hash file content for change detection
+   */
+  static hash(content: string): string {
+    return createHash('sha256').update(content).digest('hex');
+  }
+
+  /**
+   * Load the journal, or an empty one if none exists
+   */
+  async load(): Promise<FixJournalFile> {
+    let content: string;
+    try {
+      content = await readFile(this.journalPath, 'utf-8');
+    } catch {
+      return { version: FixJournal.VERSION, nextId: 1, entries: [] };
+    }
+
+    const parsed = JSON.parse(content) as Partial<FixJournalFile>;
+    if (!Array.isArray(parsed.entries)) {
+      throw new Error(`Invalid fix journal ${this.journalPath}: missing "entries" array`);
+    }
+
+    const highestId = parsed.entries.reduce((max, entry) => Math.max(max, parseInt(entry.id, 10) || 0), 0);
+    return {
+      version: parsed.version ?? FixJournal.VERSION,
+      nextId: Math.max(parsed.nextId ?? 1, highestId + 1),
+      entries: parsed.entries
+    };
+  }
+
+  /**
+   * Record an applied fix
+   */
+  async record(fix: Fix, before: string, after: string, backupPath: string): Promise<FixJournalEntry> {
+    const journal = await this.load();
+
+    const entry: FixJournalEntry = {
+      id: String(journal.nextId),
+      appliedAt: new Date().toISOString(),
+      filePath: this.toJournalPath(fix.filePath),
+      feature: fix.violation.feature,
+      featureId: fix.violation.featureId,
+      browser: fix.violation.browser,
+      explanation: fix.explanation.split('\n')[0] ?? '',
+      confidence: fix.confidence,
+      beforeHash: FixJournal.hash(before),
+      afterHash: FixJournal.hash(after),
+      backupPath: this.toJournalPath(backupPath)
+    };
+
+    journal.entries.push(entry);
+    journal.nextId++;
+    await this.save(journal);
+
+    return entry;
+  }
+
+  /**
+   * All recorded fixes, oldest first
+   */
+  async list(): Promise<FixJournalEntry[]> {
+    return (await this.load()).entries;
+  }
+
+  /**
+   * Most recent fix that has not been undone, optionally for one file
+   */
+  async findLatest(filePath?: string): Promise<FixJournalEntry | undefined> {
+    const target = filePath ? this.toJournalPath(filePath) : undefined;
+    const entries = await this.list();
+    return [...entries].reverse().find(entry => !entry.undoneAt && (!target || entry.filePath === target));
+  }
+
+  /**
+   * Restore the file from before a fix, or the latest fix when no ID is given
+   */
+  async undo(id?: string): Promise<FixJournalEntry> {
+    const journal = await this.load();
+    const entry = id
+      ? journal.entries.find(candidate => candidate.id === id)
+      : [...journal.entries].reverse().find(candidate => !candidate.undoneAt);
+
+    if (!entry) {
+      throw new Error(id ? `No fix with ID ${id} in the fix history` : 'No fixes to undo');
+    }
+    if (entry.undoneAt) {
+      throw new Error(`Fix ${entry.id} was already undone on ${entry.undoneAt}`);
+    }
+
+    // Later fixes to the same file build on this one and must be undone first
+    const later = journal.entries.find(candidate =>
+      !candidate.undoneAt &&
+      candidate.filePath === entry.filePath &&
+      parseInt(candidate.id, 10) > parseInt(entry.id, 10)
+    );
+    if (later) {
+      throw new Error(`Fix ${later.id} also changed ${entry.filePath}; undo it first`);
+    }
+
+    const filePath = resolve(this.projectRoot, entry.filePath);
+    let current: string;
+    try {
+      current = await readFile(filePath, 'utf-8');
+    } catch {
+      throw new Error(`${entry.filePath} no longer exists`);
+    }
+    if (FixJournal.hash(current) !== entry.afterHash) {
+      throw new Error(`${entry.filePath} has changed since fix ${entry.id} was applied`);
+    }
+
+    let original: string;
+    try {
+      original = await readFile(resolve(this.projectRoot, entry.backupPath), 'utf-8');
+    } catch {
+      throw new Error(`Backup ${entry.backupPath} for fix ${entry.id} is missing`);
+    }
+    if (FixJournal.hash(original) !== entry.beforeHash) {
+      throw new Error(`Backup ${entry.backupPath} for fix ${entry.id} does not match the original file`);
+    }
+
+    await writeFile(filePath, original, 'utf-8');
+
+    entry.undoneAt = new Date().toISOString();
+    await this.save(journal);
+
+    return entry;
+  }
+
+  /**
+   * Undo every active fix, newest first, collecting the ones that cannot be restored
+   */
+  async undoAll(): Promise<{ restored: FixJournalEntry[]; refused: { entry: FixJournalEntry; reason: string }[] }> {
+    const restored: FixJournalEntry[] = [];
+    const refused: { entry: FixJournalEntry; reason: string }[] = [];
+    const blockedFiles = new Set<string>();
+
+    const active = (await this.list()).filter(entry => !entry.undoneAt).reverse();
+    for (const entry of active) {
+      // An older fix can't be undone once a newer one to the same file was refused
+      if (blockedFiles.has(entry.filePath)) {
+        refused.push({ entry, reason: 'a later fix to this file could not be undone' });
+        continue;
+      }
+
+      try {
+        restored.push(await this.undo(entry.id));
+      } catch (error) {
+        blockedFiles.add(entry.filePath);
+        refused.push({ entry, reason: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    return { restored, refused };
+  }
+
+  /**
+   * Write the journal
+   */
+  private async save(journal: FixJournalFile): Promise<void> {
+    await mkdir(dirname(this.journalPath), { recursive: true });
+    await writeFile(this.journalPath, JSON.stringify(journal, null, 2) + '\n', 'utf-8');
+  }
+
+  /**
+   * Store paths relative to the project root with forward slashes
+   */
+  private toJournalPath(filePath: string): string {
+    const absolute = isAbsolute(filePath) ? filePath : resolve(filePath);
+    return relative(this.projectRoot, absolute).replace(/\\/g, '/');
+  }
+}
@@ -3,13 +3,18 @@ import { existsSync } from 'fs';
 import { join, dirname } from 'path';
 import { mkdir } from 'fs/promises';
 import chalk from 'chalk';
+import { PatchEngine, PatchConflictError, type PatchConflict } from './patch-engine.js';
+import { FixJournal } from './fix-journal.js';
 import type { Fix } from '../types/index.js';
 
 /**
  * Fix manager for previewing and applying code fixes
  */
 export class FixManager {
-  private appliedFixes: Map<string, { original: string; backup: string }> = new Map();
+  // File path to the journal ID of the latest fix applied in this session
+  private appliedFixes: Map<string, string> = new Map();
+
+  constructor(private readonly journal: FixJournal = new FixJournal()) {}
 
   /**
    * Generate unified diff preview of proposed changes
@@ -17,10 +22,13 @@ export class FixManager {
   async generatePreview(fix: Fix): Promise<string> {
     try {
       const originalContent = await readFile(fix.filePath, 'utf8');
-      const modifiedContent = this.applyPatchToContent(originalContent, fix.patch);
+      const modifiedContent = this.applyPatchToContent(originalContent, fix.patch, fix.filePath);
       
       return this.createUnifiedDiff(fix.filePath, originalContent, modifiedContent);
     } catch (error) {
+      if (error instanceof PatchConflictError) {
+        throw error;
+      }
       throw new Error(`Failed to generate preview: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
@@ -91,26 +99,31 @@ export class FixManager {
    */
   async applyFix(fix: Fix): Promise<void> {
     try {
-      // Create backup before applying fix
-      await this.createBackup(fix.filePath);
-      
       // Read original content
       const originalContent = await readFile(fix.filePath, 'utf8');
       
-      // Apply patch to content
-      const modifiedContent = this.applyPatchToContent(originalContent, fix.patch);
+      // Apply patch to content; conflicts leave the file untouched
+      const modifiedContent = this.applyPatchToContent(originalContent, fix.patch, fix.filePath);
+      
+      // Create backup before writing the fix
+      const backupPath = await this.createBackup(fix.filePath);
       
       // Write modified content back to file
       await writeFile(fix.filePath, modifiedContent, 'utf8');
       
-      // Store fix information for potential rollback
-      this.appliedFixes.set(fix.filePath, {
-        original: originalContent,
-        backup: this.getBackupPath(fix.filePath)
-      });
-      
       console.log(chalk.green(`✅ Applied fix to ${fix.filePath}`));
+      
+      // Record the fix so it can be undone later, even from another run
+      try {
+        const entry = await this.journal.record(fix, originalContent, modifiedContent, backupPath);
+        this.appliedFixes.set(fix.filePath, entry.id);
+      } catch (error) {
+        console.log(chalk.yellow(`⚠️ Could not record fix in history: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      }
     } catch (error) {
+      if (error instanceof PatchConflictError) {
+        throw error;
+      }
       throw new Error(`Failed to apply fix: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
@@ -118,11 +131,15 @@ export class FixManager {
   /**
    * Apply multiple fixes with batch processing
    */
-  async applyFixes(fixes: Fix[]): Promise<{ applied: Fix[]; skipped: Fix[]; failed: { fix: Fix; error: string }[] }> {
+  async applyFixes(fixes: Fix[]): Promise<{
+    applied: Fix[];
+    skipped: Fix[];
+    failed: { fix: Fix; error: string; conflicts?: PatchConflict[] }[];
+  }> {
     const results = {
       applied: [] as Fix[],
       skipped: [] as Fix[],
-      failed: [] as { fix: Fix; error: string }[]
+      failed: [] as { fix: Fix; error: string; conflicts?: PatchConflict[] }[]
     };
     
     console.log(chalk.cyan(`\n🔧 Applying ${fixes.length} fixes...\n`));
@@ -140,8 +157,14 @@ export class FixManager {
         }
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        results.failed.push({ fix, error: errorMessage });
-        console.log(chalk.red(`❌ Failed to apply fix for ${fix.filePath}: ${errorMessage}`));
+        if (error instanceof PatchConflictError) {
+          results.failed.push({ fix, error: errorMessage, conflicts: error.conflicts });
+          console.log(chalk.red(`❌ Fix for ${fix.filePath} does not apply cleanly, file left unchanged:`));
+          console.log(this.formatConflicts(error.conflicts));
+        } else {
+          results.failed.push({ fix, error: errorMessage });
+          console.log(chalk.red(`❌ Failed to apply fix for ${fix.filePath}: ${errorMessage}`));
+        }
       }
     }
     
@@ -149,18 +172,18 @@ export class FixManager {
   }
 
   /**
-   * Rollback applied fixes
+   * Rollback the latest fix to a file, refusing if the file changed since
    */
   async rollbackFix(filePath: string): Promise<void> {
-    const fixInfo = this.appliedFixes.get(filePath);
+    const fixId = this.appliedFixes.get(filePath) ?? (await this.journal.findLatest(filePath))?.id;
     
-    if (!fixInfo) {
+    if (!fixId) {
       throw new Error(`No applied fix found for ${filePath}`);
     }
     
     try {
-      // Restore original content
-      await writeFile(filePath, fixInfo.original, 'utf8');
+      // Restore original content from the journal's backup
+      await this.journal.undo(fixId);
       
       // Remove from applied fixes
       this.appliedFixes.delete(filePath);
@@ -198,7 +221,7 @@ export class FixManager {
   /**
    * Create backup of original file
    */
-  private async createBackup(filePath: string): Promise<void> {
+  private async createBackup(filePath: string): Promise<string> {
     const backupPath = this.getBackupPath(filePath);
     const backupDir = dirname(backupPath);
     
@@ -209,6 +232,8 @@ export class FixManager {
     
     // Copy original file to backup location
     await copyFile(filePath, backupPath);
+    
+    return backupPath;
   }
 
   /**
@@ -220,41 +245,30 @@ export class FixManager {
   }
 
   /**
-   * Apply patch to file content
+   * Apply patch to file content, throwing PatchConflictError unless every hunk applies
    */
-  private applyPatchToContent(originalContent: string, patch: string): string {
-    const lines = originalContent.split('\n');
-    const patchLines = patch.split('\n');
-    
-    const result = [...lines];
-    let currentLine = 0;
+  applyPatchToContent(originalContent: string, patch: string, filePath?: string): string {
+    const result = PatchEngine.apply(originalContent, patch);
     
-    for (const patchLine of patchLines) {
-      if (patchLine.startsWith('@@')) {
-        // Parse hunk header to get line numbers
-        const match = patchLine.match(/@@ -(\d+),?\d* \+(\d+),?\d* @@/);
-        if (match && match[2]) {
-          currentLine = parseInt(match[2]) - 1;
-        }
-      } else if (patchLine.startsWith('-')) {
-        // Remove line
-        const lineToRemove = patchLine.substring(1);
-        const index = result.findIndex((line, i) => i >= currentLine && line.trim() === lineToRemove.trim());
-        if (index !== -1) {
-          result.splice(index, 1);
-        }
-      } else if (patchLine.startsWith('+')) {
-        // Add line
-        const lineToAdd = patchLine.substring(1);
-        result.splice(currentLine, 0, lineToAdd);
-        currentLine++;
-      } else if (patchLine.startsWith(' ')) {
-        // Context line - advance current line
-        currentLine++;
-      }
+    if (!result.success) {
+      throw new PatchConflictError(result.conflicts, filePath);
     }
     
-    return result.join('\n');
+    return result.content;
+  }
+
+  /**
+   * Format patch conflicts for display
+   */
+  formatConflicts(conflicts: PatchConflict[]): string {
+    return conflicts
+      .map(conflict => {
+        const header = chalk.yellow(`   Hunk ${conflict.hunk}${conflict.header ? ` (${conflict.header})` : ''}: ${conflict.message}`);
+        const expected = conflict.expected.slice(0, 3).map(line => chalk.dim(`     expected: ${line}`));
+        const actual = conflict.actual.slice(0, 3).map(line => chalk.dim(`     found:    ${line}`));
+        return [header, ...expected, ...actual].join('\n');
+      })
+      .join('\n');
   }
 
   /**
@@ -1,4 +1,9 @@
 // AI layer exports
 export * from './gemini-analyzer.js';
 export * from './jules-implementer.js';
-export * from './fix-manager.js';
\ No newline at end of file
+export * from './fix-manager.js';export * from './rule-based-fixer.js';
+export * from './css-codemods.js';
+export * from './js-codemods.js';
+export * from './unified-diff.js';
+export * from './patch-engine.js';
+export * from './fix-journal.js';
@@ -0,0 +1,291 @@
+import { parse as parseBabel, type ParserPlugin } from '@babel/parser';
+import { extname } from 'path';
+import type { Violation } from '../types/index.js';
+import type { CodemodResult } from './css-codemods.js';
+
+/**
+ * Babel node with source offsets
+ */
+interface SourceNode {
+  type: string;
+  start?: number | null;
+  end?: number | null;
+  loc?: { start: { line: number; column: number } } | null;
+  [key: string]: any;
+}
+
+/**
+ * A JavaScript API with a local rewrite and a core-js polyfill
+ */
+interface JSFixTarget {
+  featureIds: string[];
+  features: string[];
+  polyfill: string;               // core-js entry point
+  limits: string;                 // which calls the rewrite handles, for the ones it skips
+  matches: (call: SourceNode) => boolean;
+  rewrite: (call: SourceNode, content: string) => { text: string; description: string } | null;
+}
+
+/**
+ * Deterministic JavaScript rewrites for newer built-ins
+ *
+ * Without core-js in the project, calls are rewritten to feature-detected or
+ * equivalent older code. With core-js installed, the matching polyfill entry
+ * point is imported instead so the call site stays unchanged.
+ */
+export class JSCodemods {
+  private static readonly AT_LIMITS =
+    '.at() is only rewritten on a variable, this or a property chain with a number, negative number or variable index';
+
+  private static readonly TARGETS: JSFixTarget[] = [
+    {
+      featureIds: ['structured-clone'],
+      features: ['structuredClone'],
+      polyfill: 'core-js/actual/structured-clone',
+      limits: 'structuredClone is only rewritten when called with a single argument',
+      matches: call => call.callee?.type === 'Identifier' && call.callee.name === 'structuredClone',
+      rewrite: (call, content) => {
+        const [value] = call.arguments ?? [];
+        if (!value || call.arguments.length !== 1) {
+          return null;
+        }
+        const source = JSCodemods.getSource(call, content);
+        return {
+          text: `(typeof structuredClone === 'function' ? ${source} : JSON.parse(JSON.stringify(${JSCodemods.getSource(value, content)})))`,
+          description: 'Guarded structuredClone with a JSON round-trip fallback (the fallback drops Dates, Maps, Sets and cyclic references)'
+        };
+      }
+    },
+    {
+      featureIds: ['array-at'],
+      features: ['Array.prototype.at', 'at'],
+      polyfill: 'core-js/actual/array/at',
+      limits: JSCodemods.AT_LIMITS,
+      matches: call => JSCodemods.isMethodCall(call, 'at'),
+      rewrite: (call, content) => JSCodemods.rewriteAt(call, content)
+    },
+    {
+      featureIds: ['string-at'],
+      features: ['String.prototype.at'],
+      polyfill: 'core-js/actual/string/at',
+      limits: JSCodemods.AT_LIMITS,
+      matches: call => JSCodemods.isMethodCall(call, 'at'),
+      rewrite: (call, content) => JSCodemods.rewriteAt(call, content)
+    },
+    {
+      featureIds: ['object-has-own', 'object-hasown'],
+      features: ['Object.hasOwn', 'hasOwn'],
+      polyfill: 'core-js/actual/object/has-own',
+      limits: 'Object.hasOwn is only rewritten when called directly as Object.hasOwn()',
+      matches: call => JSCodemods.isMethodCall(call, 'hasOwn') &&
+        call.callee.object?.type === 'Identifier' && call.callee.object.name === 'Object',
+      rewrite: (call, content) => {
+        const args = (call.arguments ?? []).map((arg: SourceNode) => JSCodemods.getSource(arg, content));
+        return {
+          text: `Object.prototype.hasOwnProperty.call(${args.join(', ')})`,
+          description: 'Replaced Object.hasOwn with Object.prototype.hasOwnProperty.call'
+        };
+      }
+    }
+  ];
+
+  /**
+   * Whether a violation's feature has a codemod
+   */
+  static canFix(violation: Violation): boolean {
+    return this.findTarget(violation) !== undefined;
+  }
+
+  /**
+   * Which calls a violation's rewrite handles, for violations it couldn't fix
+   */
+  static describeLimits(violation: Violation): string | null {
+    return this.findTarget(violation)?.limits ?? null;
+  }
+
+  /**
+   * Rewrite the calls on the violation's line, or import a polyfill when usePolyfills is set
+   */
+  static apply(
+    content: string,
+    violation: Violation,
+    options: { usePolyfills?: boolean } = {}
+  ): CodemodResult | null {
+    const target = this.findTarget(violation);
+    if (!target) {
+      return null;
+    }
+
+    const ast = this.parse(content, violation.file);
+    if (!ast) {
+      return null;
+    }
+
+    if (options.usePolyfills) {
+      return this.addPolyfillImport(content, ast, target.polyfill);
+    }
+
+    const calls = this.findNodes(ast, node => node.type === 'CallExpression' && node.loc?.start.line === violation.line && target.matches(node));
+
+    // Rewrite from the end so earlier offsets stay valid; skip calls nested in another match
+    let result = content;
+    let lastStart = Infinity;
+    let description: string | null = null;
+    for (const call of calls.sort((a, b) => (b.start ?? 0) - (a.start ?? 0))) {
+      if ((call.end ?? 0) > lastStart) {
+        continue;
+      }
+      const rewrite = target.rewrite(call, content);
+      if (!rewrite || call.start == null || call.end == null) {
+        continue;
+      }
+      result = result.slice(0, call.start) + rewrite.text + result.slice(call.end);
+      lastStart = call.start;
+      description = rewrite.description;
+    }
+
+    return description ? { content: result, description } : null;
+  }
+
+  /**
+   * Find the codemod target for a violation by feature ID or name
+   */
+  private static findTarget(violation: Violation): JSFixTarget | undefined {
+    return this.TARGETS.find(target =>
+      target.featureIds.includes(violation.featureId) || target.features.includes(violation.feature)
+    );
+  }
+
+  /**
+   * Import (or require) a core-js entry point after the existing imports
+   */
+  private static addPolyfillImport(content: string, ast: SourceNode, polyfill: string): CodemodResult | null {
+    if (content.includes(`'${polyfill}'`) || content.includes(`"${polyfill}"`)) {
+      return null;
+    }
+
+    const body: SourceNode[] = ast.program?.body ?? [];
+    const imports = body.filter(node => node.type === 'ImportDeclaration');
+    const usesRequire = imports.length === 0 && /\brequire\s*\(/.test(content);
+    const statement = usesRequire ? `require('${polyfill}');` : `import '${polyfill}';`;
+
+    const lastImport = imports[imports.length - 1];
+    let offset: number;
+    if (lastImport?.end != null) {
+      const lineEnd = content.indexOf('\n', lastImport.end);
+      offset = lineEnd === -1 ? content.length : lineEnd + 1;
+    } else {
+      const firstStatement = body[0];
+      offset = firstStatement?.start != null ? content.lastIndexOf('\n', firstStatement.start - 1) + 1 : 0;
+    }
+
+    const prefix = offset === content.length && content.length > 0 && !content.endsWith('\n') ? '\n' : '';
+    return {
+      content: `${content.slice(0, offset)}${prefix}${statement}\n${content.slice(offset)}`,
+      description: `Imported the ${polyfill} polyfill`
+    };
+  }
+
+  /**
+   * Parse JavaScript or TypeScript, returning null on syntax errors
+   */
+  private static parse(content: string, filePath: string): SourceNode | null {
+    const extension = extname(filePath).toLowerCase();
+    const plugins: ParserPlugin[] = [];
+    if (['.ts', '.tsx', '.mts', '.cts'].includes(extension)) {
+      plugins.push('typescript');
+    }
+    if (extension !== '.ts' && extension !== '.mts' && extension !== '.cts') {
+      plugins.push('jsx');
+    }
+
+    try {
+      return parseBabel(content, { sourceType: 'unambiguous', plugins }) as unknown as SourceNode;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Collect all nodes matching a predicate
+   */
+  private static findNodes(root: SourceNode, predicate: (node: SourceNode) => boolean): SourceNode[] {
+    const found: SourceNode[] = [];
+    const visit = (node: SourceNode): void => {
+      if (predicate(node)) {
+        found.push(node);
+      }
+      for (const [key, value] of Object.entries(node)) {
+        if (key === 'loc' || key === 'leadingComments' || key === 'trailingComments') {
+          continue;
+        }
+        const children = Array.isArray(value) ? value : [value];
+        for (const child of children) {
+          if (child && typeof child === 'object' && typeof child.type === 'string') {
+            visit(child as SourceNode);
+          }
+        }
+      }
+    };
+    visit(root);
+    return found;
+  }
+
+  /**
+   * Rewrite `list.at(i)` as index access when the receiver can be evaluated twice
+   *
+   * Only numeric literals, negated numeric literals and identifiers are handled as
+   * the index; any other expression could have side effects or need a temporary,
+   * so the call is left for a polyfill or a manual fix.
+   */
+  private static rewriteAt(call: SourceNode, content: string): { text: string; description: string } | null {
+    const receiver = call.callee.object as SourceNode;
+    const [index] = call.arguments ?? [];
+    if (!this.isSideEffectFree(receiver) || !index || call.arguments.length !== 1) {
+      return null;
+    }
+
+    const target = this.getSource(receiver, content);
+    let lookup: string;
+    if (index.type === 'NumericLiteral') {
+      lookup = String(index.value);
+    } else if (index.type === 'UnaryExpression' && index.operator === '-' && index.argument?.type === 'NumericLiteral') {
+      lookup = `${target}.length - ${index.argument.value}`;
+    } else if (index.type === 'Identifier') {
+      lookup = `${index.name} < 0 ? ${target}.length + ${index.name} : ${index.name}`;
+    } else {
+      return null;
+    }
+
+    return {
+      text: `${target}[${lookup}]`,
+      description: 'Replaced .at() with index access'
+    };
+  }
+
+  /**
+   * Whether a call is `<receiver>.<method>(...)` with a non-computed property
+   */
+  private static isMethodCall(call: SourceNode, method: string): boolean {
+    const callee = call.callee as SourceNode | undefined;
+    return callee?.type === 'MemberExpression' && !callee.computed &&
+      callee.property?.type === 'Identifier' && callee.property.name === method;
+  }
+
+  /**
+   * Whether evaluating an expression twice is safe (identifiers, this and plain property chains)
+   */
+  private static isSideEffectFree(node: SourceNode): boolean {
+    if (node.type === 'Identifier' || node.type === 'ThisExpression') {
+      return true;
+    }
+    return node.type === 'MemberExpression' && !node.computed && this.isSideEffectFree(node.object as SourceNode);
+  }
+
+  /**
+   * Source text of a node
+   */
+  private static getSource(node: SourceNode, content: string): string {
+    return content.slice(node.start ?? 0, node.end ?? 0);
+  }
+}
@@ -0,0 +1,329 @@
+/**
+ * A hunk that could not be applied
+ */
+export interface PatchConflict {
+  hunk: number;                 // 1-based hunk index within the patch
+  header: string;               // the hunk's @@ line
+  line: number | null;          // 1-based line the hunk expected to start at, if known
+  reason: 'malformed' | 'context-mismatch';
+  message: string;
+  expected: string[];           // context and removed lines the hunk looked for
+  actual: string[];             // file lines found at the expected position
+}
+
+/**
+ * How a hunk was placed in the file
+ */
+export interface AppliedHunk {
+  hunk: number;
+  line: number;                 // 1-based line in the original file where the hunk matched
+  offset: number;               // lines between the header's position and the match
+  fuzz: number;                 // context lines ignored at each end of the hunk
+  whitespace: boolean;          // matched only when ignoring whitespace
+}
+
+/**
+ * Outcome of applying a patch: all hunks or none
+ */
+export type PatchResult =
+  | { success: true; content: string; hunks: AppliedHunk[] }
+  | { success: false; conflicts: PatchConflict[] };
+
+/**
+ * Thrown when a patch does not apply cleanly
+ */
+export class PatchConflictError extends Error {
+  public readonly conflicts: PatchConflict[];
+
+  constructor(conflicts: PatchConflict[], filePath?: string) {
+    const summary = conflicts.map(conflict => `hunk ${conflict.hunk}: ${conflict.message}`).join('; ');
+    super(`Patch does not apply${filePath ? ` to ${filePath}` : ''} (${summary})`);
+    this.name = 'PatchConflictError';
+    this.conflicts = conflicts;
+  }
+}
+
+/**
+ * Parsed hunk of a unified diff
+ */
+interface Hunk {
+  header: string;
+  oldStart: number | null;      // 0-based, null when the header has no line numbers
+  lines: Array<{ type: ' ' | '-' | '+'; text: string }>;
+  oldNoNewline: boolean;        // the hunk touches the end of a file without a trailing newline
+  newNoNewline: boolean;
+}
+
+/**
+ * Unified diff application with context verification and fuzzy placement
+ *
+ * Hunks are located by their context and removed lines rather than trusted
+ * line numbers: the engine searches outward from the header's position,
+ * then retries ignoring whitespace, then ignoring up to `maxFuzz` context
+ * lines at either end, like `patch --fuzz`. Nothing is applied unless
+ * every hunk finds a place.
+ */
+export class PatchEngine {
+  /**
+   * Apply a unified diff to content, returning the result or the conflicting hunks
+   */
+  static apply(
+    content: string,
+    patch: string,
+    options: { maxOffset?: number; maxFuzz?: number } = {}
+  ): PatchResult {
+    const maxFuzz = options.maxFuzz ?? 2;
+    const eol = content.includes('\r\n') ? '\r\n' : '\n';
+    const trailingNewline = content.length === 0 || content.endsWith('\n');
+    const lines = content.length === 0 ? [] : content.split(/\r?\n/);
+    if (trailingNewline && lines.length > 0) {
+      lines.pop();
+    }
+
+    const hunks = this.parse(patch);
+    if (hunks.length === 0) {
+      return {
+        success: false,
+        conflicts: [{
+          hunk: 0,
+          header: '',
+          line: null,
+          reason: 'malformed',
+          message: 'no hunks found in patch',
+          expected: [],
+          actual: []
+        }]
+      };
+    }
+
+    const maxOffset = options.maxOffset ?? lines.length;
+    const conflicts: PatchConflict[] = [];
+    const placements: Array<{ hunk: Hunk; start: number; skipStart: number; skipEnd: number; applied: AppliedHunk }> = [];
+    let searchFrom = 0;
+    let lastOffset = 0;
+
+    hunks.forEach((hunk, index) => {
+      const expectedStart = hunk.oldStart === null ? searchFrom : Math.max(0, hunk.oldStart + lastOffset);
+      const placement = this.locate(lines, hunk, expectedStart, searchFrom, maxOffset, maxFuzz);
+
+      if (!placement) {
+        const preimage = hunk.lines.filter(line => line.type !== '+').map(line => line.text);
+        conflicts.push({
+          hunk: index + 1,
+          header: hunk.header,
+          line: hunk.oldStart === null ? null : hunk.oldStart + 1,
+          reason: 'context-mismatch',
+          message: hunk.oldStart === null
+            ? 'context not found in file'
+            : `context not found near line ${hunk.oldStart + 1}`,
+          expected: preimage,
+          actual: lines.slice(expectedStart, expectedStart + preimage.length)
+        });
+        return;
+      }
+
+      const preimageLength = hunk.lines.filter(line => line.type !== '+').length - placement.skipStart - placement.skipEnd;
+      const matchedLine = placement.start - placement.skipStart;
+      if (hunk.oldStart !== null) {
+        lastOffset = matchedLine - hunk.oldStart;
+      }
+      searchFrom = placement.start + preimageLength;
+
+      placements.push({
+        hunk,
+        ...placement,
+        applied: {
+          hunk: index + 1,
+          line: matchedLine + 1,
+          offset: hunk.oldStart === null ? 0 : matchedLine - hunk.oldStart,
+          fuzz: Math.max(placement.skipStart, placement.skipEnd),
+          whitespace: placement.whitespace
+        }
+      });
+    });
+
+    if (conflicts.length > 0) {
+      return { success: false, conflicts };
+    }
+
+    // Rebuild the file, keeping the file's own text for context lines
+    let output: string[] = [];
+    let cursor = 0;
+    let endsWithNewline = trailingNewline;
+
+    for (const { hunk, start, skipStart, skipEnd } of placements) {
+      output = output.concat(lines.slice(cursor, start));
+      cursor = start;
+
+      // Context ignored by fuzz sits at the ends of the hunk and is left untouched
+      for (const line of hunk.lines.slice(skipStart, hunk.lines.length - skipEnd)) {
+        if (line.type === ' ') {
+          output.push(lines[cursor] ?? line.text);
+          cursor++;
+        } else if (line.type === '-') {
+          cursor++;
+        } else {
+          output.push(line.text);
+        }
+      }
+
+      if (cursor >= lines.length) {
+        if (hunk.newNoNewline) {
+          endsWithNewline = false;
+        } else if (hunk.oldNoNewline) {
+          endsWithNewline = true;
+        }
+      }
+    }
+    output = output.concat(lines.slice(cursor));
+
+    const joined = output.join(eol);
+    return {
+      success: true,
+      content: output.length > 0 && endsWithNewline ? joined + eol : joined,
+      hunks: placements.map(placement => placement.applied)
+    };
+  }
+
+  /**
+   * Parse the hunks of a unified diff, ignoring file headers and trailing prose
+   */
+  private static parse(patch: string): Hunk[] {
+    const patchLines = patch.replace(/\r\n/g, '\n').split('\n');
+    while (patchLines.length > 0 && patchLines[patchLines.length - 1] === '') {
+      patchLines.pop();
+    }
+
+    const hunks: Hunk[] = [];
+    let current: Hunk | null = null;
+    let lastType: ' ' | '-' | '+' | null = null;
+
+    for (let i = 0; i < patchLines.length; i++) {
+      const line = patchLines[i] ?? '';
+
+      if (line.startsWith('@@')) {
+        const match = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+        let oldStart: number | null = null;
+        if (match?.[1] !== undefined) {
+          // A zero-length range points at the line before the hunk
+          const start = parseInt(match[1], 10);
+          oldStart = match[2] === '0' ? start : Math.max(0, start - 1);
+        }
+        current = { header: line, oldStart, lines: [], oldNoNewline: false, newNoNewline: false };
+        hunks.push(current);
+        lastType = null;
+        continue;
+      }
+
+      if (!current) {
+        continue;
+      }
+
+      // A new file section ends the current hunk
+      if ((line.startsWith('--- ') && patchLines[i + 1]?.startsWith('+++ ')) || line.startsWith('diff ')) {
+        current = null;
+        continue;
+      }
+
+      if (line.startsWith('\\')) {
+        if (lastType === '-' || lastType === ' ') current.oldNoNewline = true;
+        if (lastType === '+' || lastType === ' ') current.newNoNewline = true;
+        continue;
+      }
+
+      const type = line[0];
+      if (type === ' ' || type === '-' || type === '+') {
+        current.lines.push({ type, text: line.slice(1) });
+        lastType = type;
+      } else if (line === '') {
+        // Blank context lines often lose their leading space
+        current.lines.push({ type: ' ', text: '' });
+        lastType = ' ';
+      } else {
+        current = null;
+      }
+    }
+
+    return hunks.filter(hunk => hunk.lines.some(line => line.type !== ' '));
+  }
+
+  /**
+   * Find where a hunk applies, trying exact, whitespace-insensitive and fuzzy matches in turn
+   */
+  private static locate(
+    lines: string[],
+    hunk: Hunk,
+    expectedStart: number,
+    minStart: number,
+    maxOffset: number,
+    maxFuzz: number
+  ): { start: number; skipStart: number; skipEnd: number; whitespace: boolean } | null {
+    const preimage = hunk.lines.filter(line => line.type !== '+');
+    const leadingContext = hunk.lines.findIndex(line => line.type !== ' ');
+    let trailingContext = 0;
+    for (let i = hunk.lines.length - 1; i >= 0 && hunk.lines[i]?.type === ' '; i--) {
+      trailingContext++;
+    }
+
+    for (let fuzz = 0; fuzz <= maxFuzz; fuzz++) {
+      const skipStart = Math.min(fuzz, leadingContext);
+      const skipEnd = Math.min(fuzz, trailingContext);
+      if (fuzz > 0 && skipStart === 0 && skipEnd === 0) {
+        break;
+      }
+
+      const target = preimage.slice(skipStart, preimage.length - skipEnd).map(line => line.text);
+      const anchor = expectedStart + skipStart;
+
+      // Pure insertions have nothing to verify; trust the header
+      if (target.length === 0) {
+        if (hunk.oldStart === null || anchor < minStart || anchor > lines.length) {
+          return null;
+        }
+        return { start: anchor, skipStart, skipEnd, whitespace: false };
+      }
+
+      for (const whitespace of [false, true]) {
+        const start = this.search(lines, target, anchor, minStart, maxOffset, whitespace);
+        if (start !== -1) {
+          return { start, skipStart, skipEnd, whitespace };
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Search outward from an anchor line for a block of lines
+   */
+  private static search(
+    lines: string[],
+    target: string[],
+    anchor: number,
+    minStart: number,
+    maxOffset: number,
+    ignoreWhitespace: boolean
+  ): number {
+    const normalize = (text: string): string => ignoreWhitespace ? text.replace(/\s+/g, ' ').trim() : text;
+    const wanted = target.map(normalize);
+    const matchesAt = (start: number): boolean =>
+      start >= minStart &&
+      start + wanted.length <= lines.length &&
+      wanted.every((text, i) => normalize(lines[start + i] ?? '') === text);
+
+    for (let offset = 0; offset <= maxOffset; offset++) {
+      if (matchesAt(anchor - offset)) {
+        return anchor - offset;
+      }
+      if (offset > 0 && matchesAt(anchor + offset)) {
+        return anchor + offset;
+      }
+      if (anchor - offset < minStart && anchor + offset > lines.length) {
+        break;
+      }
+    }
+
+    return -1;
+  }
+}
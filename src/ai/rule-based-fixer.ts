@@ -0,0 +1,193 @@
+import { readFile } from 'fs/promises';
+import { extname, join, relative, resolve } from 'path';
+import { CSSCodemods, type CodemodResult } from './css-codemods.js';
+import { JSCodemods } from './js-codemods.js';
+import { UnifiedDiff } from './unified-diff.js';
+import { StyleSyntax } from '../parsers/style-syntax.js';
+import { GracefulDegradationManager } from '../core/graceful-degradation-manager.js';
+import type { Violation, Analysis, Fix } from '../types/index.js';
+
+/**
+ * Local, deterministic fixes that need no AI service
+ *
+ * Covers CSS features with well-known fallbacks (aspect-ratio, gap, inset,
+ * backdrop-filter, logical properties) in CSS, SCSS and Less stylesheets and
+ * JavaScript built-ins (structuredClone, .at(), Object.hasOwn) in script files.
+ * Indented Sass and styles or scripts embedded in components are left alone.
+ * Fixes carry a real unified diff that FixManager can apply, with paths
+ * relative to the project root.
+ */
+export class RuleBasedFixer {
+  private static readonly JS_EXTENSIONS = new Set(['.js', '.jsx', '.mjs', '.cjs', '.ts', '.tsx', '.mts', '.cts']);
+
+  private coreJsInstalled: Promise<boolean> | null = null;
+  private readonly failedRewrites = new WeakSet<Violation>();
+
+  constructor(private readonly projectRoot: string = process.cwd()) {}
+
+  /**
+   * Whether a violation has a rule-based fix
+   */
+  canFix(violation: Violation): boolean {
+    if (RuleBasedFixer.stylesheetLanguage(violation.file)) {
+      return CSSCodemods.canFix(violation.feature);
+    }
+    if (RuleBasedFixer.JS_EXTENSIONS.has(extname(violation.file).toLowerCase())) {
+      return JSCodemods.canFix(violation);
+    }
+    return false;
+  }
+
+  /**
+   * Why a violation with a known rule was left unfixed, either because of its
+   * file or because generateFixes found no safe rewrite for it, or null if it
+   * can be fixed or no rule covers the feature at all
+   */
+  getSkipReason(violation: Violation): string | null {
+    if (this.failedRewrites.has(violation)) {
+      return RuleBasedFixer.stylesheetLanguage(violation.file)
+        ? CSSCodemods.describeLimits(violation.feature)
+        : JSCodemods.describeLimits(violation);
+    }
+    if (this.canFix(violation)) {
+      return null;
+    }
+    if (CSSCodemods.canFix(violation.feature) && !RuleBasedFixer.stylesheetLanguage(violation.file)) {
+      return 'CSS rules only rewrite .css, .scss and .less files';
+    }
+    if (JSCodemods.canFix(violation) && !RuleBasedFixer.JS_EXTENSIONS.has(extname(violation.file).toLowerCase())) {
+      return 'JavaScript rules only rewrite standalone script files';
+    }
+    return null;
+  }
+
+  /**
+   * Apply the fix for a violation to file content
+   */
+  async fixContent(violation: Violation, content: string): Promise<CodemodResult | null> {
+    if (!this.canFix(violation)) {
+      return null;
+    }
+
+    const language = RuleBasedFixer.stylesheetLanguage(violation.file);
+    if (language) {
+      return CSSCodemods.apply(content, violation, language);
+    }
+
+    return JSCodemods.apply(content, violation, { usePolyfills: await this.hasCoreJs() });
+  }
+
+  /**
+   * Generate a fix for a violation, or null if no rule applies
+   */
+  async generateFix(violation: Violation, analysis?: Analysis): Promise<Fix | null> {
+    const { fixes } = await this.generateFixes([violation], analysis ? [analysis] : []);
+    return fixes[0] ?? null;
+  }
+
+  /**
+   * Generate one combined fix per file for every violation a rule applies to
+   *
+   * Violations are reported once per browser, so the same feature on the same
+   * line is only rewritten once. Rewrites run bottom-up so earlier line numbers
+   * stay valid. `analyses` is matched to `violations` by index.
+   */
+  async generateFixes(
+    violations: Violation[],
+    analyses: Analysis[] = []
+  ): Promise<{ fixes: Fix[]; unfixed: Violation[] }> {
+    const unfixed: Violation[] = [];
+    const byFile = new Map<string, Array<{ violation: Violation; analysis?: Analysis }>>();
+
+    violations.forEach((violation, index) => {
+      if (!this.canFix(violation)) {
+        unfixed.push(violation);
+        return;
+      }
+      const entries = byFile.get(violation.file) ?? [];
+      entries.push({ violation, analysis: analyses[index] });
+      byFile.set(violation.file, entries);
+    });
+
+    const fixes: Fix[] = [];
+    for (const [filePath, entries] of byFile) {
+      let original: string;
+      try {
+        original = await readFile(filePath, 'utf-8');
+      } catch {
+        unfixed.push(...entries.map(entry => entry.violation));
+        continue;
+      }
+
+      const unique = new Map<string, { violation: Violation; analysis?: Analysis }>();
+      for (const entry of entries) {
+        const key = `${entry.violation.line}:${entry.violation.feature}`;
+        if (!unique.has(key)) {
+          unique.set(key, entry);
+        }
+      }
+
+      let content = original;
+      const applied: Array<{ violation: Violation; analysis?: Analysis; description: string }> = [];
+      const failedKeys = new Set<string>();
+      for (const [key, entry] of [...unique].sort(([, a], [, b]) => b.violation.line - a.violation.line)) {
+        const result = await this.fixContent(entry.violation, content);
+        if (result) {
+          content = result.content;
+          applied.push({ ...entry, description: result.description });
+        } else {
+          failedKeys.add(key);
+        }
+      }
+
+      const failed = entries
+        .map(entry => entry.violation)
+        .filter(violation => failedKeys.has(`${violation.line}:${violation.feature}`));
+      failed.forEach(violation => this.failedRewrites.add(violation));
+      unfixed.push(...failed);
+
+      const patch = UnifiedDiff.create(relative(this.projectRoot, resolve(filePath)), original, content);
+      const first = applied[applied.length - 1];
+      if (!patch || !first) {
+        continue;
+      }
+
+      const descriptions = [...new Set(applied.reverse().map(entry => entry.description))];
+      fixes.push({
+        violation: first.violation,
+        analysis: first.analysis ?? GracefulDegradationManager.createFallbackAnalysis(first.violation, 'Fixed with a local rule'),
+        patch,
+        explanation: descriptions.map(description => `${description}.`).join('\n'),
+        filePath,
+        preview: patch,
+        confidence: 0.9,
+        testable: true
+      });
+    }
+
+    return { fixes, unfixed };
+  }
+
+  /**
+   * The stylesheet syntax CSS rules can rewrite for a file, or null for other files
+   */
+  private static stylesheetLanguage(filePath: string): 'css' | 'scss' | 'less' | null {
+    const language = StyleSyntax.fromPath(filePath);
+    return language === 'sass' ? null : language;
+  }
+
+  /**
+   * Whether the project depends on core-js, in which case polyfill imports are preferred
+   */
+  private hasCoreJs(): Promise<boolean> {
+    if (!this.coreJsInstalled) {
+      this.coreJsInstalled = readFile(join(this.projectRoot, 'package.json'), 'utf-8')
+        .then(content => {
+          const pkg = JSON.parse(content);
+          return Boolean(pkg.dependencies?.['core-js'] || pkg.devDependencies?.['core-js']);
+        })
+        .catch(() => false);
+    }
+    return this.coreJsInstalled;
+  }
+}
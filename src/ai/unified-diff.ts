@@ -0,0 +1,191 @@
+import { relative, isAbsolute } from 'path';
+
+type DiffOp = { type: ' ' | '-' | '+'; text: string };
+
+/**
+ * Line-based unified diff generation
+ */
+export class UnifiedDiff {
+  // Above this many LCS cells the changed region is emitted as one replacement
+  private static readonly MAX_LCS_CELLS = 4_000_000;
+
+  /**
+   * Create a unified diff between two versions of a file, or '' if they are identical
+   */
+  static create(filePath: string, original: string, modified: string, contextLines: number = 3): string {
+    if (original === modified) {
+      return '';
+    }
+
+    const a = this.splitLines(original);
+    const b = this.splitLines(modified);
+    const ops = this.diffLines(a.lines, b.lines);
+    const displayPath = (isAbsolute(filePath) ? relative(process.cwd(), filePath) : filePath).replace(/\\/g, '/');
+
+    let patch = `--- a/${displayPath}\n+++ b/${displayPath}\n`;
+
+    for (const [start, end] of this.getHunkRanges(ops, contextLines)) {
+      const hunkOps = ops.slice(start, end);
+      const aStart = ops.slice(0, start).filter(op => op.type !== '+').length;
+      const bStart = ops.slice(0, start).filter(op => op.type !== '-').length;
+      const aLength = hunkOps.filter(op => op.type !== '+').length;
+      const bLength = hunkOps.filter(op => op.type !== '-').length;
+
+      patch += `@@ -${this.formatRange(aStart, aLength)} +${this.formatRange(bStart, bLength)} @@\n`;
+
+      let aLine = aStart;
+      let bLine = bStart;
+      for (const op of hunkOps) {
+        patch += `${op.type}${op.text}\n`;
+        if (op.type !== '+') aLine++;
+        if (op.type !== '-') bLine++;
+
+        // Mark the last line of a side that has no trailing newline
+        const endsA = op.type !== '+' && aLine === a.lines.length && !a.trailingNewline;
+        const endsB = op.type !== '-' && bLine === b.lines.length && !b.trailingNewline;
+        if (endsA || endsB) {
+          patch += '\\ No newline at end of file\n';
+        }
+      }
+    }
+
+    return patch;
+  }
+
+  /**
+   * Split content into lines, remembering whether it ended with a newline
+   */
+  private static splitLines(content: string): { lines: string[]; trailingNewline: boolean } {
+    const trailingNewline = content.endsWith('\n');
+    const lines = content.split('\n');
+    if (trailingNewline) {
+      lines.pop();
+    }
+    return { lines, trailingNewline };
+  }
+
+  /**
+   * Compute the edit script between two line arrays
+   */
+  private static diffLines(a: string[], b: string[]): DiffOp[] {
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+      prefix++;
+    }
+
+    let suffix = 0;
+    while (
+      suffix < a.length - prefix &&
+      suffix < b.length - prefix &&
+      a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+    ) {
+      suffix++;
+    }
+
+    const aMiddle = a.slice(prefix, a.length - suffix);
+    const bMiddle = b.slice(prefix, b.length - suffix);
+
+    return [
+      ...a.slice(0, prefix).map(text => ({ type: ' ' as const, text })),
+      ...this.diffMiddle(aMiddle, bMiddle),
+      ...a.slice(a.length - suffix).map(text => ({ type: ' ' as const, text }))
+    ];
+  }
+
+  /**
+   * Longest-common-subsequence diff of the region between the common prefix and suffix
+   */
+  private static diffMiddle(a: string[], b: string[]): DiffOp[] {
+    if ((a.length + 1) * (b.length + 1) > this.MAX_LCS_CELLS) {
+      return [
+        ...a.map(text => ({ type: '-' as const, text })),
+        ...b.map(text => ({ type: '+' as const, text }))
+      ];
+    }
+
+    const width = b.length + 1;
+    const lengths = new Uint32Array((a.length + 1) * width);
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lengths[i * width + j] = a[i] === b[j]
+          ? (lengths[(i + 1) * width + j + 1] ?? 0) + 1
+          : Math.max(lengths[(i + 1) * width + j] ?? 0, lengths[i * width + j + 1] ?? 0);
+      }
+    }
+
+    const ops: DiffOp[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        ops.push({ type: ' ', text: a[i] ?? '' });
+        i++;
+        j++;
+      } else if (j < b.length && (i === a.length || (lengths[i * width + j + 1] ?? 0) >= (lengths[(i + 1) * width + j] ?? 0))) {
+        ops.push({ type: '+', text: b[j] ?? '' });
+        j++;
+      } else {
+        ops.push({ type: '-', text: a[i] ?? '' });
+        i++;
+      }
+    }
+
+    // Keep removals before additions within each change block
+    return this.orderChanges(ops);
+  }
+
+  /**
+   * Reorder each run of changes so deletions precede insertions
+   */
+  private static orderChanges(ops: DiffOp[]): DiffOp[] {
+    const ordered: DiffOp[] = [];
+    let removed: DiffOp[] = [];
+    let added: DiffOp[] = [];
+
+    for (const op of ops) {
+      if (op.type === '-') {
+        removed.push(op);
+      } else if (op.type === '+') {
+        added.push(op);
+      } else {
+        ordered.push(...removed, ...added, op);
+        removed = [];
+        added = [];
+      }
+    }
+
+    return [...ordered, ...removed, ...added];
+  }
+
+  /**
+   * Group changes into [start, end) op ranges with surrounding context
+   */
+  private static getHunkRanges(ops: DiffOp[], contextLines: number): Array<[number, number]> {
+    const ranges: Array<[number, number]> = [];
+
+    ops.forEach((op, index) => {
+      if (op.type === ' ') {
+        return;
+      }
+
+      const start = Math.max(0, index - contextLines);
+      const end = Math.min(ops.length, index + contextLines + 1);
+      const previous = ranges[ranges.length - 1];
+
+      if (previous && start <= previous[1]) {
+        previous[1] = Math.max(previous[1], end);
+      } else {
+        ranges.push([start, end]);
+      }
+    });
+
+    return ranges;
+  }
+
+  /**
+   * Format a hunk range; empty ranges point at the line before them
+   */
+  private static formatRange(start: number, length: number): string {
+    return `${length === 0 ? start : start + 1},${length}`;
+  }
+}
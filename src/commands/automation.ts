@@ -72,7 +72,7 @@ export async function automation(action: string, options?: any): Promise<void> {
 /**
  * Enable automation with optional configuration
  */
-async function enableAutomation(options?: { trigger?: string; autoFix?: boolean; autoAnalyze?: boolean }): Promise<void> {
+async function enableAutomation(options?: { trigger?: string; autoFix?: boolean; autoAnalyze?: boolean; changedLinesOnly?: boolean }): Promise<void> {
   console.log(chalk.cyan('🤖 Enabling BaseGuard automation...'));
   
   const config = await ConfigurationManager.load();
@@ -131,6 +131,10 @@ async function enableAutomation(options?: { trigger?: string; autoFix?: boolean;
   if (options?.autoAnalyze !== undefined) {
     autoAnalyze = options.autoAnalyze;
   }
+
+  if (options?.changedLinesOnly) {
+    config.automation.changedLinesOnly = true;
+  }
   
   // Update configuration
   config.automation.enabled = true;
@@ -151,6 +155,7 @@ async function enableAutomation(options?: { trigger?: string; autoFix?: boolean;
   console.log(`  Auto-analyze: ${autoAnalyze ? chalk.green('enabled') : chalk.red('disabled')}`);
   console.log(`  Auto-fix: ${autoFix ? chalk.green('enabled') : chalk.red('disabled')}`);
   console.log(`  Block commits: ${config.automation.blockCommit ? chalk.green('enabled') : chalk.red('disabled')}`);
+  console.log(`  Changed lines only: ${config.automation.changedLinesOnly ? chalk.green('enabled') : chalk.red('disabled')}`);
   
   if (!config.apiKeys.gemini) {
     console.log(chalk.yellow('\n⚠️ Gemini API key not configured. Run "base config" to set up AI features.'));
@@ -196,6 +201,7 @@ async function showAutomationStatus(): Promise<void> {
   console.log(`  Auto-analyze: ${config.automation.autoAnalyze ? chalk.green('✓') : chalk.red('✗')}`);
   console.log(`  Auto-fix: ${config.automation.autoFix ? chalk.green('✓') : chalk.red('✗')}`);
   console.log(`  Block commits: ${config.automation.blockCommit ? chalk.green('✓') : chalk.red('✗')}`);
+  console.log(`  Changed lines only: ${config.automation.changedLinesOnly ? chalk.green('✓') : chalk.red('✗')}`);
   
   // Git hooks status
   const hooksInstalled = await hookManager.areHooksInstalled();
@@ -273,6 +279,13 @@ async function configureAutomation(): Promise<void> {
       message: 'Block commits when violations are found?',
       default: config.automation.blockCommit,
       when: (answers) => answers.enabled
+    },
+    {
+      type: 'confirm',
+      name: 'changedLinesOnly',
+      message: 'Only report violations on lines changed by the commit or push?',
+      default: config.automation.changedLinesOnly ?? false,
+      when: (answers) => answers.enabled
     }
   ]);
   
@@ -284,6 +297,7 @@ async function configureAutomation(): Promise<void> {
   config.automation.autoAnalyze = answers.autoAnalyze ?? config.automation.autoAnalyze;
   config.automation.autoFix = answers.autoFix ?? config.automation.autoFix;
   config.automation.blockCommit = answers.blockCommit ?? config.automation.blockCommit;
+  config.automation.changedLinesOnly = answers.changedLinesOnly ?? config.automation.changedLinesOnly;
   
   await ConfigurationManager.save(config);
   
@@ -0,0 +1,77 @@
+import chalk from 'chalk';
+import { relative } from 'path';
+import { ParseCache } from '../core/parse-cache.js';
+import { UIComponents } from '../ui/components.js';
+
+/**
+ * Manage the on-disk parse cache
+ */
+export async function cache(action: string, options: { maxAge?: string } = {}): Promise<void> {
+  try {
+    const parseCache = new ParseCache();
+
+    switch (action) {
+      case 'stats':
+        await showCacheStats(parseCache);
+        break;
+      case 'clear': {
+        const removed = await parseCache.clear();
+        UIComponents.showSuccessBox(`Removed ${removed} cached parse result(s)`);
+        break;
+      }
+      case 'prune': {
+        const maxAgeDays = options.maxAge !== undefined ? parseInt(options.maxAge, 10) : 30;
+        if (isNaN(maxAgeDays) || maxAgeDays < 0) {
+          throw new Error('--max-age must be a number of days');
+        }
+
+        const { removed, freedBytes } = await parseCache.prune(maxAgeDays);
+        UIComponents.showSuccessBox(`Pruned ${removed} cached parse result(s), freeing ${formatSize(freedBytes)}`);
+        break;
+      }
+      default:
+        throw new Error(`Unknown cache action "${action}". Use stats, clear or prune.`);
+    }
+  } catch (error) {
+    UIComponents.showErrorBox(`Cache command failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Print entry counts, size and the versions current entries are keyed on
+ */
+async function showCacheStats(parseCache: ParseCache): Promise<void> {
+  const stats = await parseCache.stats();
+
+  console.log(chalk.cyan('🗄️ BaseGuard Parse Cache\n'));
+  UIComponents.showKeyValue('Location', relative(process.cwd(), stats.directory) || '.', 2);
+  UIComponents.showKeyValue('Entries', String(stats.entries), 2);
+  UIComponents.showKeyValue('Stale entries', stats.staleEntries > 0 ? chalk.yellow(String(stats.staleEntries)) : '0', 2);
+  UIComponents.showKeyValue('Size', formatSize(stats.sizeBytes), 2);
+  if (stats.oldestUse && stats.newestUse) {
+    UIComponents.showKeyValue('Last used', `${stats.newestUse.toLocaleString()} (oldest ${stats.oldestUse.toLocaleString()})`, 2);
+  }
+
+  console.log(chalk.cyan('\nKeyed on:'));
+  UIComponents.showKeyValue('BaseGuard', stats.versions.baseguard, 2);
+  UIComponents.showKeyValue('Parser', String(stats.versions.parser), 2);
+  UIComponents.showKeyValue('web-features', stats.versions.webFeatures, 2);
+
+  if (stats.staleEntries > 0) {
+    console.log(chalk.dim(`\n💡 Run "base cache prune" to remove ${stats.staleEntries} entries from other versions`));
+  }
+}
+
+/**
+ * Human-readable byte count
+ */
+function formatSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
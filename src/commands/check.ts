@@ -5,9 +5,15 @@ import { ConfigurationRecovery } from '../core/configuration-recovery.js';
 import { GracefulDegradationManager } from '../core/graceful-degradation-manager.js';
 import { SystemErrorHandler } from '../core/system-error-handler.js';
 import { ErrorHandler } from '../core/error-handler.js';
+import { ViolationBaseline } from '../core/violation-baseline.js';
+import { ViolationWatcher } from '../core/violation-watcher.js';
 import { logger } from '../core/debug-logger.js';
+import { ChangedLines } from '../git/changed-lines.js';
+import { GitHubManager } from '../git/github-manager.js';
 import { glob } from 'glob';
+import { resolve } from 'path';
 import chalk from 'chalk';
+import type { Violation, ViolationBaselineFile } from '../types/index.js';
 
 /**
  * Check for compatibility violations with enhanced error recovery
@@ -15,13 +21,22 @@ import chalk from 'chalk';
 export async function check(options: {
   strict?: boolean;
   files?: string;
-  format?: 'table' | 'json' | 'junit';
+  format?: 'table' | 'json' | 'junit' | 'sarif';
   debug?: boolean;
   offline?: boolean;
+  updateBaseline?: boolean;
+  baseline?: boolean;
+  watch?: boolean;
+  since?: string;
+  typeAware?: boolean;
 }): Promise<void> {
   const categoryLogger = logger.createCategoryLogger('check-command');
   logger.startSession('check-command');
   
+  // Machine-readable formats keep stdout for the report; every other message goes to stderr
+  const machineReadable = options.format === 'json' || options.format === 'junit' || options.format === 'sarif';
+  const restoreConsole = machineReadable ? UIComponents.routeMessagesToStderr() : null;
+  
   try {
     // Enable debug logging if requested
     if (options.debug) {
@@ -33,7 +48,26 @@ export async function check(options: {
       SystemErrorHandler.setOfflineMode(true);
     }
     
-    UIComponents.showHeader();
+    if (options.watch && machineReadable) {
+      throw new Error(`--watch cannot be combined with --format ${options.format}`);
+    }
+    
+    if (options.since && (options.watch || options.updateBaseline)) {
+      throw new Error(`--since cannot be combined with ${options.watch ? '--watch' : '--update-baseline'}`);
+    }
+    
+    // Resolve changed lines up front so a bad ref fails before scanning
+    let changedLines: ChangedLines | null = null;
+    if (options.since) {
+      if (!new GitHubManager().isGitRepository()) {
+        throw new Error('--since requires a git repository');
+      }
+      changedLines = ChangedLines.since(options.since);
+    }
+    
+    if (!machineReadable) {
+      UIComponents.showHeader();
+    }
     categoryLogger.info('Starting compatibility check', { options });
     
     // Load configuration with recovery
@@ -72,7 +106,7 @@ export async function check(options: {
     
     // Initialize BaseGuard with error handling
     const baseGuard = await SystemErrorHandler.handleGracefully(
-      async () => new BaseGuard(config),
+      async () => new BaseGuard(options.typeAware ? { ...config, typeAware: true } : config),
       null,
       { operation: 'initialize_baseguard' }
     );
@@ -81,12 +115,17 @@ export async function check(options: {
       throw new Error('Failed to initialize BaseGuard');
     }
     
+    if (options.watch) {
+      await watchViolations(baseGuard, options.files || '**/*.{js,jsx,ts,tsx,vue,svelte,astro,mdx,css,scss,sass,less,html}', options.baseline !== false);
+      return;
+    }
+    
     const spinner = UIComponents.createSpinner('Scanning files for compatibility issues...');
     spinner.start();
     
     // Get files to check with error recovery
-    const filePattern = options.files || '**/*.{js,jsx,ts,tsx,vue,svelte,css,html}';
-    const files = await SystemErrorHandler.handleGracefully(
+    const filePattern = options.files || '**/*.{js,jsx,ts,tsx,vue,svelte,astro,mdx,css,scss,sass,less,html}';
+    const matchedFiles = await SystemErrorHandler.handleGracefully(
       async () => {
         return await glob(filePattern, {
           ignore: [
@@ -103,7 +142,14 @@ export async function check(options: {
       { operation: 'find_files', details: { pattern: filePattern } }
     );
     
-    if (files.length === 0) {
+    // Only files with changed lines can have violations on changed lines
+    const changedFiles = new Set(changedLines?.getFiles());
+    const files = changedLines
+      ? matchedFiles.filter(file => changedFiles.has(resolve(file)))
+      : matchedFiles;
+    
+    // A machine-readable run still writes an (empty) report
+    if (files.length === 0 && !changedLines && !machineReadable) {
       spinner.fail('No files found to check');
       
       // Show degradation status if in limited mode
@@ -126,11 +172,15 @@ export async function check(options: {
     categoryLogger.info(`Found ${files.length} files to analyze`);
     
     // Scan for violations with enhanced error handling
-    const violations = await SystemErrorHandler.handleGracefully(
+    const checkResult = await SystemErrorHandler.handleGracefully(
       async () => {
-        return await baseGuard.checkViolations(files);
+        // Nothing changed since the ref: skip the scan rather than falling back to default directories
+        if (files.length === 0) {
+          return { violations: [], suppressed: [] };
+        }
+        return await baseGuard.checkViolationsDetailed(files);
       },
-      [], // fallback to empty violations
+      { violations: [], suppressed: [] }, // fallback to empty violations
       { operation: 'check_violations', details: { fileCount: files.length } },
       {
         logError: true,
@@ -139,19 +189,57 @@ export async function check(options: {
       }
     );
     
+    let { violations: detectedViolations, suppressed } = checkResult;
+    
     spinner.stop();
-    categoryLogger.info(`Scan completed, found ${violations.length} violations`);
+    
+    // Report only violations on lines changed since the ref
+    if (changedLines) {
+      detectedViolations = changedLines.filter(detectedViolations);
+      suppressed = suppressed.filter(entry => changedLines.includes(entry.violation.file, entry.violation.line));
+    }
+    
+    // Record or apply the known-violations snapshot
+    let violations = detectedViolations;
+    let knownViolations: Violation[] = [];
+    if (options.updateBaseline) {
+      const snapshot = await ViolationBaseline.save(detectedViolations);
+      knownViolations = detectedViolations;
+      violations = [];
+      if (!machineReadable) {
+        console.log(chalk.green(`📌 Recorded ${detectedViolations.length} known violation(s) in ${ViolationBaseline.BASELINE_FILE} (${snapshot.entries.length} entries)`));
+      }
+    } else if (options.baseline !== false) {
+      try {
+        const snapshot = await ViolationBaseline.load();
+        if (snapshot) {
+          const { newViolations, knownViolations: known } = ViolationBaseline.partition(detectedViolations, snapshot);
+          violations = newViolations;
+          knownViolations = known;
+        }
+      } catch (error) {
+        console.error(chalk.yellow(`⚠️ Ignoring ${ViolationBaseline.BASELINE_FILE}: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      }
+    }
+    
+    categoryLogger.info(`Scan completed, found ${violations.length} violations`, {
+      suppressed: suppressed.length,
+      known: knownViolations.length
+    });
     
     // Display results based on format with error handling
     await SystemErrorHandler.handleGracefully(
       async () => {
         switch (options.format) {
           case 'json':
-            console.log(JSON.stringify(violations, null, 2));
+            UIComponents.writeReport(JSON.stringify(violations, null, 2));
             break;
           case 'junit':
             UIComponents.showJUnitReport(violations);
             break;
+          case 'sarif':
+            UIComponents.showSARIFReport(violations, suppressed);
+            break;
           default:
             UIComponents.showViolations(violations);
             break;
@@ -163,8 +251,21 @@ export async function check(options: {
     );
     
     // Show summary with degradation mode info
-    if (violations.length === 0) {
-      UIComponents.showSuccessBox('🎉 No compatibility violations found!');
+    if (machineReadable) {
+      // Report already written to stdout
+    } else if (violations.length === 0) {
+      UIComponents.showSuccessBox(
+        changedLines
+          ? `🎉 No compatibility violations on lines changed since ${options.since}!`
+          : knownViolations.length > 0
+            ? '🎉 No new compatibility violations found!'
+            : '🎉 No compatibility violations found!'
+      );
+      UIComponents.showSuppressedSummary(suppressed);
+      UIComponents.showTranspiledSummary(checkResult.transpiled);
+      UIComponents.showPolyfillSummary(checkResult.polyfilled, checkResult.polyfills);
+      UIComponents.showGuardedSummary(checkResult.guarded);
+      UIComponents.showBaselineSummary(knownViolations);
       
       // Show mode info if not in full functionality
       const mode = GracefulDegradationManager.getCurrentMode();
@@ -188,6 +289,11 @@ export async function check(options: {
       console.log(`  Total violations: ${summary.total}`);
       console.log(`  Files affected: ${Object.keys(summary.byFile).length}`);
       console.log(`  Browsers affected: ${Object.keys(summary.byBrowser).join(', ')}`);
+      UIComponents.showSuppressedSummary(suppressed);
+      UIComponents.showTranspiledSummary(checkResult.transpiled);
+      UIComponents.showPolyfillSummary(checkResult.polyfilled, checkResult.polyfills);
+      UIComponents.showGuardedSummary(checkResult.guarded);
+      UIComponents.showBaselineSummary(knownViolations);
       
       // Show appropriate next steps based on current mode
       const mode = GracefulDegradationManager.getCurrentMode();
@@ -294,5 +400,44 @@ export async function check(options: {
   } finally {
     // End logging session
     await logger.endSession();
+    restoreConsole?.();
+  }
+}
+
+/**
+ * Keep checking as files change, printing introduced and resolved violations until Ctrl+C
+ */
+async function watchViolations(baseGuard: BaseGuard, filePattern: string, useBaseline: boolean): Promise<void> {
+  let snapshot: ViolationBaselineFile | null = null;
+  if (useBaseline) {
+    try {
+      snapshot = await ViolationBaseline.load();
+    } catch (error) {
+      console.error(chalk.yellow(`⚠️ Ignoring ${ViolationBaseline.BASELINE_FILE}: ${error instanceof Error ? error.message : 'Unknown error'}`));
+    }
   }
+
+  const watcher = new ViolationWatcher(baseGuard, [filePattern], {
+    filter: violations => snapshot ? ViolationBaseline.partition(violations, snapshot).newViolations : violations,
+    onUpdate: update => UIComponents.showWatchUpdate(update),
+    onError: error => {
+      console.error(chalk.red(`❌ Re-check failed: ${error instanceof Error ? error.message : 'Unknown error'}`));
+    }
+  });
+
+  const spinner = UIComponents.createSpinner('Scanning files for compatibility issues...');
+  spinner.start();
+  const violations = await watcher.start();
+  spinner.stop();
+
+  UIComponents.showViolations(violations);
+  console.log(chalk.cyan('\n👀 Watching for changes... (press Ctrl+C to stop)'));
+
+  await new Promise<void>(resolve => {
+    process.once('SIGINT', () => {
+      watcher.stop();
+      console.log(chalk.dim('\nStopped watching'));
+      resolve();
+    });
+  });
 }
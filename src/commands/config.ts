@@ -1,5 +1,5 @@
 import { UIComponents, Prompts } from '../ui/index.js';
-import { ConfigurationManager, ApiKeyManager, GitignoreManager } from '../core/index.js';
+import { ConfigurationManager, ApiKeyManager, GitignoreManager, BrowserslistTargets } from '../core/index.js';
 import { ConfigurationRecovery } from '../core/configuration-recovery.js';
 import { ErrorHandler } from '../core/error-handler.js';
 import chalk from 'chalk';
@@ -11,6 +11,7 @@ export async function config(action: string, options?: {
   add?: string;
   remove?: string;
   preset?: string;
+  browserslist?: boolean;
   file?: string;
   format?: string;
   backup?: boolean;
@@ -211,7 +212,12 @@ async function setupApiKeys(): Promise<void> {
   }
 }
 
-async function updateTargets(options?: { add?: string; remove?: string; preset?: string }): Promise<void> {
+async function updateTargets(options?: { add?: string; remove?: string; preset?: string; browserslist?: boolean }): Promise<void> {
+  if (options?.browserslist) {
+    await importBrowserslistTargets();
+    return;
+  }
+  
   if (options?.add) {
     // Add a specific browser target
     const target = ConfigurationManager.parseBrowserTarget(options.add);
@@ -250,12 +256,54 @@ async function updateTargets(options?: { add?: string; remove?: string; preset?:
     return;
   }
   
-  // Interactive target configuration
+  // Interactive target configuration, offering the project's browserslist config first
+  try {
+    const browserslist = BrowserslistTargets.resolveProjectTargets();
+    if (browserslist && browserslist.targets.length > 0 && await Prompts.confirmBrowserslistImport(browserslist)) {
+      await ConfigurationManager.updateWithBrowserslist(browserslist.targets);
+      UIComponents.showSuccessBox(`Browser targets now follow ${browserslist.source}`);
+      return;
+    }
+  } catch {
+    // Unusable browserslist config, fall through to manual targets
+  }
+
   const targets = await Prompts.promptCustomTargets();
   await ConfigurationManager.updateWithCustomTargets(targets);
   UIComponents.showSuccessBox('Browser targets updated successfully');
 }
 
+/**
+ * Import browser targets from the project's browserslist config
+ */
+async function importBrowserslistTargets(): Promise<void> {
+  let browserslist;
+  try {
+    browserslist = BrowserslistTargets.resolveProjectTargets();
+  } catch (error) {
+    UIComponents.showErrorBox(`Invalid browserslist config: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return;
+  }
+
+  if (!browserslist) {
+    UIComponents.showErrorBox('No browserslist config found');
+    UIComponents.showInfoBox('Add a .browserslistrc file or a "browserslist" key to package.json');
+    return;
+  }
+
+  if (browserslist.targets.length === 0) {
+    UIComponents.showErrorBox(`"${browserslist.query}" resolves to no browsers with Baseline data (chrome, edge, firefox, safari)`);
+    return;
+  }
+
+  await ConfigurationManager.updateWithBrowserslist(browserslist.targets);
+  UIComponents.showSuccessBox(`Browser targets now follow ${browserslist.source}: ${browserslist.query}`);
+  UIComponents.showList(browserslist.targets.map(t => `${t.browser} ${t.minVersion}`));
+  if (browserslist.skipped.length > 0) {
+    console.log(chalk.dim(`\nSkipped browsers without Baseline data: ${browserslist.skipped.join(', ')}`));
+  }
+}
+
 async function updateAutomation(): Promise<void> {
   const automation = await Prompts.promptAutomationSettings();
   const config = await ConfigurationManager.load();
@@ -6,17 +6,32 @@ import { ErrorHandler } from '../core/error-handler.js';
 import { UnifiedCodeFixer } from '../ai/unified-code-fixer.js';
 import { GeminiAnalyzer } from '../ai/gemini-analyzer.js';
 import { FixManager } from '../ai/fix-manager.js';
+import { RuleBasedFixer } from '../ai/rule-based-fixer.js';
+import { PatchConflictError } from '../ai/patch-engine.js';
+import { FixJournal } from '../ai/fix-journal.js';
 import { glob } from 'glob';
 
 /**
- * Fix violations with AI analysis and implementation
+ * Fix violations with local rules, then AI analysis and implementation
  */
 export async function fix(options: {
   auto?: boolean;
   analyzeOnly?: boolean;
   files?: string;
+  history?: boolean;
+  undo?: string | boolean;
+  undoAll?: boolean;
 }): Promise<void> {
   try {
+    if (options.history) {
+      await showFixHistory();
+      return;
+    }
+    if (options.undo || options.undoAll) {
+      await undoFixes(options.undoAll ? 'all' : typeof options.undo === 'string' ? options.undo : undefined);
+      return;
+    }
+    
     console.log(chalk.cyan('🔧 BaseGuard AI Fix\n'));
     
     // Load configuration
@@ -40,12 +55,11 @@ export async function fix(options: {
     
     const noAgentsConfigured = !agentStatus.jules.configured && !agentStatus.gemini.configured;
     if (noAgentsConfigured && !options.analyzeOnly) {
-      console.log(chalk.red('\n❌ No coding agents are available'));
-      console.log(chalk.cyan('💡 Configure API keys to enable code fixing:'));
+      console.log(chalk.yellow('\n⚠️ No AI coding agents configured, only rule-based fixes will be generated'));
+      console.log(chalk.cyan('💡 Configure API keys to fix everything else:'));
       console.log(chalk.cyan('   • Run "base config set-keys" to configure API keys'));
       console.log(chalk.cyan('   • Get Gemini API key: https://aistudio.google.com'));
       console.log(chalk.cyan('   • Get Jules API key: https://jules.google.com/settings#api'));
-      process.exit(1);
     }
 
     if (noAgentsConfigured && options.analyzeOnly) {
@@ -53,7 +67,9 @@ export async function fix(options: {
     }
     
     // Show agent-specific information
-    if (agentStatus.primary === 'jules' && agentStatus.jules.repoDetected) {
+    if (noAgentsConfigured) {
+      console.log(chalk.dim('   Rule-based fixes run locally and need no API keys'));
+    } else if (agentStatus.primary === 'jules' && agentStatus.jules.repoDetected) {
       console.log(chalk.cyan('🔗 GitHub repository detected - Jules available for autonomous fixing'));
     } else if (agentStatus.primary === 'gemini' || !agentStatus.jules.repoDetected) {
       console.log(chalk.cyan('💎 Using Gemini 2.5 Pro for local file fixing'));
@@ -64,7 +80,7 @@ export async function fix(options: {
     console.log(chalk.cyan('🔍 Scanning for compatibility violations...'));
     
     // Get files to fix
-    const filePattern = options.files || '**/*.{js,jsx,ts,tsx,vue,svelte,css,html}';
+    const filePattern = options.files || '**/*.{js,jsx,ts,tsx,vue,svelte,astro,mdx,css,scss,sass,less,html}';
     const files = await glob(filePattern, {
       ignore: [
         'node_modules/**',
@@ -108,18 +124,44 @@ export async function fix(options: {
       return;
     }
     
-    // Step 3: Generate fixes with unified code fixer
-    console.log(chalk.cyan(`\n🤖 Generating fixes with ${agentStatus.primary}...`));
+    // Step 3: Apply local rules first, then hand the rest to the unified code fixer
+    console.log(chalk.cyan('\n📐 Generating rule-based fixes...'));
     
-    const fixes = [];
-    let successCount = 0;
+    const ruleBasedFixer = new RuleBasedFixer();
+    const ruleBased = await ruleBasedFixer.generateFixes(violations, analyses);
+    const fixes = [...ruleBased.fixes];
+    let successCount = violations.length - ruleBased.unfixed.length;
     let failedCount = 0;
+    let unsupportedCount = 0;
+    
+    for (const fix of ruleBased.fixes) {
+      console.log(chalk.green(`✅ ${fix.filePath}: ${fix.explanation.split('\n').join('; ')}`));
+    }
+    
+    // Features with a rule that sit in files the rules can't rewrite or have no safe rewrite
+    const skipped = new Set<string>();
+    for (const violation of ruleBased.unfixed) {
+      const reason = ruleBasedFixer.getSkipReason(violation);
+      const line = `${violation.file}:${violation.line} ${violation.feature}: ${reason}`;
+      if (reason && !skipped.has(line)) {
+        skipped.add(line);
+        console.log(chalk.yellow(`⏭️ ${line}`));
+      }
+    }
     
-    for (let i = 0; i < violations.length; i++) {
-      const violation = violations[i];
-      const analysis = analyses[i];
+    if (ruleBased.unfixed.length > 0 && !noAgentsConfigured) {
+      console.log(chalk.cyan(`\n🤖 Generating fixes with ${agentStatus.primary}...`));
+    }
+    
+    for (const violation of ruleBased.unfixed) {
+      const analysis = analyses[violations.indexOf(violation)];
       
-      if (!violation || !analysis) continue;
+      if (!analysis) continue;
+      
+      if (noAgentsConfigured) {
+        unsupportedCount++;
+        continue;
+      }
       
       try {
         console.log(chalk.cyan(`\n🔧 Fixing ${violation.feature} in ${violation.file}...`));
@@ -144,15 +186,21 @@ export async function fix(options: {
     
     if (fixes.length === 0) {
       console.log(chalk.yellow('\n⚠️ No fixes were generated'));
+      if (unsupportedCount > 0) {
+        console.log(chalk.cyan('💡 Configure API keys with "base config set-keys" to fix these with AI'));
+      }
       return;
     }
     
     // Show results summary
     console.log(chalk.cyan('\n📊 Fix Generation Results:\n'));
-    console.log(chalk.green(`✅ Generated ${successCount} fixes`));
+    console.log(chalk.green(`✅ Generated fixes for ${successCount} violations`));
     if (failedCount > 0) {
       console.log(chalk.red(`❌ Failed to generate ${failedCount} fixes`));
     }
+    if (unsupportedCount > 0) {
+      console.log(chalk.yellow(`⏭️ ${unsupportedCount} violations have no rule-based fix and need an AI agent`));
+    }
     
     // Show fixes with previews
     if (!options.auto && fixes.length > 0) {
@@ -186,7 +234,12 @@ export async function fix(options: {
           appliedCount++;
         } catch (error) {
           applyFailedCount++;
-          console.log(chalk.red(`❌ Failed to apply fix for ${fix.filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`));
+          if (error instanceof PatchConflictError) {
+            console.log(chalk.red(`❌ Fix for ${fix.filePath} does not apply cleanly, file left unchanged:`));
+            console.log(fixManager.formatConflicts(error.conflicts));
+          } else {
+            console.log(chalk.red(`❌ Failed to apply fix for ${fix.filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`));
+          }
         }
       }
     } else {
@@ -198,7 +251,7 @@ export async function fix(options: {
     }
     
     // Show summary
-    console.log(chalk.cyan(`\n📈 Summary: ${successCount}/${violations.length} fixes generated successfully`));
+    console.log(chalk.cyan(`\n📈 Summary: fixes generated for ${successCount}/${violations.length} violations`));
     console.log(chalk.green(`✅ Applied fixes: ${appliedCount}`));
     if (skippedCount > 0) {
       console.log(chalk.yellow(`⏭️ Skipped fixes: ${skippedCount}`));
@@ -267,3 +320,67 @@ export async function fix(options: {
     process.exit(1);
   }
 }
+
+/**
+ * List fixes recorded in the fix journal
+ */
+async function showFixHistory(): Promise<void> {
+  const entries = await new FixJournal().list();
+  
+  if (entries.length === 0) {
+    console.log(chalk.dim('No fixes have been applied yet'));
+    return;
+  }
+  
+  console.log(chalk.cyan(`📜 Fix history (${entries.length} fixes)\n`));
+  
+  const table = UIComponents.createTable(['ID', 'Applied', 'File', 'Feature', 'Status']);
+  for (const entry of entries) {
+    table.push([
+      entry.id,
+      new Date(entry.appliedAt).toLocaleString(),
+      entry.filePath,
+      entry.feature,
+      entry.undoneAt ? chalk.dim('undone') : chalk.green('applied')
+    ]);
+  }
+  console.log(table.toString());
+  
+  console.log(chalk.dim('\nUndo with "base fix --undo <id>", or "base fix --undo" for the latest fix'));
+}
+
+/**
+ * Undo one fix (the latest when no ID is given) or all of them
+ */
+async function undoFixes(target: string | 'all' | undefined): Promise<void> {
+  const journal = new FixJournal();
+  
+  if (target !== 'all') {
+    try {
+      const entry = await journal.undo(target);
+      console.log(chalk.green(`✅ Undid fix ${entry.id} (${entry.feature}) in ${entry.filePath}`));
+    } catch (error) {
+      console.log(chalk.red(`❌ Cannot undo: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      process.exit(1);
+    }
+    return;
+  }
+  
+  const { restored, refused } = await journal.undoAll();
+  
+  if (restored.length === 0 && refused.length === 0) {
+    console.log(chalk.dim('No fixes to undo'));
+    return;
+  }
+  
+  for (const entry of restored) {
+    console.log(chalk.green(`✅ Undid fix ${entry.id} (${entry.feature}) in ${entry.filePath}`));
+  }
+  for (const { entry, reason } of refused) {
+    console.log(chalk.red(`❌ Kept fix ${entry.id} in ${entry.filePath}: ${reason}`));
+  }
+  
+  if (refused.length > 0) {
+    process.exit(1);
+  }
+}
@@ -4,4 +4,6 @@ export * from './check.js';
 export * from './fix.js';
 export * from './config.js';
 export * from './automation.js';
+export * from './lsp.js';
+export * from './cache.js';
 export { status, diagnostics } from './status.js';
\ No newline at end of file
@@ -1,5 +1,5 @@
 import { UIComponents, Prompts } from '../ui/index.js';
-import { ConfigurationManager, BROWSER_TARGET_PRESETS, type PresetName } from '../core/index.js';
+import { ConfigurationManager, BrowserslistTargets, BROWSER_TARGET_PRESETS, type PresetName, type BrowserslistResolution } from '../core/index.js';
 import { ErrorHandler } from '../core/error-handler.js';
 
 /**
@@ -50,12 +50,16 @@ export async function init(options: {
         return;
       }
     } else {
-      // Run interactive setup wizard
+      // Run interactive setup wizard, offering the project's browserslist config if present
       spinner.stop();
-      const setupResult = await Prompts.setupWizard();
+      const browserslist = resolveBrowserslist();
+      const setupResult = await Prompts.setupWizard(browserslist);
       spinner.start();
       
       config = ConfigurationManager.createWithCustomTargets(setupResult.targets);
+      if (setupResult.targetSource === 'browserslist') {
+        config.targetSource = 'browserslist';
+      }
       
       // Set up automation if requested and not skipped
       if (setupResult.installHooks && !options.skipHooks) {
@@ -153,4 +157,15 @@ export async function init(options: {
     
     process.exit(1);
   }
-}
\ No newline at end of file
+}
+/**
+ * Resolve the project's browserslist config, ignoring configs that can't be used
+ */
+function resolveBrowserslist(): BrowserslistResolution | null {
+  try {
+    const resolution = BrowserslistTargets.resolveProjectTargets();
+    return resolution && resolution.targets.length > 0 ? resolution : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,24 @@
+import { ConfigurationManager } from '../core/configuration.js';
+import { logger } from '../core/debug-logger.js';
+import { BaseGuardLanguageServer } from '../lsp/language-server.js';
+
+/**
+ * Run the BaseGuard language server over stdio
+ */
+export async function lsp(options: { debug?: boolean }): Promise<void> {
+  // stdout carries the protocol, so route all console output to stderr
+  console.log = console.error;
+  console.info = console.error;
+
+  if (options.debug) {
+    logger.enableDebug();
+  }
+
+  const categoryLogger = logger.createCategoryLogger('lsp-command');
+
+  const config = await ConfigurationManager.load();
+  categoryLogger.info('Starting language server', { targets: config.targets.length });
+
+  const server = new BaseGuardLanguageServer(config);
+  await server.listen();
+}
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { BrowserslistTargets } from '../browserslist-targets.js';
+
+describe('BrowserslistTargets', () => {
+  it('should resolve queries to the lowest version per browser', () => {
+    const { targets } = BrowserslistTargets.resolve('chrome 100-110, firefox 115, safari 15.4, edge 120');
+
+    expect(targets).toEqual([
+      { browser: 'chrome', minVersion: '100' },
+      { browser: 'edge', minVersion: '120' },
+      { browser: 'firefox', minVersion: '115' },
+      { browser: 'safari', minVersion: '15.4' }
+    ]);
+  });
+
+  it('should map mobile browsers onto their desktop counterparts', () => {
+    const { targets } = BrowserslistTargets.resolve(['ios_saf 15.2-15.3', 'safari 16']);
+
+    expect(targets).toEqual([{ browser: 'safari', minVersion: '15.2' }]);
+  });
+
+  it('should skip browsers without Baseline data', () => {
+    const { targets, skipped } = BrowserslistTargets.resolve('chrome 120, ie 11, op_mini all');
+
+    expect(targets).toEqual([{ browser: 'chrome', minVersion: '120' }]);
+    expect(skipped).toEqual(['ie', 'op_mini']);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BuildTargets } from '../build-targets.js';
+import type { DetectedFeature } from '../../types/index.js';
+
+const makeFeature = (feature: string, file: string): DetectedFeature => ({
+  feature,
+  type: 'js',
+  line: 1,
+  column: 0,
+  context: '',
+  file
+});
+
+describe('BuildTargets', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'baseguard-build-targets-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should read tsconfig targets through comments and extends', async () => {
+    await writeFile(join(dir, 'tsconfig.base.json'), '{ "compilerOptions": { "target": "ES2019", } }');
+    await writeFile(join(dir, 'tsconfig.json'), [
+      '{',
+      '  // shared settings',
+      '  "extends": "./tsconfig.base.json",',
+      '  "compilerOptions": { "outDir": "dist/*" }',
+      '}'
+    ].join('\n'));
+
+    const targets = BuildTargets.discover(dir);
+
+    expect(targets).toEqual([
+      expect.objectContaining({ tool: 'typescript', source: 'tsconfig.json', target: 'es2019', esVersion: 2019 })
+    ]);
+    expect(BuildTargets.findTranspiler(makeFeature('optional-chaining', 'src/a.ts'), targets)?.tool).toBe('typescript');
+    expect(BuildTargets.findTranspiler(makeFeature('optional-chaining', 'src/a.js'), targets)).toBeNull();
+    expect(BuildTargets.findTranspiler(makeFeature('top-level-await', 'src/a.ts'), targets)).toBeNull();
+    expect(BuildTargets.findTranspiler(makeFeature('structuredClone', 'src/a.ts'), targets)).toBeNull();
+  });
+
+  it('should read preset-env targets and Vite build targets', async () => {
+    await writeFile(join(dir, 'package.json'), JSON.stringify({
+      babel: { presets: [['@babel/preset-env', { targets: { chrome: '90', safari: '14' } }]] }
+    }));
+    await writeFile(join(dir, 'vite.config.ts'), [
+      'export default defineConfig({',
+      '  build: { rollupOptions: { output: { target: "ignored" } }, target: ["es2022", "safari15"] }',
+      '});'
+    ].join('\n'));
+
+    const [babel, vite] = BuildTargets.discover(dir);
+
+    expect(babel).toMatchObject({ tool: 'babel', browsers: [{ browser: 'chrome', minVersion: '90' }, { browser: 'safari', minVersion: '14' }] });
+    expect(vite).toMatchObject({ tool: 'vite', source: 'vite.config.ts', esVersion: 2022, browsers: [{ browser: 'safari', minVersion: '15' }] });
+
+    // Safari 14 lacks private fields, but every target ships optional chaining
+    expect(BuildTargets.findTranspiler(makeFeature('private-fields', 'src/a.jsx'), [babel!, vite!])?.tool).toBe('babel');
+    expect(BuildTargets.findTranspiler(makeFeature('optional-chaining', 'src/a.jsx'), [babel!, vite!])).toBeNull();
+  });
+
+  it('should ignore tsconfig when tsc does not emit', async () => {
+    await writeFile(join(dir, 'tsconfig.json'), '{ "compilerOptions": { "target": "es5", "noEmit": true } }');
+
+    expect(BuildTargets.discover(dir)).toEqual([]);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { FeatureIndex } from '../feature-index.js';
+
+describe('FeatureIndex', () => {
+  const index = new FeatureIndex({
+    'container-queries': { compat_features: ['css.properties.container-type', 'css.at-rules.container'] },
+    'grid': { compat_features: ['css.properties.display.grid', 'css.properties.grid-template-columns'] },
+    'has': { compat_features: ['css.selectors.has'] },
+    'viewport-unit-variants': { compat_features: ['css.types.length.viewport_percentage_units_dynamic'] },
+    'oklab': { compat_features: ['css.types.color.oklch'] },
+    'relative-color': { compat_features: ['css.types.color.oklab.relative_syntax'] },
+    'media-query-range-syntax': { compat_features: ['css.at-rules.media.range_syntax'] },
+    'prefers-color-scheme': { compat_features: ['css.at-rules.media.prefers-color-scheme'] },
+    'async-clipboard': { compat_features: ['api.Clipboard', 'api.Clipboard.readText', 'api.Navigator.clipboard'] },
+    'array-at': { compat_features: ['javascript.builtins.Array.at', 'javascript.builtins.String.at'] },
+    'web-animations': { compat_features: ['api.Animation', 'api.Animation.replaceState', 'api.Animation.cancel_event'] },
+    'request-idle': { compat_features: ['api.Window.requestIdleCallback'] },
+    'loading-lazy': { compat_features: ['html.elements.img.loading', 'html.elements.iframe.loading'] },
+    'popover': { compat_features: ['html.global_attributes.popover', 'api.HTMLElement.showPopover'] },
+    'js-modules': { compat_features: ['html.elements.script.type.module'] }
+  });
+
+  it('should map CSS properties, values, selectors and at-rules', () => {
+    expect(index.lookup('container-type', 'css')).toBe('container-queries');
+    expect(index.lookup('@container', 'css')).toBe('container-queries');
+    expect(index.lookup('display: grid', 'css')).toBe('grid');
+    expect(index.lookup(':has()', 'css')).toBe('has');
+    expect(index.lookup('container-type', 'js')).toBeNull();
+  });
+
+  it('should map units, color functions and media features', () => {
+    expect(index.lookup('dvh', 'css')).toBe('viewport-unit-variants');
+    expect(index.lookup('oklch()', 'css')).toBe('oklab');
+    expect(index.lookup('oklab(from)', 'css')).toBe('relative-color');
+    expect(index.lookup('@media range syntax', 'css')).toBe('media-query-range-syntax');
+    expect(index.lookup('@media (prefers-color-scheme)', 'css')).toBe('prefers-color-scheme');
+  });
+
+  it('should map builtins, interfaces and their members through global instances', () => {
+    expect(index.lookup('Array.prototype.at', 'js')).toBe('array-at');
+    expect(index.lookup('at', 'js')).toBe('array-at');
+    expect(index.lookup('navigator.clipboard', 'js')).toBe('async-clipboard');
+    expect(index.lookup('window.navigator.clipboard', 'js')).toBe('async-clipboard');
+    expect(index.lookup('requestIdleCallback', 'js')).toBe('request-idle');
+    expect(index.lookup('item.readText', 'js')).toBe('async-clipboard');
+    // Bare members are not borrowed from unrelated interfaces of known globals
+    expect(index.lookup('history.replaceState', 'js')).toBeNull();
+    expect(index.lookup('cancel_event', 'js')).toBeNull();
+  });
+
+  it('should map HTML elements and attributes and fall back to feature IDs', () => {
+    expect(index.lookup('loading', 'html')).toBe('loading-lazy');
+    expect(index.lookup('img[loading]', 'html')).toBe('loading-lazy');
+    expect(index.lookup('popover', 'html')).toBe('popover');
+    expect(index.lookup('showPopover', 'js')).toBe('popover');
+    expect(index.lookup('script[type="module"]', 'html')).toBe('js-modules');
+    expect(index.lookup('js-modules', 'html')).toBe('js-modules');
+    expect(index.lookup('marquee', 'html')).toBeNull();
+  });
+
+  it('should drop aliases claimed by more than one feature', () => {
+    const ambiguous = new FeatureIndex({
+      'a': { compat_features: ['api.Foo.start'] },
+      'b': { compat_features: ['api.Bar.start'] }
+    });
+
+    expect(ambiguous.lookup('start', 'js')).toBeNull();
+    expect(ambiguous.lookup('Bar.start', 'js')).toBe('b');
+  });
+});
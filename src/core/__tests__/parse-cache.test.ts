@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile, mkdir, readdir } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ParseCache } from '../parse-cache.js';
+import type { DetectedFeature } from '../../types/index.js';
+
+const feature: DetectedFeature = {
+  feature: 'structuredClone',
+  type: 'js',
+  line: 1,
+  column: 11,
+  context: 'const a = structuredClone(b);',
+  file: 'ignored.js'
+};
+
+describe('ParseCache', () => {
+  let dir: string;
+  let cache: ParseCache;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'baseguard-parse-cache-'));
+    cache = new ParseCache(join(dir, 'cache'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should share entries between files with identical content and miss after an edit', async () => {
+    const a = join(dir, 'a.js');
+    const b = join(dir, 'b.js');
+    await writeFile(a, 'const a = structuredClone(b);\n');
+    await writeFile(b, 'const a = structuredClone(b);\n');
+
+    await cache.set(await cache.getKey(a), [feature]);
+
+    expect(await cache.get(await cache.getKey(b), b)).toEqual([{ ...feature, file: b }]);
+
+    await writeFile(a, 'const a = 1;\n');
+    expect(await cache.get(await cache.getKey(a), a)).toBeNull();
+  });
+
+  it('should key on the file extension as well as the content', async () => {
+    await writeFile(join(dir, 'a.js'), 'a {}');
+    await writeFile(join(dir, 'a.css'), 'a {}');
+
+    expect(await cache.getKey(join(dir, 'a.js'))).not.toBe(await cache.getKey(join(dir, 'a.css')));
+  });
+
+  it('should prune entries written by other versions and report them as stale', async () => {
+    const file = join(dir, 'a.js');
+    await writeFile(file, 'x');
+    const key = await cache.getKey(file);
+    await cache.set(key, [feature]);
+
+    const staleDir = join(dir, 'cache', 'parse', 'ff');
+    await mkdir(staleDir, { recursive: true });
+    await writeFile(join(staleDir, `ff${'0'.repeat(62)}.json`), JSON.stringify({
+      versions: { ...ParseCache.getVersions(), parser: -1 },
+      createdAt: new Date().toISOString(),
+      features: []
+    }));
+
+    expect(await cache.stats()).toMatchObject({ entries: 2, staleEntries: 1 });
+
+    const { removed } = await cache.prune();
+
+    expect(removed).toBe(1);
+    expect(await cache.get(key, file)).not.toBeNull();
+    expect(await readdir(staleDir)).toEqual([]);
+  });
+
+  it('should remove every entry on clear', async () => {
+    const file = join(dir, 'a.js');
+    await writeFile(file, 'x');
+    const key = await cache.getKey(file);
+    await cache.set(key, [feature]);
+
+    expect(await cache.clear()).toBe(1);
+    expect(await cache.get(key, file)).toBeNull();
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PolyfillDetector } from '../polyfill-detector.js';
+import { FeatureIndex } from '../feature-index.js';
+
+const index = new FeatureIndex({
+  'array-at': { compat_features: ['javascript.builtins.Array.at', 'javascript.builtins.String.at'] },
+  'array-findlast': { compat_features: ['javascript.builtins.Array.findLast'] },
+  'structured-clone': { compat_features: ['api.structuredClone'] },
+  'fetch': { compat_features: ['api.fetch', 'api.Request'] },
+  'popover': { compat_features: ['html.global_attributes.popover'] }
+});
+
+describe('PolyfillDetector', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'baseguard-polyfills-'));
+    vi.spyOn(FeatureIndex, 'load').mockResolvedValue(index);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should resolve core-js entry points and polyfill packages', () => {
+    expect(PolyfillDetector.resolveModule('core-js/actual/array/at', index)).toEqual(['array-at']);
+    expect(PolyfillDetector.resolveModule('core-js/stable/array/virtual/find-last', index)).toEqual(['array-findlast']);
+    expect(PolyfillDetector.resolveModule('core-js/modules/web.structured-clone', index)).toEqual(['structured-clone']);
+    expect(PolyfillDetector.resolveModule('core-js/stable', index)).toEqual(['array-at', 'array-findlast', 'structured-clone']);
+    expect(PolyfillDetector.resolveModule('whatwg-fetch', index)).toEqual(['fetch']);
+    expect(PolyfillDetector.resolveModule('core-js-pure/stable/array/at', index)).toBeNull();
+    expect(PolyfillDetector.resolveModule('lodash', index)).toBeNull();
+  });
+
+  it('should detect imports in entry files, preset-env and configured polyfills', async () => {
+    await mkdir(join(dir, 'src'));
+    await writeFile(join(dir, 'src', 'polyfills.ts'), "import 'core-js/actual/array/at';\nrequire('@oddbird/popover-polyfill');\n");
+    await writeFile(join(dir, '.babelrc'), JSON.stringify({ presets: [['@babel/preset-env', { useBuiltIns: 'usage' }]] }));
+
+    const polyfills = await PolyfillDetector.detect({ include: ['structuredClone'] }, dir);
+
+    expect(polyfills).toEqual([
+      { source: 'structuredClone', featureIds: ['structured-clone'], file: '.baseguardrc.json' },
+      expect.objectContaining({ source: '@babel/preset-env useBuiltIns: "usage"', file: '.babelrc' }),
+      { source: 'core-js/actual/array/at', featureIds: ['array-at'], file: join('src', 'polyfills.ts') },
+      { source: '@oddbird/popover-polyfill', featureIds: ['popover'], file: join('src', 'polyfills.ts') }
+    ]);
+
+    const declaredOnly = await PolyfillDetector.detect({ include: ['structuredClone'], autoDetect: false }, dir);
+    expect(declaredOnly.map(polyfill => polyfill.source)).toEqual(['structuredClone']);
+  });
+
+  it('should follow local imports from index.html and package.json entries only', async () => {
+    await mkdir(join(dir, 'app', 'setup'), { recursive: true });
+    await writeFile(join(dir, 'index.html'), '<script type="module" src="/app/boot.ts"></script>');
+    await writeFile(join(dir, 'package.json'), JSON.stringify({ module: 'app/lib.mjs' }));
+    await writeFile(join(dir, 'app', 'boot.ts'), "import './setup/index.js';\nimport '../../outside.js';\n");
+    await writeFile(join(dir, 'app', 'setup', 'index.ts'), "import 'whatwg-fetch';\n");
+    await writeFile(join(dir, 'app', 'lib.mjs'), "import '@oddbird/popover-polyfill';\n");
+    await writeFile(join(dir, 'app', 'unused.ts'), "import 'core-js/actual/array/at';\n");
+
+    const polyfills = await PolyfillDetector.detect({}, dir);
+
+    expect(polyfills.map(polyfill => `${polyfill.source} ${polyfill.file}`).sort()).toEqual([
+      `@oddbird/popover-polyfill ${join('app', 'lib.mjs')}`,
+      `whatwg-fetch ${join('app', 'setup', 'index.ts')}`
+    ]);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { SuppressionManager } from '../suppression-manager.js';
+import type { Violation } from '../../types/index.js';
+
+const makeViolation = (line: number, overrides: Partial<Violation> = {}): Violation => ({
+  feature: 'container-type',
+  featureId: 'container-queries',
+  file: 'src/Card.css',
+  line,
+  column: 3,
+  context: 'container-type: inline-size;',
+  browser: 'safari',
+  required: '15',
+  actual: false,
+  baselineStatus: 'newly',
+  reason: 'Not supported in Safari 15',
+  ...overrides
+});
+
+describe('SuppressionManager', () => {
+  describe('parseDirectives', () => {
+    it('should parse directives from JS, CSS and HTML comments', () => {
+      const content = [
+        '// baseguard-disable-next-line structured-clone',
+        'const copy = structuredClone(value);',
+        '/* baseguard-disable container-queries, has -- legacy layout */',
+        '<!-- baseguard-enable -->'
+      ].join('\n');
+
+      expect(SuppressionManager.parseDirectives(content)).toEqual([
+        { kind: 'disable-next-line', line: 1, featureIds: ['structured-clone'] },
+        { kind: 'disable', line: 3, featureIds: ['container-queries', 'has'], reason: 'legacy layout' },
+        { kind: 'enable', line: 4, featureIds: [] }
+      ]);
+    });
+  });
+
+  describe('findSuppression', () => {
+    it('should suppress only the next line for disable-next-line', () => {
+      const directives = SuppressionManager.parseDirectives('/* baseguard-disable-next-line */\na\nb');
+
+      expect(SuppressionManager.findSuppression(directives, makeViolation(2))).not.toBeNull();
+      expect(SuppressionManager.findSuppression(directives, makeViolation(3))).toBeNull();
+    });
+
+    it('should limit suppression to the listed feature IDs', () => {
+      const directives = SuppressionManager.parseDirectives('a /* baseguard-disable-line has */');
+
+      expect(SuppressionManager.findSuppression(directives, makeViolation(1))).toBeNull();
+      expect(
+        SuppressionManager.findSuppression(directives, makeViolation(1, { featureId: 'has', feature: ':has' }))
+      ).not.toBeNull();
+    });
+
+    it('should suppress blocks until baseguard-enable', () => {
+      const content = ['/* baseguard-disable */', 'a', '/* baseguard-enable */', 'b'].join('\n');
+      const directives = SuppressionManager.parseDirectives(content);
+
+      expect(SuppressionManager.findSuppression(directives, makeViolation(2))).not.toBeNull();
+      expect(SuppressionManager.findSuppression(directives, makeViolation(4))).toBeNull();
+    });
+
+    it('should suppress the whole file for disable-file', () => {
+      const directives = SuppressionManager.parseDirectives('a\nb\n<!-- baseguard-disable-file -->');
+
+      expect(SuppressionManager.findSuppression(directives, makeViolation(1))).not.toBeNull();
+    });
+  });
+
+  describe('partitionViolations', () => {
+    it('should separate suppressed violations from active ones', async () => {
+      const content = '.card {\n  /* baseguard-disable-next-line */\n  container-type: inline-size;\n}\n';
+      const result = await SuppressionManager.partitionViolations(
+        [makeViolation(3), makeViolation(5)],
+        async () => content
+      );
+
+      expect(result.violations.map(v => v.line)).toEqual([5]);
+      expect(result.suppressed).toHaveLength(1);
+      expect(result.suppressed[0]?.directive.kind).toBe('disable-next-line');
+    });
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { join } from 'path';
+import { TargetOverrides } from '../target-overrides.js';
+import type { Configuration } from '../../types/index.js';
+
+const root = join('/', 'project');
+
+const config: Pick<Configuration, 'targets' | 'overrides'> = {
+  targets: [{ browser: 'safari', minVersion: '14' }],
+  overrides: [
+    { files: ['apps/admin/**'], targets: [{ browser: 'chrome', minVersion: '120' }] },
+    { files: ['**/sw.js', '**/*.worker.ts'], ignoreFeatures: ['view-transitions', 'ResizeObserver'] },
+    { files: ['apps/**'], targets: [{ browser: 'firefox', minVersion: '115' }] }
+  ]
+};
+
+describe('TargetOverrides', () => {
+  it('should apply the first override whose files match', () => {
+    const admin = TargetOverrides.resolve('apps/admin/src/Table.tsx', config, root);
+    expect(admin.targets).toEqual([{ browser: 'chrome', minVersion: '120' }]);
+    expect(admin.override).toBe('apps/admin/**');
+
+    const absolute = TargetOverrides.resolve(join(root, 'apps', 'shop', 'Cart.tsx'), config, root);
+    expect(absolute.targets).toEqual([{ browser: 'firefox', minVersion: '115' }]);
+    expect(absolute.override).toBe('apps/**');
+
+    const storefront = TargetOverrides.resolve('src/Cart.tsx', config, root);
+    expect(storefront.targets).toEqual(config.targets);
+    expect(storefront.override).toBeUndefined();
+  });
+
+  it('should inherit targets and ignore features by ID or name', () => {
+    const worker = TargetOverrides.resolve('src/sw.js', config, root);
+
+    expect(worker.targets).toEqual(config.targets);
+    expect(worker.override).toBe('**/sw.js, **/*.worker.ts');
+    expect(TargetOverrides.isIgnored({ feature: 'document.startViewTransition', featureId: 'view-transitions' }, worker)).toBe(true);
+    expect(TargetOverrides.isIgnored({ feature: 'ResizeObserver', featureId: 'resize-observer' }, worker)).toBe(true);
+    expect(TargetOverrides.isIgnored({ feature: 'structuredClone', featureId: 'structured-clone' }, worker)).toBe(false);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ViolationBaseline } from '../violation-baseline.js';
+import type { Violation } from '../../types/index.js';
+
+const makeViolation = (overrides: Partial<Violation> = {}): Violation => ({
+  feature: 'container-type',
+  featureId: 'container-queries',
+  file: 'src/Card.css',
+  line: 15,
+  column: 3,
+  context: 'container-type: inline-size;',
+  browser: 'safari',
+  required: '15',
+  actual: false,
+  baselineStatus: 'newly',
+  reason: 'Not supported in Safari 15',
+  ...overrides
+});
+
+describe('ViolationBaseline', () => {
+  it('should match known violations regardless of line number and whitespace', () => {
+    const baseline = ViolationBaseline.create([makeViolation()]);
+    const moved = makeViolation({ line: 42, context: 'container-type:   inline-size;' });
+
+    const result = ViolationBaseline.partition([moved], baseline);
+
+    expect(result.knownViolations).toEqual([moved]);
+    expect(result.newViolations).toEqual([]);
+  });
+
+  it('should report violations with a different browser or context as new', () => {
+    const baseline = ViolationBaseline.create([makeViolation()]);
+    const otherBrowser = makeViolation({ browser: 'firefox' });
+    const otherContext = makeViolation({ context: 'container-type: size;' });
+
+    const result = ViolationBaseline.partition([otherBrowser, otherContext], baseline);
+
+    expect(result.newViolations).toEqual([otherBrowser, otherContext]);
+  });
+
+  it('should count identical occurrences so added duplicates are new', () => {
+    const baseline = ViolationBaseline.create([makeViolation(), makeViolation({ line: 30 })]);
+    expect(baseline.entries).toHaveLength(1);
+    expect(baseline.entries[0]?.count).toBe(2);
+
+    const result = ViolationBaseline.partition(
+      [makeViolation(), makeViolation({ line: 30 }), makeViolation({ line: 50 })],
+      baseline
+    );
+
+    expect(result.knownViolations).toHaveLength(2);
+    expect(result.newViolations.map(v => v.line)).toEqual([50]);
+  });
+
+  it('should only rewrite the file when its entries change', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'baseguard-baseline-'));
+    const file = join(dir, ViolationBaseline.BASELINE_FILE);
+    try {
+      const first = await ViolationBaseline.save([makeViolation()], file);
+      const written = await readFile(file, 'utf-8');
+      await new Promise(resolve => setTimeout(resolve, 5));
+
+      const unchanged = await ViolationBaseline.save([makeViolation({ line: 40 })], file);
+      expect(unchanged.generatedAt).toBe(first.generatedAt);
+      expect(await readFile(file, 'utf-8')).toBe(written);
+
+      const changed = await ViolationBaseline.save([makeViolation(), makeViolation({ browser: 'firefox' })], file);
+      expect(changed.generatedAt).not.toBe(first.generatedAt);
+      expect((await ViolationBaseline.load(file))?.entries).toHaveLength(2);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
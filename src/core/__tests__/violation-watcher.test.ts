@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join, relative } from 'path';
+import { ViolationWatcher } from '../violation-watcher.js';
+import { DirectoryFilter } from '../directory-filter.js';
+import type { BaseGuard } from '../baseguard.js';
+import type { Violation } from '../../types/index.js';
+
+const violation = (overrides: Partial<Violation>): Violation => ({
+  feature: 'container-type',
+  featureId: 'container-queries',
+  file: '/project/src/card.css',
+  line: 1,
+  column: 1,
+  context: '.card { container-type: inline-size; }',
+  browser: 'safari',
+  required: '15',
+  actual: false,
+  baselineStatus: 'newly',
+  reason: 'Not supported',
+  ...overrides
+});
+
+describe('ViolationWatcher', () => {
+  it('should not report violations that only moved lines', () => {
+    const before = [violation({ line: 3 })];
+    const after = [violation({ line: 8 })];
+
+    expect(ViolationWatcher.diff(before, after)).toEqual({ introduced: [], resolved: [] });
+  });
+
+  it('should report introduced and resolved violations', () => {
+    const kept = violation({ browser: 'firefox' });
+    const removed = violation({ browser: 'safari' });
+    const added = violation({ featureId: 'aspect-ratio', feature: 'aspect-ratio', context: '.card { aspect-ratio: 1; }' });
+
+    const { introduced, resolved } = ViolationWatcher.diff([kept, removed], [kept, added]);
+
+    expect(introduced).toEqual([added]);
+    expect(resolved).toEqual([removed]);
+  });
+
+  it('should count repeated identical violations individually', () => {
+    const before = [violation({ line: 2 })];
+    const after = [violation({ line: 2 }), violation({ line: 9 })];
+
+    const { introduced, resolved } = ViolationWatcher.diff(before, after);
+
+    expect(introduced).toHaveLength(1);
+    expect(resolved).toHaveLength(0);
+  });
+
+  it('should only react to changes in files the scan would check', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'baseguard-watch-'));
+    const paths = [
+      'src/app.js',
+      'node_modules/lib/index.js',
+      'packages/ui/node_modules/lib/index.js',
+      '.baseguard/cache/parse/3f2a.json',
+      '.baseguard/cache/parse/3f2a',
+      '.git/index',
+      '.baseguard-baseline.json'
+    ];
+    try {
+      for (const path of paths) {
+        await mkdir(join(dir, path, '..'), { recursive: true });
+        await writeFile(join(dir, path), '');
+      }
+
+      const scanned = await new DirectoryFilter().findFilesWithGlob(['**/*'], { cwd: dir });
+      const watcher = new ViolationWatcher({} as BaseGuard, ['**/*'], { onUpdate: () => {} });
+      const isRelevantChange = (filename: string) =>
+        (watcher as unknown as { isRelevantChange(filename: string): boolean }).isRelevantChange(filename);
+
+      expect(scanned.map(file => relative(dir, file))).toEqual(['src/app.js']);
+      expect(paths.filter(isRelevantChange)).toEqual(['src/app.js']);
+      expect(['node_modules', '.baseguard', 'src/components'].filter(isRelevantChange)).toEqual(['src/components']);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
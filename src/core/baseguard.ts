@@ -1,13 +1,22 @@
-import type { Violation, Analysis, Fix, Configuration } from '../types/index.js';
+import type { Violation, Analysis, Fix, Configuration, CheckResult, DetectedFeature, BuildTarget, TranspiledFeature, Polyfill, PolyfilledViolation, GuardedViolation } from '../types/index.js';
 import { ParserManager } from '../parsers/parser-manager.js';
+import { TypeAwareAnalyzer } from '../parsers/type-aware-analyzer.js';
 import { BaselineChecker } from './baseline-checker.js';
 import { FileProcessor } from './file-processor.js';
 import { DirectoryFilter } from './directory-filter.js';
 import { CacheManager } from './cache-manager.js';
+import { ParseCache } from './parse-cache.js';
 import { SystemErrorHandler } from './system-error-handler.js';
 import { GracefulDegradationManager } from './graceful-degradation-manager.js';
 import { ConfigurationRecovery } from './configuration-recovery.js';
+import { SuppressionManager } from './suppression-manager.js';
+import { BuildTargets } from './build-targets.js';
+import { PolyfillDetector } from './polyfill-detector.js';
+import { TargetOverrides } from './target-overrides.js';
+import type { EffectiveTargets } from './target-overrides.js';
+import { RuleBasedFixer } from '../ai/rule-based-fixer.js';
 import { logger } from './debug-logger.js';
+import { resolve } from 'path';
 import chalk from 'chalk';
 
 /**
@@ -20,6 +29,8 @@ export class BaseGuard {
   private fileProcessor!: FileProcessor;
   private directoryFilter!: DirectoryFilter;
   private cacheManager!: CacheManager;
+  private buildTargets: BuildTarget[] | null = null;
+  private polyfills: Polyfill[] | null = null;
   private categoryLogger: ReturnType<typeof logger.createCategoryLogger>;
   private initialized = false;
   private initializationPromise: Promise<void> | null = null;
@@ -74,7 +85,8 @@ export class BaseGuard {
         async () => {
           return new FileProcessor({
             maxWorkers,
-            cacheManager: this.cacheManager
+            cacheManager: this.cacheManager,
+            parseCache: new ParseCache()
           });
         },
         new FileProcessor({ maxWorkers: 2, cacheManager: this.cacheManager }),
@@ -120,14 +132,19 @@ export class BaseGuard {
    * Check files for compatibility violations with enhanced error recovery
    */
   async checkViolations(patterns: string[] = []): Promise<Violation[]> {
+    const result = await this.checkViolationsDetailed(patterns);
+    return result.violations;
+  }
+
+  /**
+   * Check files for violations, keeping inline-suppressed violations separate
+   */
+  async checkViolationsDetailed(patterns: string[] = []): Promise<CheckResult> {
     await this.ensureInitialized();
     
     logger.startSession('check-violations');
-    this.categoryLogger.startPerformance('check-violations');
     
     try {
-      const violations: Violation[] = [];
-      
       // Find files using smart filtering and caching with error recovery
       const allFiles = await SystemErrorHandler.withRetry(
         async () => {
@@ -141,84 +158,7 @@ export class BaseGuard {
         3 // max retries
       );
       
-      if (allFiles.length === 0) {
-        this.categoryLogger.warn('No supported files found to check', { patterns });
-        return violations;
-      }
-
-      this.categoryLogger.info(`Processing ${allFiles.length} files for violations`);
-      
-      // Process files concurrently with caching and error recovery
-      const allFeatures = await SystemErrorHandler.handleGracefully(
-        () => this.fileProcessor.processFiles(allFiles),
-        [], // fallback to empty array
-        { operation: 'process_files', details: { fileCount: allFiles.length } },
-        {
-          logError: true,
-          showWarning: true,
-          attemptRecovery: true
-        }
-      );
-      
-      this.categoryLogger.info(`Extracted ${allFeatures.length} features from ${allFiles.length} files`);
-      
-      // Check each feature for compatibility violations with error recovery
-      let processedFeatures = 0;
-      let failedFeatures = 0;
-      
-      for (const feature of allFeatures) {
-        try {
-          const compatibilityResult = await SystemErrorHandler.handleGracefully(
-            () => this.baselineChecker.checkCompatibility(feature, this.config.targets),
-            { violations: [], featureData: null }, // fallback result
-            { 
-              operation: 'check_compatibility', 
-              file: feature.file,
-              details: { feature: feature.feature }
-            }
-          );
-          
-          // Add violations with file context
-          for (const violation of compatibilityResult.violations) {
-            violations.push({
-              ...violation,
-              file: feature.file || 'unknown',
-              line: feature.line,
-              column: feature.column,
-              context: feature.context
-            });
-          }
-          
-          processedFeatures++;
-        } catch (error) {
-          failedFeatures++;
-          this.categoryLogger.warn('Failed to check feature compatibility', {
-            feature: feature.feature,
-            file: feature.file,
-            error: error instanceof Error ? error.message : 'Unknown error'
-          });
-          
-          // Continue processing other features
-          continue;
-        }
-      }
-      
-      const duration = this.categoryLogger.endPerformance('check-violations', {
-        totalFiles: allFiles.length,
-        processedFeatures,
-        failedFeatures,
-        violationsFound: violations.length
-      });
-      
-      this.categoryLogger.info('Violation check completed', {
-        duration,
-        totalFiles: allFiles.length,
-        processedFeatures,
-        failedFeatures,
-        violationsFound: violations.length
-      });
-      
-      return violations;
+      return await this.checkFileList(allFiles, patterns);
       
     } catch (error) {
       this.categoryLogger.error('Violation check failed', { error });
@@ -232,7 +172,7 @@ export class BaseGuard {
           // Simplified violation checking with minimal features
           const basicViolations = await this.performBasicViolationCheck(patterns);
           this.categoryLogger.info('Graceful degradation successful', { violationsFound: basicViolations.length });
-          return basicViolations;
+          return { violations: basicViolations, suppressed: [] };
         } catch (degradationError) {
           this.categoryLogger.error('Graceful degradation also failed', { error: degradationError });
         }
@@ -244,6 +184,316 @@ export class BaseGuard {
     }
   }
 
+  /**
+   * Check specific files (paths, not glob patterns) for violations
+   */
+  async checkFiles(filePaths: string[]): Promise<CheckResult> {
+    await this.ensureInitialized();
+
+    const files = filePaths
+      .map(filePath => resolve(filePath))
+      .filter(filePath => this.directoryFilter.isSupportedFile(filePath));
+
+    logger.startSession('check-files');
+    try {
+      return await this.checkFileList(files, filePaths);
+    } finally {
+      await logger.endSession();
+    }
+  }
+
+  /**
+   * Find files matching glob patterns using the directory filter rules
+   */
+  async findFiles(patterns: string[]): Promise<string[]> {
+    await this.ensureInitialized();
+    return this.directoryFilter.findFilesWithGlob(patterns);
+  }
+
+  /**
+   * Split files into changed and unchanged since they were last seen
+   */
+  async getChangedFiles(filePaths: string[]): Promise<{ changed: string[]; unchanged: string[] }> {
+    await this.ensureInitialized();
+    return this.cacheManager.getChangedFiles(filePaths);
+  }
+
+  /**
+   * Parse files and check their features against the configured targets
+   */
+  private async checkFileList(allFiles: string[], patterns: string[]): Promise<CheckResult> {
+    if (allFiles.length === 0) {
+      this.categoryLogger.warn('No supported files found to check', { patterns });
+      return { violations: [], suppressed: [] };
+    }
+
+    this.categoryLogger.startPerformance('check-violations');
+
+    this.categoryLogger.info(`Processing ${allFiles.length} files for violations`);
+    
+    // Process files concurrently with caching and error recovery
+    const allFeatures = await SystemErrorHandler.handleGracefully(
+      () => this.fileProcessor.processFiles(allFiles),
+      [], // fallback to empty array
+      { operation: 'process_files', details: { fileCount: allFiles.length } },
+      {
+        logError: true,
+        showWarning: true,
+        attemptRecovery: true
+      }
+    );
+    
+    this.categoryLogger.info(`Extracted ${allFeatures.length} features from ${allFiles.length} files`);
+    
+    return this.checkFeatures(await this.withTypeAwareFeatures(allFeatures, allFiles), allFiles);
+  }
+
+  /**
+   * Check in-memory sources, such as staged git blobs, instead of reading files from disk
+   */
+  async checkSources(sources: Array<{ filePath: string; content: string }>): Promise<CheckResult> {
+    await this.ensureInitialized();
+
+    const supported = sources.filter(source => this.directoryFilter.isSupportedFile(source.filePath));
+    if (supported.length === 0) {
+      return { violations: [], suppressed: [] };
+    }
+
+    logger.startSession('check-sources');
+    this.categoryLogger.startPerformance('check-violations');
+    
+    try {
+      const contents = new Map(supported.map(source => [source.filePath, source.content]));
+      const allFeatures: DetectedFeature[] = [];
+      
+      for (const { filePath, content } of supported) {
+        allFeatures.push(...await this.parserManager.parseFile(filePath, content));
+      }
+      
+      this.categoryLogger.info(`Extracted ${allFeatures.length} features from ${supported.length} sources`);
+      
+      // Suppression comments must come from the same content that was parsed
+      const files = supported.map(source => source.filePath);
+      return await this.checkFeatures(
+        await this.withTypeAwareFeatures(allFeatures, files, contents),
+        files,
+        async file => contents.get(file) ?? ''
+      );
+    } finally {
+      await logger.endSession();
+    }
+  }
+
+  /**
+   * With `typeAware` on, let the TypeScript type checker decide built-in method calls:
+   * its features replace name-matched methods and JS features at the same position
+   */
+  private async withTypeAwareFeatures(
+    features: DetectedFeature[],
+    files: string[],
+    sources?: Map<string, string>
+  ): Promise<DetectedFeature[]> {
+    if (!this.config.typeAware) {
+      return features;
+    }
+
+    try {
+      const analyzer = await TypeAwareAnalyzer.create(process.cwd(), sources);
+      if (!analyzer) {
+        return features;
+      }
+
+      const covered = new Set(files.filter(file => analyzer.covers(file)));
+      const typed = [...covered].flatMap(file => analyzer.analyze(file));
+      const positions = new Set(typed.map(feature => `${feature.file}:${feature.line}:${feature.column}`));
+      this.categoryLogger.info(`Type checker resolved ${typed.length} built-in method calls`);
+
+      // In files the checker sees, built-in methods matched by name alone give way to its answer
+      const isNameMatched = (feature: DetectedFeature): boolean =>
+        feature.type === 'js' && covered.has(feature.file ?? '') && feature.feature.includes('.prototype.');
+
+      return [
+        ...features.filter(feature =>
+          feature.type !== 'js' || (!isNameMatched(feature) && !positions.has(`${feature.file}:${feature.line}:${feature.column}`))
+        ),
+        ...typed
+      ];
+    } catch (error) {
+      console.warn(`Warning: Could not run type-aware analysis: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return features;
+    }
+  }
+
+  /**
+   * Check detected features against the configured targets and apply inline suppressions
+   */
+  private async checkFeatures(
+    allFeatures: DetectedFeature[],
+    files: string[],
+    readContent?: (file: string) => Promise<string>
+  ): Promise<CheckResult> {
+    const violations: Violation[] = [];
+    const polyfilled: PolyfilledViolation[] = [];
+    const guarded: GuardedViolation[] = [];
+    const fileCount = files.length;
+    const { shipped, transpiled } = this.partitionTranspiled(allFeatures);
+    const polyfills = await this.getPolyfills();
+    
+    // Check each feature for compatibility violations with error recovery
+    let processedFeatures = 0;
+    let failedFeatures = 0;
+    
+    const effectiveTargets = new Map<string, EffectiveTargets>();
+    
+    for (const feature of shipped) {
+      try {
+        const file = feature.file || 'unknown';
+        let effective = effectiveTargets.get(file);
+        if (!effective) {
+          effective = TargetOverrides.resolve(file, this.config);
+          effectiveTargets.set(file, effective);
+        }
+        const { targets, override } = effective;
+        
+        const compatibilityResult = await SystemErrorHandler.handleGracefully(
+          () => this.baselineChecker.checkCompatibility(feature, targets, polyfills),
+          { violations: [], featureData: null }, // fallback result
+          { 
+            operation: 'check_compatibility', 
+            file: feature.file,
+            details: { feature: feature.feature }
+          }
+        );
+        
+        // Add violations with file context, minus features the file's override ignores
+        for (const violation of compatibilityResult.violations) {
+          if (TargetOverrides.isIgnored(violation, effective)) {
+            continue;
+          }
+          violations.push({
+            ...violation,
+            file,
+            line: feature.line,
+            column: feature.column,
+            context: feature.context,
+            ...(override ? { override } : {})
+          });
+        }
+
+        for (const { violation, polyfill } of compatibilityResult.polyfilled ?? []) {
+          if (TargetOverrides.isIgnored(violation, effective)) {
+            continue;
+          }
+          polyfilled.push({
+            violation: {
+              ...violation,
+              file,
+              line: feature.line,
+              column: feature.column,
+              context: feature.context,
+              ...(override ? { override } : {})
+            },
+            polyfill
+          });
+        }
+
+        for (const violation of compatibilityResult.guarded ?? []) {
+          if (TargetOverrides.isIgnored(violation, effective)) {
+            continue;
+          }
+          guarded.push({
+            violation: {
+              ...violation,
+              file,
+              line: feature.line,
+              column: feature.column,
+              context: feature.context,
+              ...(override ? { override } : {})
+            },
+            guard: feature.guard ?? 'feature detection'
+          });
+        }
+        
+        processedFeatures++;
+      } catch (error) {
+        failedFeatures++;
+        this.categoryLogger.warn('Failed to check feature compatibility', {
+          feature: feature.feature,
+          file: feature.file,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+        
+        // Continue processing other features
+        continue;
+      }
+    }
+    
+    // Move violations silenced by inline baseguard-disable comments aside
+    const result = await SuppressionManager.partitionViolations(violations, readContent);
+    
+    const duration = this.categoryLogger.endPerformance('check-violations', {
+      totalFiles: fileCount,
+      processedFeatures,
+      failedFeatures,
+      violationsFound: result.violations.length,
+      violationsSuppressed: result.suppressed.length
+    });
+    
+    this.categoryLogger.info('Violation check completed', {
+      duration,
+      totalFiles: fileCount,
+      processedFeatures,
+      failedFeatures,
+      violationsFound: result.violations.length,
+      violationsSuppressed: result.suppressed.length,
+      transpiledFeatures: transpiled.length,
+      polyfilledViolations: polyfilled.length,
+      guardedViolations: guarded.length
+    });
+    
+    return { ...result, transpiled, polyfilled, guarded, polyfills };
+  }
+
+  /**
+   * Detect the project's polyfills once, from the config and the project's entry points
+   */
+  private async getPolyfills(): Promise<Polyfill[]> {
+    if (!this.polyfills) {
+      try {
+        this.polyfills = await PolyfillDetector.detect(this.config.polyfills);
+      } catch (error) {
+        console.warn(`Warning: Could not detect polyfills: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        this.polyfills = [];
+      }
+    }
+
+    return this.polyfills;
+  }
+
+  /**
+   * Set aside syntax features the project's build downlevels, unless configured to report them
+   */
+  private partitionTranspiled(features: DetectedFeature[]): { shipped: DetectedFeature[]; transpiled: TranspiledFeature[] } {
+    if (this.config.reportTranspiledSyntax) {
+      return { shipped: features, transpiled: [] };
+    }
+
+    this.buildTargets ??= BuildTargets.discover();
+
+    const shipped: DetectedFeature[] = [];
+    const transpiled: TranspiledFeature[] = [];
+    for (const feature of features) {
+      const buildTarget = BuildTargets.findTranspiler(feature, this.buildTargets);
+      if (buildTarget) {
+        transpiled.push({ feature, buildTarget });
+      } else {
+        shipped.push(feature);
+      }
+    }
+
+    return { shipped, transpiled };
+  }
+
   /**
    * Perform basic violation checking as fallback
    */
@@ -531,30 +781,17 @@ export class BaseGuard {
       const mode = GracefulDegradationManager.getCurrentMode();
       
       if (!mode?.capabilities.autoFix) {
-        this.categoryLogger.info('Auto-fix disabled in current mode, creating manual fix suggestions');
-        
-        // Create manual fix suggestions
-        for (let i = 0; i < violations.length; i++) {
-          const violation = violations[i];
-          const analysis = analyses[i];
-          
-          if (violation && analysis) {
-            const manualFix = GracefulDegradationManager.createBasicFixSuggestion(violation, analysis);
-            fixes.push(manualFix);
-          }
-        }
-        
-        return fixes;
+        this.categoryLogger.info('Auto-fix disabled in current mode, using rule-based fixes and manual suggestions');
       }
       
-      // Auto-fix would be implemented here when available
-      this.categoryLogger.info('Auto-fix not yet implemented, creating manual suggestions');
+      // Deterministic local fixes where a rule applies, manual suggestions otherwise
+      const ruleBased = await new RuleBasedFixer().generateFixes(violations, analyses);
+      fixes.push(...ruleBased.fixes);
       
-      for (let i = 0; i < violations.length; i++) {
-        const violation = violations[i];
-        const analysis = analyses[i];
+      for (const violation of ruleBased.unfixed) {
+        const analysis = analyses[violations.indexOf(violation)];
         
-        if (violation && analysis) {
+        if (analysis) {
           const manualFix = GracefulDegradationManager.createBasicFixSuggestion(violation, analysis);
           fixes.push(manualFix);
         }
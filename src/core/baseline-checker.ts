@@ -1,253 +1,7 @@
-import type { BrowserTarget, Violation, DetectedFeature, CompatibilityResult } from '../types/index.js';
+import type { BrowserTarget, Violation, DetectedFeature, CompatibilityResult, Polyfill } from '../types/index.js';
 import { LazyLoader } from './lazy-loader.js';
 import { MemoryManager } from './memory-manager.js';
-
-// Comprehensive feature mapping dictionary for ALL web platform features
-const FEATURE_ID_MAP: Record<string, string> = {
-  // CSS Properties
-  'container-type': 'container-queries',
-  'container-name': 'container-queries',
-  'container': 'container-queries',
-  'aspect-ratio': 'aspect-ratio',
-  'gap': 'grid-gap',
-  'row-gap': 'grid-gap',
-  'column-gap': 'grid-gap',
-  'scroll-behavior': 'scroll-behavior',
-  'backdrop-filter': 'backdrop-filter',
-  'color-scheme': 'color-scheme',
-  'accent-color': 'accent-color',
-  'overscroll-behavior': 'overscroll-behavior',
-  'scroll-snap-type': 'scroll-snap-type',
-  'scroll-snap-align': 'scroll-snap-align',
-  'object-fit': 'object-fit',
-  'object-position': 'object-position',
-  'place-items': 'place-items',
-  'place-content': 'place-content',
-  'place-self': 'place-self',
-  'inset': 'inset',
-  'inset-block': 'inset',
-  'inset-inline': 'inset',
-  'block-size': 'logical-properties',
-  'inline-size': 'logical-properties',
-  'margin-block': 'logical-properties',
-  'margin-inline': 'logical-properties',
-  'padding-block': 'logical-properties',
-  'padding-inline': 'logical-properties',
-  'border-block': 'logical-properties',
-  'border-inline': 'logical-properties',
-
-  // CSS Selectors
-  ':has()': 'has',
-  ':is()': 'is',
-  ':where()': 'where',
-  ':focus-visible': 'focus-visible',
-  ':focus-within': 'focus-within',
-  ':target-within': 'target-within',
-  '::backdrop': 'backdrop',
-  '::marker': 'marker',
-  '::part()': 'part',
-  '::slotted()': 'slotted',
-
-  // CSS At-rules
-  '@supports': 'supports',
-  '@container': 'container-queries',
-  '@layer': 'cascade-layers',
-  '@scope': 'scope',
-
-  // JavaScript Web APIs
-  'HTMLDialogElement.showModal': 'dialog',
-  'HTMLDialogElement.show': 'dialog',
-  'HTMLDialogElement.close': 'dialog',
-  'structuredClone': 'structured-clone',
-  'Array.prototype.at': 'array-at',
-  'Array.prototype.findLast': 'array-find-last',
-  'Array.prototype.findLastIndex': 'array-find-last',
-  'String.prototype.at': 'string-at',
-  'String.prototype.replaceAll': 'string-replace-all',
-  'Object.hasOwn': 'object-has-own',
-  'ResizeObserver': 'resize-observer',
-  'IntersectionObserver': 'intersection-observer',
-  'MutationObserver': 'mutation-observer',
-  'PerformanceObserver': 'performance-observer',
-  'BroadcastChannel': 'broadcast-channel',
-  'MessageChannel': 'message-channel',
-  'SharedArrayBuffer': 'shared-array-buffer',
-  'Atomics': 'atomics',
-  'BigInt': 'bigint',
-  'WeakRef': 'weak-ref',
-  'FinalizationRegistry': 'finalization-registry',
-
-  // Canvas and WebGL APIs
-  'CanvasRenderingContext2D.filter': 'canvas-filter',
-  'CanvasRenderingContext2D.reset': 'canvas-reset',
-  'WebGL2RenderingContext': 'webgl2',
-  'OffscreenCanvas': 'offscreen-canvas',
-  'OffscreenCanvasRenderingContext2D': 'offscreen-canvas',
-  'ImageBitmap': 'image-bitmap',
-  'createImageBitmap': 'image-bitmap',
-  'Path2D': 'path2d',
-
-  // WebRTC APIs
-  'RTCPeerConnection': 'webrtc',
-  'getUserMedia': 'getusermedia',
-  'RTCDataChannel': 'rtc-data-channel',
-  'RTCRtpTransceiver': 'rtc-rtp-transceiver',
-  'RTCStatsReport': 'rtc-stats',
-  'RTCIceCandidate': 'rtc-ice-candidate',
-  'RTCSessionDescription': 'rtc-session-description',
-
-  // Service Workers and PWA
-  'ServiceWorker': 'service-workers',
-  'navigator.serviceWorker': 'service-workers',
-  'ServiceWorkerRegistration': 'service-workers',
-  'Cache': 'cache-api',
-  'CacheStorage': 'cache-api',
-  'PushManager': 'push-api',
-  'PushSubscription': 'push-api',
-  'NotificationEvent': 'notification-api',
-  'BackgroundSync': 'background-sync',
-  'PaymentRequest': 'payment-request',
-  'PaymentResponse': 'payment-request',
-
-  // WebAssembly
-  'WebAssembly': 'webassembly',
-  'WebAssembly.instantiate': 'webassembly',
-  'WebAssembly.compile': 'webassembly',
-  'WebAssembly.Module': 'webassembly',
-  'WebAssembly.Instance': 'webassembly',
-  'WebAssembly.Memory': 'webassembly',
-  'WebAssembly.Table': 'webassembly',
-
-  // JavaScript Syntax (ECMAScript features)
-  'optional-chaining': 'optional-chaining',
-  'nullish-coalescing': 'nullish-coalescing',
-  'private-fields': 'private-fields',
-  'private-methods': 'private-methods',
-  'static-class-fields': 'static-class-fields',
-  'top-level-await': 'top-level-await',
-  'import-assertions': 'import-assertions',
-  'import-meta': 'import-meta',
-  'dynamic-import': 'dynamic-import',
-  'async-iteration': 'async-iteration',
-  'for-await-of': 'async-iteration',
-  'destructuring': 'destructuring',
-  'rest-spread': 'rest-spread',
-  'template-literals': 'template-literals',
-  'arrow-functions': 'arrow-functions',
-  'const-let': 'const-let',
-  'default-parameters': 'default-parameters',
-
-  // HTML Elements and Attributes
-  'dialog': 'dialog',
-  'details': 'details-summary',
-  'summary': 'details-summary',
-  'loading="lazy"': 'loading-lazy',
-  'decoding="async"': 'image-decoding',
-  'input[type="date"]': 'input-date',
-  'input[type="time"]': 'input-time',
-  'input[type="datetime-local"]': 'input-datetime-local',
-  'input[type="month"]': 'input-month',
-  'input[type="week"]': 'input-week',
-  'input[type="color"]': 'input-color',
-  'input[type="range"]': 'input-range',
-  'input[type="search"]': 'input-search',
-  'input[type="tel"]': 'input-tel',
-  'input[type="url"]': 'input-url',
-  'input[type="email"]': 'input-email',
-  'input[type="number"]': 'input-number',
-  'datalist': 'datalist',
-  'output': 'output',
-  'progress': 'progress',
-  'meter': 'meter',
-  'picture': 'picture',
-  'source': 'picture',
-  'track': 'track',
-  'slot': 'slot',
-  'template': 'template',
-
-  // DOM APIs
-  'DOMMatrix': 'geometry-interfaces',
-  'DOMPoint': 'geometry-interfaces',
-  'DOMRect': 'geometry-interfaces',
-  'DOMQuad': 'geometry-interfaces',
-  'AbortController': 'abort-controller',
-  'AbortSignal': 'abort-controller',
-  'FormData': 'form-data',
-  'URLSearchParams': 'url-search-params',
-  'URL': 'url',
-  'URLPattern': 'url-pattern',
-  'Blob': 'blob',
-  'File': 'file',
-  'FileReader': 'file-reader',
-  'FileList': 'file-list',
-  'DataTransfer': 'data-transfer',
-  'ClipboardAPI': 'clipboard-api',
-  'navigator.clipboard': 'clipboard-api',
-  'Permissions': 'permissions-api',
-  'navigator.permissions': 'permissions-api',
-  'Geolocation': 'geolocation',
-  'navigator.geolocation': 'geolocation',
-  'DeviceOrientationEvent': 'device-orientation',
-  'DeviceMotionEvent': 'device-motion',
-  'Vibration': 'vibration',
-  'navigator.vibrate': 'vibration',
-  'Battery': 'battery-status',
-  'navigator.getBattery': 'battery-status',
-  'NetworkInformation': 'network-information',
-  'navigator.connection': 'network-information',
-  'MediaDevices': 'media-devices',
-  'navigator.mediaDevices': 'media-devices',
-  'MediaStream': 'media-stream',
-  'MediaRecorder': 'media-recorder',
-  'SpeechSynthesis': 'speech-synthesis',
-  'SpeechRecognition': 'speech-recognition',
-  'Gamepad': 'gamepad',
-  'navigator.getGamepads': 'gamepad',
-  'PointerEvent': 'pointer-events',
-  'TouchEvent': 'touch-events',
-  'WheelEvent': 'wheel-events',
-  'KeyboardEvent': 'keyboard-events',
-  'MouseEvent': 'mouse-events',
-  'FocusEvent': 'focus-events',
-  'InputEvent': 'input-events',
-  'CompositionEvent': 'composition-events',
-  'CustomEvent': 'custom-events',
-  'EventTarget': 'event-target',
-  'addEventListener': 'event-listeners',
-  'removeEventListener': 'event-listeners',
-  'dispatchEvent': 'event-dispatch',
-  'requestAnimationFrame': 'request-animation-frame',
-  'cancelAnimationFrame': 'request-animation-frame',
-  'requestIdleCallback': 'request-idle-callback',
-  'cancelIdleCallback': 'request-idle-callback',
-  'setTimeout': 'timers',
-  'setInterval': 'timers',
-  'clearTimeout': 'timers',
-  'clearInterval': 'timers',
-  'queueMicrotask': 'queue-microtask',
-  'fetch': 'fetch',
-  'Request': 'fetch',
-  'Response': 'fetch',
-  'Headers': 'fetch',
-  'XMLHttpRequest': 'xhr',
-  'EventSource': 'server-sent-events',
-  'WebSocket': 'websockets',
-  'History': 'history-api',
-  'history.pushState': 'history-api',
-  'history.replaceState': 'history-api',
-  'Location': 'location',
-  'Navigator': 'navigator',
-  'Screen': 'screen',
-  'Window': 'window',
-  'Document': 'document',
-  'Element': 'element',
-  'Node': 'node',
-  'DocumentFragment': 'document-fragment',
-  'ShadowRoot': 'shadow-dom',
-  'customElements': 'custom-elements',
-  'HTMLElement': 'html-element',
-  'SVGElement': 'svg-element'
-};
+import { FeatureIndex } from './feature-index.js';
 
 export class BaselineChecker {
   private webFeatures: any = null;
@@ -310,25 +64,13 @@ export class BaselineChecker {
   /**
    * Map detected feature to web-features ID
    */
-  private mapFeatureToId(feature: string): string | null {
-    // Direct mapping
-    if (FEATURE_ID_MAP[feature]) {
-      return FEATURE_ID_MAP[feature];
-    }
-
-    // Try to find partial matches for complex features
-    for (const [key, value] of Object.entries(FEATURE_ID_MAP)) {
-      if (feature.includes(key) || key.includes(feature)) {
-        return value;
-      }
-    }
-
-    // Check if the feature exists directly in web-features
-    if (this.webFeatures?.[feature] || this.webFeatures?.features?.[feature]) {
-      return feature;
+  private async mapFeatureToId(feature: DetectedFeature): Promise<string | null> {
+    if (feature.featureId) {
+      return feature.featureId;
     }
 
-    return null;
+    const index = await FeatureIndex.load();
+    return index.lookup(feature.feature, feature.type);
   }
 
   /**
@@ -362,8 +104,9 @@ export class BaselineChecker {
    * Compare two version strings
    */
   private compareVersions(version1: string, version2: string): number {
-    const v1Parts = version1.split('.').map(Number);
-    const v2Parts = version2.split('.').map(Number);
+    // web-features marks versions known only as an upper bound with '≤', e.g. '≤15'
+    const v1Parts = version1.replace(/^≤/, '').split('.').map(Number);
+    const v2Parts = version2.replace(/^≤/, '').split('.').map(Number);
 
     const maxLength = Math.max(v1Parts.length, v2Parts.length);
 
@@ -444,11 +187,16 @@ export class BaselineChecker {
   }
 
   /**
-   * Check compatibility of a detected feature against browser targets
+   * Check compatibility of a detected feature against browser targets,
+   * treating features provided by one of `polyfills` as supported
    */
-  async checkCompatibility(detectedFeature: DetectedFeature, targets: BrowserTarget[]): Promise<CompatibilityResult> {
+  async checkCompatibility(
+    detectedFeature: DetectedFeature,
+    targets: BrowserTarget[],
+    polyfills: Polyfill[] = []
+  ): Promise<CompatibilityResult> {
     await this.ensureInitialized();
-    const featureId = this.mapFeatureToId(detectedFeature.feature);
+    const featureId = await this.mapFeatureToId(detectedFeature);
 
     if (!featureId) {
       // Feature not found in mapping, assume it's compatible
@@ -492,6 +240,27 @@ export class BaselineChecker {
       }
     }
 
+    if (detectedFeature.guarded && violations.length > 0) {
+      // Feature is behind @supports or a feature-detection check, so unsupported
+      // browsers take the fallback path
+      return {
+        violations: [],
+        featureData,
+        guarded: violations
+      };
+    }
+
+    const polyfill = violations.length > 0
+      ? polyfills.find(candidate => candidate.featureIds.includes(featureId))
+      : undefined;
+    if (polyfill) {
+      return {
+        violations: [],
+        featureData,
+        polyfilled: violations.map(violation => ({ violation, polyfill }))
+      };
+    }
+
     return {
       violations,
       featureData
@@ -556,11 +325,4 @@ export class BaselineChecker {
       memoryEstimate
     };
   }
-
-  /**
-   * Get feature mapping for debugging/testing
-   */
-  getFeatureMapping(): Record<string, string> {
-    return { ...FEATURE_ID_MAP };
-  }
 }
@@ -0,0 +1,116 @@
+import browserslist from 'browserslist';
+import { basename } from 'path';
+import type { BrowserTarget } from '../types/index.js';
+
+/**
+ * Browserslist queries resolved to BaseGuard browser targets
+ */
+export interface BrowserslistResolution {
+  source: string;            // config file the queries came from, e.g. '.browserslistrc'
+  query: string;             // queries joined with ', '
+  targets: BrowserTarget[];
+  skipped: string[];         // browserslist browsers without Baseline support data
+}
+
+/**
+ * Resolve browserslist queries to per-browser minimum versions
+ *
+ * Uses the caniuse-lite data bundled with browserslist, so no network access is
+ * needed. Only browsers that web-features tracks are kept; mobile Chrome,
+ * Firefox and Safari map onto their desktop counterparts.
+ */
+export class BrowserslistTargets {
+  private static readonly BROWSER_MAP: Record<string, string> = {
+    chrome: 'chrome',
+    and_chr: 'chrome',
+    edge: 'edge',
+    firefox: 'firefox',
+    and_ff: 'firefox',
+    safari: 'safari',
+    ios_saf: 'safari'
+  };
+
+  /**
+   * Find the project's browserslist config (.browserslistrc, browserslist or package.json)
+   */
+  static findConfig(path: string = process.cwd()): { source: string; query: string } | null {
+    const configFile = browserslist.findConfigFile(path);
+    const queries = browserslist.loadConfig({ path });
+
+    if (!configFile || !queries || queries.length === 0) {
+      return null;
+    }
+
+    return {
+      source: basename(configFile),
+      query: queries.join(', ')
+    };
+  }
+
+  /**
+   * Resolve the project's browserslist config, or null if the project has none
+   */
+  static resolveProjectTargets(path: string = process.cwd()): BrowserslistResolution | null {
+    const config = this.findConfig(path);
+    if (!config) {
+      return null;
+    }
+
+    return {
+      source: config.source,
+      query: config.query,
+      ...this.resolve(config.query, path)
+    };
+  }
+
+  /**
+   * Resolve queries such as "> 0.5%, last 2 versions, not dead" to minimum versions
+   */
+  static resolve(
+    query: string | string[],
+    path: string = process.cwd()
+  ): { targets: BrowserTarget[]; skipped: string[] } {
+    const minimums = new Map<string, string>();
+    const skipped = new Set<string>();
+
+    for (const entry of browserslist(query, { path })) {
+      const [name = '', rawVersion = ''] = entry.split(' ');
+      const browser = this.BROWSER_MAP[name];
+      // Ranges like "18.5-18.7" start at their lowest version
+      const version = rawVersion.split('-')[0] ?? '';
+
+      if (!browser || !/^\d+(\.\d+)*$/.test(version)) {
+        skipped.add(name);
+        continue;
+      }
+
+      const current = minimums.get(browser);
+      if (!current || this.compareVersions(version, current) < 0) {
+        minimums.set(browser, version);
+      }
+    }
+
+    const targets = Array.from(minimums.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([browser, minVersion]) => ({ browser, minVersion }));
+
+    return { targets, skipped: Array.from(skipped).sort() };
+  }
+
+  /**
+   * Compare two dotted version strings
+   */
+  private static compareVersions(a: string, b: string): number {
+    const aParts = a.split('.').map(Number);
+    const bParts = b.split('.').map(Number);
+
+    for (let i = 0; i < Math.max(aParts.length, bParts.length); i++) {
+      const difference = (aParts[i] || 0) - (bParts[i] || 0);
+      if (difference !== 0) {
+        return difference;
+      }
+    }
+
+    return 0;
+  }
+}
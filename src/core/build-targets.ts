@@ -0,0 +1,470 @@
+import { existsSync, readFileSync } from 'fs';
+import { createRequire } from 'module';
+import { dirname, extname, join, resolve } from 'path';
+import { BrowserslistTargets } from './browserslist-targets.js';
+import type { BrowserTarget, BuildTarget, DetectedFeature } from '../types/index.js';
+
+/**
+ * When a syntax feature became standard, and the browsers that first shipped it
+ */
+interface SyntaxSupport {
+  esVersion: number;
+  browsers: Record<string, string>;
+}
+
+/**
+ * The project's compile targets, read from tsconfig, Babel, SWC, Vite and esbuild settings
+ *
+ * Syntax features such as optional chaining are rewritten by these tools when
+ * the target predates them, so they never reach browsers. Runtime APIs are not
+ * affected by compilation and are always checked. Only JSON configs are read;
+ * `babel.config.js` and `vite.config.ts` are scanned for literal targets, never run.
+ */
+export class BuildTargets {
+  // Syntax the parsers report, with the ES edition and browser versions from which it ships untransformed
+  private static readonly SYNTAX_FEATURES: Record<string, SyntaxSupport | null> = {
+    'optional-chaining': { esVersion: 2020, browsers: { chrome: '80', edge: '80', firefox: '74', safari: '13.1' } },
+    'nullish-coalescing': { esVersion: 2020, browsers: { chrome: '80', edge: '80', firefox: '72', safari: '13.1' } },
+    'numeric-separators': { esVersion: 2021, browsers: { chrome: '75', edge: '79', firefox: '70', safari: '13' } },
+    'private-fields': { esVersion: 2022, browsers: { chrome: '74', edge: '79', firefox: '90', safari: '14.1' } },
+    'private-methods': { esVersion: 2022, browsers: { chrome: '84', edge: '84', firefox: '90', safari: '15' } },
+    // No compiler can lower these, so they always ship as written
+    'top-level-await': null,
+    'dynamic-import': null,
+    'bigint': null
+  };
+
+  private static readonly SCRIPT_EXTENSIONS = [
+    '.js', '.jsx', '.mjs', '.cjs', '.ts', '.tsx', '.mts', '.cts', '.vue', '.svelte', '.astro', '.mdx'
+  ];
+
+  private static readonly TYPESCRIPT_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts'];
+
+  // Vite's named build.target values; 'modules' was the default before Vite 7
+  private static readonly VITE_TARGETS: Record<string, string> = {
+    'modules': 'es2020, edge88, firefox78, chrome87, safari14',
+    'baseline-widely-available': 'chrome107, edge107, firefox104, safari16'
+  };
+
+  private static readonly ESBUILD_BROWSERS: Record<string, string> = {
+    chrome: 'chrome',
+    edge: 'edge',
+    firefox: 'firefox',
+    safari: 'safari',
+    ios: 'safari'
+  };
+
+  private static readonly BABEL_CONFIGS = ['babel.config.json', '.babelrc', '.babelrc.json'];
+  private static readonly BABEL_SCRIPT_CONFIGS = ['babel.config.js', 'babel.config.cjs', 'babel.config.mjs', '.babelrc.js', '.babelrc.cjs'];
+  private static readonly VITE_CONFIGS = ['vite.config.ts', 'vite.config.js', 'vite.config.mts', 'vite.config.mjs', 'vite.config.cjs'];
+
+  /**
+   * Find every compile step configured in the project
+   */
+  static discover(path: string = process.cwd()): BuildTarget[] {
+    const targets: Array<BuildTarget | null> = [];
+    const discoverers = [
+      () => this.fromTSConfig(path),
+      () => this.fromBabel(path),
+      () => this.fromSWC(path),
+      () => this.fromVite(path),
+      () => this.fromESBuild(path)
+    ];
+
+    for (const discoverer of discoverers) {
+      try {
+        targets.push(discoverer());
+      } catch (error) {
+        console.warn(`Warning: Could not read build settings: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    return targets.filter((target): target is BuildTarget => target !== null);
+  }
+
+  /**
+   * Whether a feature is syntax a compiler could rewrite, as opposed to a runtime API
+   */
+  static isSyntaxFeature(feature: DetectedFeature): boolean {
+    return feature.type === 'js' && feature.feature in this.SYNTAX_FEATURES;
+  }
+
+  /**
+   * The build step that rewrites a syntax feature for older targets, or null if the
+   * feature ships to browsers as written (including every runtime API)
+   */
+  static findTranspiler(feature: DetectedFeature, buildTargets: BuildTarget[]): BuildTarget | null {
+    if (!this.isSyntaxFeature(feature)) {
+      return null;
+    }
+
+    const support = this.SYNTAX_FEATURES[feature.feature];
+    if (!support) {
+      return null;
+    }
+
+    const extension = extname(feature.file ?? '').toLowerCase();
+    return buildTargets.find(target =>
+      target.extensions.includes(extension) && this.lowers(target, support)
+    ) ?? null;
+  }
+
+  /**
+   * Whether output for this target has to rewrite the syntax
+   */
+  private static lowers(target: BuildTarget, support: SyntaxSupport): boolean {
+    if (target.esVersion !== undefined && target.esVersion < support.esVersion) {
+      return true;
+    }
+
+    return (target.browsers ?? []).some(({ browser, minVersion }) => {
+      const firstVersion = support.browsers[browser];
+      return firstVersion !== undefined && /^\d/.test(minVersion) && this.compareVersions(minVersion, firstVersion) < 0;
+    });
+  }
+
+  /**
+   * tsconfig.json `compilerOptions.target`, following `extends`; ignored when tsc doesn't emit
+   */
+  private static fromTSConfig(path: string): BuildTarget | null {
+    const file = join(path, 'tsconfig.json');
+    if (!existsSync(file)) {
+      return null;
+    }
+
+    const options = this.readTSCompilerOptions(file, 0);
+    if (options.noEmit === true || options.emitDeclarationOnly === true) {
+      return null;
+    }
+
+    // TypeScript 5 defaults to ES5
+    const target = typeof options.target === 'string' ? options.target : 'es5';
+    return {
+      tool: 'typescript',
+      source: 'tsconfig.json',
+      target: target.toLowerCase(),
+      esVersion: this.parseESVersion(target) ?? undefined,
+      extensions: options.allowJs === true ? this.SCRIPT_EXTENSIONS : this.TYPESCRIPT_EXTENSIONS
+    };
+  }
+
+  private static readTSCompilerOptions(file: string, depth: number): Record<string, unknown> {
+    const config = this.readJSON(file);
+    const parents = Array.isArray(config?.extends) ? config.extends : config?.extends ? [config.extends] : [];
+
+    let options: Record<string, unknown> = {};
+    if (depth < 5) {
+      for (const parent of parents) {
+        const parentFile = typeof parent === 'string' ? this.resolveExtends(parent, dirname(file)) : null;
+        if (parentFile) {
+          options = { ...options, ...this.readTSCompilerOptions(parentFile, depth + 1) };
+        }
+      }
+    }
+
+    return { ...options, ...(config?.compilerOptions ?? {}) };
+  }
+
+  private static resolveExtends(specifier: string, directory: string): string | null {
+    if (specifier.startsWith('.') || specifier.startsWith('/')) {
+      const file = resolve(directory, specifier);
+      return [file, `${file}.json`].find(candidate => existsSync(candidate) && extname(candidate) === '.json') ?? null;
+    }
+
+    const require = createRequire(join(directory, 'package.json'));
+    for (const candidate of [specifier, `${specifier}.json`, `${specifier}/tsconfig.json`]) {
+      try {
+        return require.resolve(candidate);
+      } catch {
+        // Try the next form
+      }
+    }
+    return null;
+  }
+
+  /**
+   * `@babel/preset-env` targets
+   */
+  private static fromBabel(path: string): BuildTarget | null {
+    const presetEnv = this.findPresetEnv(path);
+    return presetEnv ? this.babelTarget('babel', presetEnv.source, presetEnv.options.targets, path) : null;
+  }
+
+  /**
+   * `@babel/preset-env` options from Babel's JSON configs or package.json, with the config's
+   * top-level `targets` applied
+   *
+   * Babel JS configs are never executed; literal string `targets` and `useBuiltIns` values are
+   * picked up, anything else falls back to what preset-env does without them.
+   */
+  static findPresetEnv(path: string = process.cwd()): { source: string; options: Record<string, unknown> } | null {
+    let source = this.BABEL_CONFIGS.find(name => existsSync(join(path, name)));
+    let config: any = source ? this.readJSON(join(path, source)) : null;
+
+    if (!source && this.readPackageJson(path)?.babel) {
+      source = 'package.json';
+      config = this.readPackageJson(path).babel;
+    }
+
+    if (!source) {
+      return this.findScriptPresetEnv(path);
+    }
+
+    const presetEnv = (Array.isArray(config?.presets) ? config.presets : []).find((preset: unknown) =>
+      this.isPresetEnv(Array.isArray(preset) ? preset[0] : preset)
+    );
+    if (!presetEnv) {
+      return null;
+    }
+
+    const options = Array.isArray(presetEnv) && presetEnv[1] && typeof presetEnv[1] === 'object' ? presetEnv[1] : {};
+    return { source, options: { ...options, targets: options.targets ?? config?.targets } };
+  }
+
+  private static findScriptPresetEnv(path: string): { source: string; options: Record<string, unknown> } | null {
+    const source = this.BABEL_SCRIPT_CONFIGS.find(name => existsSync(join(path, name)));
+    if (!source) {
+      return null;
+    }
+
+    const content = readFileSync(join(path, source), 'utf-8');
+    if (!/preset-env|['"]@babel\/env['"]/.test(content)) {
+      return null;
+    }
+
+    return {
+      source,
+      options: {
+        targets: content.match(/\btargets\s*:\s*(['"`])([^'"`]+)\1/)?.[2],
+        useBuiltIns: content.match(/\buseBuiltIns\s*:\s*(['"`])(\w+)\1/)?.[2]
+      }
+    };
+  }
+
+  private static isPresetEnv(name: unknown): boolean {
+    return typeof name === 'string' && /^(@babel\/(preset-)?env|babel-preset-env|env)$/.test(name);
+  }
+
+  /**
+   * Resolve preset-env (or SWC env) targets: a browserslist query, `{ esmodules }`, `{ browsers }`
+   * or a browser-to-version map; without targets the project's browserslist config applies,
+   * and without that everything is compiled to ES5
+   */
+  private static babelTarget(tool: BuildTarget['tool'], source: string, targets: unknown, path: string): BuildTarget {
+    const base = { tool, source, extensions: this.SCRIPT_EXTENSIONS };
+
+    if (typeof targets === 'string' || Array.isArray(targets)) {
+      const query = Array.isArray(targets) ? targets.join(', ') : targets;
+      return { ...base, target: query, browsers: BrowserslistTargets.resolve(query, path).targets };
+    }
+
+    if (targets && typeof targets === 'object') {
+      const { esmodules, browsers, ...versions } = targets as Record<string, unknown>;
+      if (esmodules === true) {
+        return { ...base, target: 'esmodules', browsers: BrowserslistTargets.resolve('supports es6-module', path).targets };
+      }
+      if (typeof browsers === 'string' || Array.isArray(browsers)) {
+        return this.babelTarget(tool, source, browsers, path);
+      }
+
+      const browserTargets = Object.entries(versions)
+        .map(([name, version]) => ({ browser: this.ESBUILD_BROWSERS[name] ?? '', minVersion: String(version) }))
+        .filter(target => target.browser !== '');
+      return {
+        ...base,
+        target: browserTargets.map(({ browser, minVersion }) => `${browser} ${minVersion}`).join(', '),
+        browsers: browserTargets
+      };
+    }
+
+    const project = BrowserslistTargets.resolveProjectTargets(path);
+    if (project) {
+      return { ...base, target: `${project.query} (${project.source})`, browsers: project.targets };
+    }
+
+    return { ...base, target: 'es5 (no targets)', esVersion: 5 };
+  }
+
+  /**
+   * `.swcrc` `env.targets`, or `jsc.target` (SWC defaults to ES5)
+   */
+  private static fromSWC(path: string): BuildTarget | null {
+    const file = join(path, '.swcrc');
+    if (!existsSync(file)) {
+      return null;
+    }
+
+    const config = this.readJSON(file);
+    if (config?.env) {
+      return this.babelTarget('swc', '.swcrc', config.env.targets, path);
+    }
+
+    const target = typeof config?.jsc?.target === 'string' ? config.jsc.target : 'es5';
+    return {
+      tool: 'swc',
+      source: '.swcrc',
+      target,
+      esVersion: this.parseESVersion(target) ?? undefined,
+      extensions: this.SCRIPT_EXTENSIONS
+    };
+  }
+
+  /**
+   * Vite `build.target`, read literally from the config, or the installed Vite's default
+   */
+  private static fromVite(path: string): BuildTarget | null {
+    const source = this.VITE_CONFIGS.find(name => existsSync(join(path, name)));
+    if (!source) {
+      return null;
+    }
+
+    const build = this.findObjectLiteral(readFileSync(join(path, source), 'utf-8'), 'build');
+    const target = build?.match(/\btarget\s*:\s*(\[[^\]]*\]|(['"`])[^'"`]*\2)/)?.[1];
+    const list = target ? (target.match(/[\w.-]+/g) ?? []).join(', ') : this.getViteDefaultTarget(path);
+
+    return { tool: 'vite', source, ...this.parseESBuildTarget(this.VITE_TARGETS[list] ?? list) };
+  }
+
+  private static getViteDefaultTarget(path: string): string {
+    try {
+      const { version } = createRequire(join(path, 'package.json'))('vite/package.json') as { version: string };
+      return Number(version.split('.')[0]) < 7 ? 'modules' : 'baseline-widely-available';
+    } catch {
+      return 'baseline-widely-available';
+    }
+  }
+
+  /**
+   * `esbuild --target=...` in package.json scripts
+   */
+  private static fromESBuild(path: string): BuildTarget | null {
+    const scripts = this.readPackageJson(path)?.scripts ?? {};
+
+    for (const script of Object.values(scripts)) {
+      const target = typeof script === 'string'
+        ? script.match(/\besbuild\b[^&|;]*?--target[= ]([\w.,-]+)/)?.[1]
+        : undefined;
+      if (target) {
+        return { tool: 'esbuild', source: 'package.json', ...this.parseESBuildTarget(target) };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * esbuild target lists such as "es2020,chrome87,safari14"
+   */
+  private static parseESBuildTarget(list: string): Omit<BuildTarget, 'tool' | 'source'> {
+    const entries = list.split(/[\s,]+/).filter(Boolean);
+    const esVersions = entries.map(entry => this.parseESVersion(entry)).filter((version): version is number => version !== null);
+    const browsers: BrowserTarget[] = [];
+
+    for (const entry of entries) {
+      const [, name = '', version = ''] = entry.match(/^([a-z]+)(\d+(?:\.\d+)*)$/i) ?? [];
+      const browser = this.ESBUILD_BROWSERS[name.toLowerCase()];
+      if (browser && !browsers.some(target => target.browser === browser)) {
+        browsers.push({ browser, minVersion: version });
+      }
+    }
+
+    return {
+      target: entries.join(', '),
+      ...(esVersions.length > 0 ? { esVersion: Math.min(...esVersions) } : {}),
+      ...(browsers.length > 0 ? { browsers } : {}),
+      extensions: this.SCRIPT_EXTENSIONS
+    };
+  }
+
+  /**
+   * ES edition year for targets like 'ES2019', 'es6' or 'ES5'; null for 'esnext' and unknown values
+   */
+  private static parseESVersion(target: string): number | null {
+    const edition = Number(target.match(/^es(\d+)$/i)?.[1]);
+    if (!edition) {
+      return null;
+    }
+    // ES6 is ES2015; later numbered editions follow the same offset
+    return edition >= 6 && edition < 2015 ? edition + 2009 : edition;
+  }
+
+  /**
+   * The text of `key: { ... }` in a config file, with nested objects removed
+   */
+  private static findObjectLiteral(content: string, key: string): string | null {
+    const match = new RegExp(`\\b${key}\\s*:\\s*\\{`).exec(content);
+    if (!match) {
+      return null;
+    }
+
+    let depth = 0;
+    let body = '';
+    for (let i = match.index + match[0].length - 1; i < content.length; i++) {
+      const char = content[i];
+      depth += char === '{' ? 1 : char === '}' ? -1 : 0;
+      if (depth === 0) {
+        break;
+      }
+      if (depth === 1 && char !== '{') {
+        body += char;
+      }
+    }
+    return body;
+  }
+
+  private static readPackageJson(path: string): any {
+    const file = join(path, 'package.json');
+    return existsSync(file) ? this.readJSON(file) : null;
+  }
+
+  /**
+   * Read JSON that may contain comments and trailing commas, as tsconfig and .babelrc allow
+   */
+  private static readJSON(file: string): any {
+    const content = readFileSync(file, 'utf-8');
+    let json = '';
+    let inString = false;
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+      if (inString) {
+        json += char;
+        if (char === '\\') {
+          json += content[++i] ?? '';
+        } else if (char === '"') {
+          inString = false;
+        }
+      } else if (char === '"') {
+        inString = true;
+        json += char;
+      } else if (char === '/' && content[i + 1] === '/') {
+        while (i < content.length && content[i] !== '\n') i++;
+        json += '\n';
+      } else if (char === '/' && content[i + 1] === '*') {
+        const end = content.indexOf('*/', i + 2);
+        i = end === -1 ? content.length : end + 1;
+      } else {
+        json += char;
+      }
+    }
+
+    return JSON.parse(json.replace(/,(\s*[}\]])/g, '$1'));
+  }
+
+  /**
+   * Compare two dotted version strings
+   */
+  private static compareVersions(a: string, b: string): number {
+    const aParts = a.split('.').map(Number);
+    const bParts = b.split('.').map(Number);
+
+    for (let i = 0; i < Math.max(aParts.length, bParts.length); i++) {
+      const difference = (aParts[i] || 0) - (bParts[i] || 0);
+      if (difference !== 0) {
+        return difference;
+      }
+    }
+
+    return 0;
+  }
+}
@@ -40,6 +40,10 @@ export class LRUCache<K, V> {
     return this.cache.has(key);
   }
 
+  delete(key: K): boolean {
+    return this.cache.delete(key);
+  }
+
   clear(): void {
     this.cache.clear();
   }
@@ -101,9 +105,9 @@ export class CacheManager {
         return null;
       }
 
-      // Check if file has changed
+      // Check if file has changed; drop the stale features so later lookups miss too
       if (this.hasFileChanged(cached.metadata, currentMetadata)) {
-        this.parseCache.set(filePath, { ...cached, metadata: currentMetadata });
+        this.parseCache.delete(filePath);
         return null;
       }
 
@@ -2,7 +2,8 @@ import { readFile, writeFile, access } from 'fs/promises';
 import { constants } from 'fs';
 import { GitignoreManager } from './gitignore-manager.js';
 import { UIComponents } from '../ui/components.js';
-import type { Configuration, BrowserTarget } from '../types/index.js';
+import { BrowserslistTargets } from './browserslist-targets.js';
+import type { Configuration, BrowserTarget, PolyfillConfig, TargetOverride } from '../types/index.js';
 
 // Preset browser target configurations
 export const BROWSER_TARGET_PRESETS = {
@@ -44,7 +45,7 @@ export class ConfigurationManager {
       const config = JSON.parse(content) as Configuration;
       
       // Validate and migrate configuration if needed
-      return this.validateAndMigrate(config);
+      return this.resolveTargetSource(this.validateAndMigrate(config));
     } catch (error) {
       // File doesn't exist or is invalid, return default
       return this.createDefault();
@@ -66,6 +67,26 @@ export class ConfigurationManager {
     }
   }
 
+  /**
+   * Replace stored targets with the project's current browserslist targets
+   */
+  private static resolveTargetSource(config: Configuration): Configuration {
+    if (config.targetSource !== 'browserslist') {
+      return config;
+    }
+
+    try {
+      const resolution = BrowserslistTargets.resolveProjectTargets();
+      if (resolution && resolution.targets.length > 0) {
+        config.targets = resolution.targets;
+      }
+    } catch {
+      // Keep the targets recorded at import time if browserslist can't resolve
+    }
+
+    return config;
+  }
+
   /**
    * Create default configuration
    */
@@ -119,6 +140,11 @@ export class ConfigurationManager {
     const validatedConfig: Configuration = {
       version: config.version || defaultConfig.version,
       targets: this.validateBrowserTargets(config.targets || defaultConfig.targets),
+      ...(config.targetSource === 'browserslist' ? { targetSource: 'browserslist' as const } : {}),
+      ...(config.reportTranspiledSyntax === true ? { reportTranspiledSyntax: true } : {}),
+      ...(config.typeAware === true ? { typeAware: true } : {}),
+      ...(config.polyfills && typeof config.polyfills === 'object' ? { polyfills: this.validatePolyfills(config.polyfills) } : {}),
+      ...(Array.isArray(config.overrides) ? { overrides: this.validateOverrides(config.overrides) } : {}),
       apiKeys: {
         jules: config.apiKeys?.jules || null,
         gemini: config.apiKeys?.gemini || null
@@ -132,7 +158,8 @@ export class ConfigurationManager {
         trigger: this.validateTrigger(config.automation?.trigger) || defaultConfig.automation.trigger,
         autoAnalyze: config.automation?.autoAnalyze ?? defaultConfig.automation.autoAnalyze,
         autoFix: config.automation?.autoFix ?? defaultConfig.automation.autoFix,
-        blockCommit: config.automation?.blockCommit ?? defaultConfig.automation.blockCommit
+        blockCommit: config.automation?.blockCommit ?? defaultConfig.automation.blockCommit,
+        ...(config.automation?.changedLinesOnly === true ? { changedLinesOnly: true } : {})
       }
     };
 
@@ -212,6 +239,44 @@ export class ConfigurationManager {
     return null;
   }
 
+  /**
+   * Validate polyfill settings, dropping malformed entries
+   */
+  private static validatePolyfills(polyfills: any): PolyfillConfig {
+    return {
+      ...(Array.isArray(polyfills.include)
+        ? { include: polyfills.include.filter((entry: unknown): entry is string => typeof entry === 'string') }
+        : {}),
+      ...(polyfills.autoDetect === false ? { autoDetect: false } : {})
+    };
+  }
+
+  /**
+   * Validate per-path overrides, dropping entries without file globs
+   */
+  private static validateOverrides(overrides: any[]): TargetOverride[] {
+    const validOverrides: TargetOverride[] = [];
+
+    for (const override of overrides) {
+      const files = typeof override?.files === 'string' ? [override.files] : override?.files;
+      if (!Array.isArray(files) || !files.some((pattern: unknown) => typeof pattern === 'string')) {
+        continue;
+      }
+
+      validOverrides.push({
+        files: files.filter((pattern: unknown): pattern is string => typeof pattern === 'string'),
+        ...(Array.isArray(override.targets) && override.targets.length > 0
+          ? { targets: this.validateBrowserTargets(override.targets) }
+          : {}),
+        ...(Array.isArray(override.ignoreFeatures)
+          ? { ignoreFeatures: override.ignoreFeatures.filter((entry: unknown): entry is string => typeof entry === 'string') }
+          : {})
+      });
+    }
+
+    return validOverrides;
+  }
+
   /**
    * Parse browser target string (e.g., "chrome 100", "safari baseline")
    */
@@ -312,6 +377,7 @@ export class ConfigurationManager {
     
     // Add new target
     config.targets.push(target);
+    delete config.targetSource;
     
     await this.save(config);
   }
@@ -327,6 +393,7 @@ export class ConfigurationManager {
     if (config.targets.length === 0) {
       config.targets = BROWSER_TARGET_PRESETS['baseline-widely'];
     }
+    delete config.targetSource;
     
     await this.save(config);
   }
@@ -337,6 +404,7 @@ export class ConfigurationManager {
   static async updateWithPreset(preset: PresetName): Promise<void> {
     const config = await this.load();
     config.targets = [...BROWSER_TARGET_PRESETS[preset]];
+    delete config.targetSource;
     await this.save(config);
   }
 
@@ -346,6 +414,17 @@ export class ConfigurationManager {
   static async updateWithCustomTargets(targets: BrowserTarget[]): Promise<void> {
     const config = await this.load();
     config.targets = this.validateBrowserTargets(targets);
+    delete config.targetSource;
+    await this.save(config);
+  }
+
+  /**
+   * Use the project's browserslist config as the target source
+   */
+  static async updateWithBrowserslist(targets: BrowserTarget[]): Promise<void> {
+    const config = await this.load();
+    config.targets = this.validateBrowserTargets(targets);
+    config.targetSource = 'browserslist';
     await this.save(config);
   }
 
@@ -443,6 +522,56 @@ export class ConfigurationManager {
       });
     }
 
+    if (config.targetSource !== undefined && config.targetSource !== 'manual' && config.targetSource !== 'browserslist') {
+      errors.push('Target source must be "manual" or "browserslist"');
+    }
+
+    if (config.reportTranspiledSyntax !== undefined && typeof config.reportTranspiledSyntax !== 'boolean') {
+      errors.push('reportTranspiledSyntax must be a boolean');
+    }
+
+    if (config.typeAware !== undefined && typeof config.typeAware !== 'boolean') {
+      errors.push('typeAware must be a boolean');
+    }
+
+    if (config.polyfills !== undefined) {
+      if (!config.polyfills || typeof config.polyfills !== 'object') {
+        errors.push('Polyfills configuration must be an object');
+      } else {
+        if (config.polyfills.include !== undefined &&
+            (!Array.isArray(config.polyfills.include) || config.polyfills.include.some((entry: unknown) => typeof entry !== 'string'))) {
+          errors.push('polyfills.include must be an array of strings');
+        }
+        if (config.polyfills.autoDetect !== undefined && typeof config.polyfills.autoDetect !== 'boolean') {
+          errors.push('polyfills.autoDetect must be a boolean');
+        }
+      }
+    }
+
+    if (config.overrides !== undefined) {
+      if (!Array.isArray(config.overrides)) {
+        errors.push('Overrides must be an array');
+      } else {
+        config.overrides.forEach((override: any, index: number) => {
+          if (!override || typeof override !== 'object') {
+            errors.push(`Override ${index} must be an object`);
+            return;
+          }
+          const files = typeof override.files === 'string' ? [override.files] : override.files;
+          if (!Array.isArray(files) || files.length === 0 || files.some((pattern: unknown) => typeof pattern !== 'string')) {
+            errors.push(`Override ${index} must have a files glob or array of globs`);
+          }
+          if (override.targets !== undefined && !Array.isArray(override.targets)) {
+            errors.push(`Override ${index} targets must be an array`);
+          }
+          if (override.ignoreFeatures !== undefined &&
+              (!Array.isArray(override.ignoreFeatures) || override.ignoreFeatures.some((entry: unknown) => typeof entry !== 'string'))) {
+            errors.push(`Override ${index} ignoreFeatures must be an array of strings`);
+          }
+        });
+      }
+    }
+
     // Validate API keys
     if (!config.apiKeys || typeof config.apiKeys !== 'object') {
       errors.push('API keys configuration must be an object');
@@ -487,6 +616,9 @@ export class ConfigurationManager {
       if (typeof automation.blockCommit !== 'boolean') {
         errors.push('Automation blockCommit must be a boolean');
       }
+      if (automation.changedLinesOnly !== undefined && typeof automation.changedLinesOnly !== 'boolean') {
+        errors.push('Automation changedLinesOnly must be a boolean');
+      }
     }
 
     return { valid: errors.length === 0, errors };
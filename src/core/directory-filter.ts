@@ -37,6 +37,8 @@ export class DirectoryFilter {
     '.tsx',
     '.vue',
     '.svelte',
+    '.astro',
+    '.mdx',
     '.css',
     '.scss',
     '.sass',
@@ -132,12 +134,13 @@ export class DirectoryFilter {
     const { cwd = process.cwd(), excludePatterns = [] } = options;
 
     try {
+      // A bare name only ignores that entry in glob, so also ignore everything below it at any depth
       const allFiles = await glob(patterns, {
         cwd,
-        ignore: [
-          ...Array.from(this.excludePatterns),
-          ...excludePatterns
-        ],
+        ignore: [...this.excludePatterns, ...excludePatterns].flatMap(pattern => [
+          `**/${pattern}`,
+          `**/${pattern}/**`
+        ]),
         absolute: true,
         nodir: true
       });
@@ -158,6 +161,16 @@ export class DirectoryFilter {
     return this.includeExtensions.has(extension);
   }
 
+  /**
+   * Whether findFilesWithGlob skips a path relative to the project root: a hidden
+   * segment (which glob doesn't match) or one the exclude patterns cover
+   */
+  isIgnoredPath(relativePath: string): boolean {
+    return relativePath
+      .split(/[\\/]/)
+      .some(segment => (segment.startsWith('.') && segment !== '.' && segment !== '..') || this.isExcludedDirectory(segment));
+  }
+
   /**
    * Check if a directory should be excluded
    */
@@ -0,0 +1,365 @@
+import { LazyLoader } from './lazy-loader.js';
+import type { DetectedFeature } from '../types/index.js';
+
+type FeatureType = DetectedFeature['type'];
+
+/**
+ * Index from detected feature names to web-features IDs
+ *
+ * Generated from the BCD keys each web-features feature lists in
+ * `compat_features`, so it covers everything web-features knows about and
+ * never points at an ID that does not exist. Names are kept per feature type
+ * because the same name means different things in CSS, JS and HTML (`filter`,
+ * `search`, `dialog`).
+ *
+ *   css.properties.container-type         -> container-type
+ *   css.properties.display.grid           -> display: grid
+ *   css.selectors.has                     -> :has(), :has
+ *   css.at-rules.container                -> @container
+ *   css.at-rules.media.prefers-color-scheme -> @media (prefers-color-scheme)
+ *   css.types.clamp                       -> clamp()
+ *   css.types.color.oklch                 -> oklch()
+ *   css.types.color.oklch.relative_syntax -> oklch(from)
+ *   css.types.length.viewport_percentage_units_dynamic -> dvh, dvw, ...
+ *   javascript.builtins.Array.at          -> Array.at, Array.prototype.at, at
+ *   api.ResizeObserver                    -> ResizeObserver
+ *   api.Navigator.clipboard               -> Navigator.clipboard, navigator.clipboard, clipboard
+ *   html.elements.img.loading             -> img[loading], loading
+ *   html.global_attributes.popover        -> popover
+ *
+ * Bare member and attribute names are aliases; an alias claimed by more than
+ * one feature is dropped rather than guessed. Parsers report attributes with
+ * their element, e.g. img[loading="lazy"], which resolves through the element's
+ * own key before the value, the bare attribute and global attributes.
+ */
+export class FeatureIndex {
+  // Interfaces with a global instance whose members are used through it, e.g. navigator.clipboard
+  private static readonly GLOBAL_INSTANCES: Record<string, string> = {
+    Window: 'window',
+    Navigator: 'navigator',
+    Document: 'document',
+    Screen: 'screen',
+    History: 'history',
+    Location: 'location',
+    Performance: 'performance',
+    Crypto: 'crypto',
+    CustomElementRegistry: 'customElements'
+  };
+
+  // BCD groups some length units under one key
+  private static readonly UNIT_GROUPS: Record<string, string[]> = {
+    viewport_percentage_units_dynamic: ['dvh', 'dvw', 'dvi', 'dvb', 'dvmin', 'dvmax'],
+    viewport_percentage_units_large: ['lvh', 'lvw', 'lvi', 'lvb', 'lvmin', 'lvmax'],
+    viewport_percentage_units_small: ['svh', 'svw', 'svi', 'svb', 'svmin', 'svmax'],
+    container_query_length_units: ['cqw', 'cqh', 'cqi', 'cqb', 'cqmin', 'cqmax']
+  };
+
+  private static readonly INSTANCE_NAMES = new Set(Object.values(FeatureIndex.GLOBAL_INSTANCES));
+
+  // Builtins whose methods are matched by name when a receiver's type is unknown, most likely first
+  private static readonly METHOD_OWNERS = ['Array', 'TypedArray', 'String'];
+
+  // Static members of those builtins, never called on an instance
+  private static readonly STATIC_MEMBERS = new Set(['from', 'fromAsync', 'of', 'isArray', 'fromCharCode', 'fromCodePoint', 'raw']);
+
+  private static shared: Promise<FeatureIndex> | null = null;
+
+  private readonly keys = new Map<string, string>();
+  private readonly aliases = new Map<string, string | null>();
+  private readonly featureIds: Set<string>;
+  private readonly compatKeys = new Map<string, string>();
+  private readonly builtinOwners = new Set<string>();
+  private readonly builtinMethods = new Map<string, string>();
+
+  constructor(features: Record<string, { compat_features?: string[] } | null | undefined>) {
+    this.featureIds = new Set(Object.keys(features));
+
+    for (const [featureId, feature] of Object.entries(features)) {
+      for (const compatKey of feature?.compat_features ?? []) {
+        this.compatKeys.set(compatKey, featureId);
+        this.indexCompatKey(compatKey, featureId);
+      }
+    }
+  }
+
+  /**
+   * The index for the installed web-features data, built once per process
+   */
+  static load(): Promise<FeatureIndex> {
+    if (!this.shared) {
+      this.shared = LazyLoader.getWebFeatures().then(data => new FeatureIndex(data?.features ?? {}));
+    }
+    return this.shared;
+  }
+
+  /**
+   * web-features ID for a detected feature, or null if web-features does not cover it
+   */
+  lookup(name: string, type: FeatureType): string | null {
+    // Custom properties are indexed under BCD's name for them
+    const candidates = [type === 'css' && name.startsWith('--') ? 'custom-property' : name];
+
+    // Member expressions: owner.member, then the member alone unless the owner is a
+    // known global (history.replaceState is not Animation.replaceState), then the object
+    if (type === 'js' && name.includes('.')) {
+      const parts = name.split('.');
+      const owner = parts[parts.length - 2] ?? '';
+      candidates.push(parts.slice(-2).join('.'));
+      if (!FeatureIndex.INSTANCE_NAMES.has(owner) && !/^[A-Z]/.test(owner)) {
+        candidates.push(parts[parts.length - 1] ?? '');
+      }
+      candidates.push(parts[0] ?? '');
+    }
+
+    // img[loading="lazy"] -> img[loading], loading="lazy", loading
+    const attribute = type === 'html' ? name.match(/^([a-z][\w-]*)\[([a-z-]+)(?:="([^"]*)")?\]$/) : null;
+    if (attribute) {
+      const [, element, attributeName, value] = attribute;
+      if (value !== undefined) {
+        candidates.push(`${element}[${attributeName}]`, `${attributeName}="${value}"`);
+      }
+      candidates.push(attributeName ?? '');
+    }
+
+    for (const candidate of candidates) {
+      const key = `${type}:${candidate}`;
+      const featureId = this.keys.get(key) ?? this.aliases.get(key);
+      if (featureId) {
+        return featureId;
+      }
+    }
+
+    // Parsers also report some features by their web-features ID, e.g. js-modules
+    return this.featureIds.has(name) ? name : null;
+  }
+
+  /**
+   * web-features IDs with a BCD key at or below `compatKey`, e.g. every feature under 'javascript.builtins.Promise'
+   */
+  findByCompatKey(compatKey: string): string[] {
+    const featureIds = new Set<string>();
+    for (const [key, featureId] of this.compatKeys) {
+      if (key === compatKey || key.startsWith(`${compatKey}.`)) {
+        featureIds.add(featureId);
+      }
+    }
+    return Array.from(featureIds);
+  }
+
+  /**
+   * web-features ID that lists exactly this BCD key, e.g. 'javascript.builtins.Array.at' -> 'array-at'
+   */
+  lookupCompatKey(compatKey: string): string | null {
+    return this.compatKeys.get(compatKey) ?? null;
+  }
+
+  /**
+   * Whether a JS name is a global web-features knows: a builtin such as Object, an interface,
+   * a global function or Window member, or a global instance such as navigator
+   */
+  isGlobal(name: string): boolean {
+    return FeatureIndex.INSTANCE_NAMES.has(name) || this.builtinOwners.has(name) || this.keys.has(`js:${name}`);
+  }
+
+  /**
+   * Built-in prototype method a bare method name most likely refers to, e.g. 'at' -> 'Array.prototype.at',
+   * for calls whose receiver type is unknown; only Array, typed array and String methods are matched
+   */
+  findBuiltinMethod(method: string): string | null {
+    return this.builtinMethods.get(method) ?? null;
+  }
+
+  /**
+   * Whether a web-features ID exists
+   */
+  hasFeature(featureId: string): boolean {
+    return this.featureIds.has(featureId);
+  }
+
+  /**
+   * Number of names indexed, aliases included
+   */
+  get size(): number {
+    return this.keys.size + this.aliases.size;
+  }
+
+  private indexCompatKey(compatKey: string, featureId: string): void {
+    const [area, group, ...path] = compatKey.split('.');
+
+    if (area === 'css') {
+      this.indexCSS(group ?? '', path, featureId);
+    } else if (area === 'javascript' && group === 'builtins') {
+      this.indexMembers(path, featureId, false);
+      this.indexBuiltinMethod(path);
+    } else if (area === 'api') {
+      this.indexMembers([group ?? '', ...path], featureId, true);
+    } else if (area === 'html') {
+      this.indexHTML(group ?? '', path, featureId);
+    }
+  }
+
+  private indexCSS(group: string, path: string[], featureId: string): void {
+    const [name, value] = path;
+    if (!name || !/^[a-z-]+$/.test(name)) {
+      return;
+    }
+
+    switch (group) {
+      case 'properties':
+        if (path.length === 1) {
+          this.addKey('css', name, featureId);
+        } else if (name === 'custom-property' && value === 'var') {
+          this.addKey('css', 'var()', featureId);
+        } else if (path.length === 2 && value && /^[a-z-]+$/.test(value)) {
+          this.addKey('css', `${name}: ${value}`, featureId);
+        }
+        break;
+      case 'selectors':
+        if (path.length === 1) {
+          for (const selector of [`:${name}`, `:${name}()`, `::${name}`, `::${name}()`]) {
+            this.addKey('css', selector, featureId);
+          }
+        }
+        break;
+      case 'at-rules':
+        if (path.length === 1) {
+          this.addKey('css', `@${name}`, featureId);
+        } else if (name === 'media' && value === 'range_syntax') {
+          this.addKey('css', '@media range syntax', featureId);
+        } else if (name === 'media' && path.length === 2 && value && /^[a-z-]+$/.test(value)) {
+          this.addKey('css', `@media (${value})`, featureId);
+        }
+        break;
+      case 'types':
+        this.indexCSSType(path, featureId);
+        break;
+    }
+  }
+
+  /**
+   * Value functions such as clamp() and oklch(), relative colors and length units
+   */
+  private indexCSSType(path: string[], featureId: string): void {
+    const [type, name, detail] = path;
+    const isFunction = (value: string | undefined): value is string => !!value && /^[a-zA-Z][\w-]*$/.test(value);
+
+    if (path.length === 1) {
+      // Plain types like <color> have no function form, so this only ever matches functions such as calc()
+      this.addKey('css', `${type}()`, featureId);
+    } else if (type === 'length' && path.length === 2 && name) {
+      for (const unit of FeatureIndex.UNIT_GROUPS[name] ?? (/^[a-z]+$/.test(name) ? [name] : [])) {
+        this.addKey('css', unit, featureId);
+      }
+    } else if (type === 'color' && isFunction(name) && (path.length === 2 || detail === 'relative_syntax')) {
+      this.addKey('css', detail ? `${name}(from)` : `${name}()`, featureId);
+    } else if ((type === 'image' || type === 'transform-function') && isFunction(name) && path.length === 2) {
+      this.addKey('css', `${name}()`, featureId);
+    } else if (type === 'image' && name === 'gradient' && isFunction(detail) && path.length === 3) {
+      this.addKey('css', `${detail}()`, featureId);
+    }
+  }
+
+  /**
+   * Interfaces, builtins and their members; event handlers and sub-features such as
+   * `options_parameter` are skipped
+   */
+  private indexMembers(path: string[], featureId: string, isAPI: boolean): void {
+    const [owner, rawMember] = path;
+    if (!owner || path.length > 2 || !/^[A-Za-z$][\w$]*$/.test(owner)) {
+      return;
+    }
+
+    if (!rawMember) {
+      this.addKey('js', owner, featureId);
+      return;
+    }
+
+    const member = rawMember.replace(/_static$/, '');
+    if (!/^[A-Za-z$][A-Za-z0-9$]*$/.test(member)) {
+      return;
+    }
+
+    this.addKey('js', `${owner}.${member}`, featureId);
+    if (!isAPI) {
+      this.addKey('js', `${owner}.prototype.${member}`, featureId);
+    }
+
+    const instance = isAPI ? FeatureIndex.GLOBAL_INSTANCES[owner] : undefined;
+    if (instance) {
+      this.addKey('js', `${instance}.${member}`, featureId);
+    }
+    if (owner === 'Window') {
+      // Window members are globals, e.g. requestIdleCallback
+      this.addKey('js', member, featureId);
+    } else {
+      this.addAlias('js', member, featureId);
+    }
+  }
+
+  private indexBuiltinMethod(path: string[]): void {
+    const [owner, member] = path;
+    if (!owner || !/^[A-Za-z$][\w$]*$/.test(owner)) {
+      return;
+    }
+    this.builtinOwners.add(owner);
+
+    const rank = FeatureIndex.METHOD_OWNERS.indexOf(owner);
+    if (rank < 0 || path.length !== 2 || !member || !/^[A-Za-z$][\w$]*$/.test(member) || FeatureIndex.STATIC_MEMBERS.has(member)) {
+      return;
+    }
+
+    const existing = this.builtinMethods.get(member)?.split('.')[0];
+    if (!existing || rank < FeatureIndex.METHOD_OWNERS.indexOf(existing)) {
+      this.builtinMethods.set(member, `${owner}.prototype.${member}`);
+    }
+  }
+
+  private indexHTML(group: string, path: string[], featureId: string): void {
+    const [first, second, third] = path;
+    const clean = (name: string | undefined): string | null =>
+      name && /^[a-z-]+(_value)?$/.test(name) ? name.replace(/_value$/, '') : null;
+
+    if (group === 'elements') {
+      const element = clean(first);
+      const attribute = clean(second);
+      const value = clean(third);
+      if (!element || path.length > 3 || (second && !attribute) || (third && !value)) {
+        return;
+      }
+
+      if (!attribute) {
+        this.addKey('html', element, featureId);
+      } else if (!value) {
+        this.addKey('html', `${element}[${attribute}]`, featureId);
+        this.addAlias('html', attribute, featureId);
+      } else {
+        this.addKey('html', `${element}[${attribute}="${value}"]`, featureId);
+        this.addAlias('html', `${attribute}="${value}"`, featureId);
+      }
+    } else if (group === 'global_attributes') {
+      const attribute = clean(first);
+      const value = clean(second);
+      if (!attribute || path.length > 2 || (second && !value)) {
+        return;
+      }
+      this.addKey('html', value ? `${attribute}="${value}"` : attribute, featureId);
+    }
+  }
+
+  private addKey(type: FeatureType, name: string, featureId: string): void {
+    const key = `${type}:${name}`;
+    if (!this.keys.has(key)) {
+      this.keys.set(key, featureId);
+    }
+  }
+
+  private addAlias(type: FeatureType, name: string, featureId: string): void {
+    const key = `${type}:${name}`;
+    const existing = this.aliases.get(key);
+    if (existing === undefined) {
+      this.aliases.set(key, featureId);
+    } else if (existing !== featureId) {
+      this.aliases.set(key, null);
+    }
+  }
+}
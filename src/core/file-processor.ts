@@ -4,6 +4,7 @@ import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 import type { DetectedFeature } from '../types/index.js';
 import { CacheManager } from './cache-manager.js';
+import type { ParseCache } from './parse-cache.js';
 
 /**
  * Worker task for file parsing
@@ -29,6 +30,7 @@ interface WorkerResult {
 export class FileProcessor {
   private readonly maxWorkers: number;
   private readonly cacheManager: CacheManager;
+  private readonly parseCache: ParseCache | null;
   private workers: Worker[] = [];
   private taskQueue: WorkerTask[] = [];
   private pendingTasks = new Map<string, {
@@ -40,9 +42,11 @@ export class FileProcessor {
   constructor(options: {
     maxWorkers?: number;
     cacheManager?: CacheManager;
+    parseCache?: ParseCache;
   } = {}) {
     this.maxWorkers = options.maxWorkers || Math.min(cpus().length, 8);
     this.cacheManager = options.cacheManager || new CacheManager();
+    this.parseCache = options.parseCache || null;
   }
 
   /**
@@ -64,18 +68,58 @@ export class FileProcessor {
       }
     }
 
+    // Files parsed by an earlier run are read from the disk cache
+    const { toParse, cacheKeys } = await this.readParseCache(changed, cachedFeatures);
+
     // Process changed files
-    const newFeatures = changed.length > 0 
-      ? await this.processFilesWithWorkers(changed)
+    const newFeatures = toParse.length > 0 
+      ? await this.processFilesWithWorkers(toParse, cacheKeys)
       : [];
 
     return [...cachedFeatures, ...newFeatures];
   }
 
+  /**
+   * Look files up in the disk cache, collecting hits and returning the files that still need parsing
+   */
+  private async readParseCache(filePaths: string[], hits: DetectedFeature[]): Promise<{
+    toParse: string[];
+    cacheKeys: Map<string, string>;
+  }> {
+    const cacheKeys = new Map<string, string>();
+    const parseCache = this.parseCache;
+    if (!parseCache) {
+      return { toParse: filePaths, cacheKeys };
+    }
+
+    const toParse: string[] = [];
+    const batchSize = 64; // bounded to stay clear of open file limits
+
+    for (let i = 0; i < filePaths.length; i += batchSize) {
+      await Promise.all(filePaths.slice(i, i + batchSize).map(async (filePath) => {
+        try {
+          const key = await parseCache.getKey(filePath);
+          const cached = await parseCache.get(key, filePath);
+          if (cached) {
+            hits.push(...cached);
+            await this.cacheManager.setCachedParseResult(filePath, cached);
+            return;
+          }
+          cacheKeys.set(filePath, key);
+        } catch {
+          // Unreadable here; let the parser report it
+        }
+        toParse.push(filePath);
+      }));
+    }
+
+    return { toParse, cacheKeys };
+  }
+
   /**
    * Process files using worker threads
    */
-  private async processFilesWithWorkers(filePaths: string[]): Promise<DetectedFeature[]> {
+  private async processFilesWithWorkers(filePaths: string[], cacheKeys: Map<string, string> = new Map()): Promise<DetectedFeature[]> {
     if (filePaths.length === 0) {
       return [];
     }
@@ -95,6 +139,7 @@ export class FileProcessor {
     }
 
     const allFeatures: DetectedFeature[] = [];
+    const cacheWrites: Promise<void>[] = [];
 
     // Process each batch
     for (const batch of batches) {
@@ -110,6 +155,11 @@ export class FileProcessor {
           allFeatures.push(...result.value);
           // Cache the result
           this.cacheManager.setCachedParseResult(task.filePath, result.value);
+
+          const key = cacheKeys.get(task.filePath);
+          if (key && this.parseCache) {
+            cacheWrites.push(this.parseCache.set(key, result.value).catch(() => {}));
+          }
         } else {
           console.warn(`Failed to process ${task.filePath}: ${result.reason}`);
         }
@@ -121,6 +171,8 @@ export class FileProcessor {
       }
     }
 
+    await Promise.all(cacheWrites);
+
     return allFeatures;
   }
 
@@ -173,6 +225,11 @@ export class FileProcessor {
       // Cleanup
       await this.terminateWorkers();
       this.isProcessing = false;
+
+      // Tasks queued while workers were shutting down would otherwise never run
+      if (this.taskQueue.length > 0) {
+        void this.startProcessing();
+      }
     }
   }
 
@@ -3,15 +3,25 @@ export * from './baseguard.js';
 export * from './baseline-checker.js';
 export { ConfigurationManager, BROWSER_TARGET_PRESETS } from './configuration.js';
 export type { PresetName } from './configuration.js';
+export { BrowserslistTargets } from './browserslist-targets.js';
+export type { BrowserslistResolution } from './browserslist-targets.js';
 export { ApiKeyManager } from './api-key-manager.js';
 export { GitignoreManager } from './gitignore-manager.js';
 export { CacheManager, LRUCache } from './cache-manager.js';
+export { ParseCache } from './parse-cache.js';
 export { FileProcessor } from './file-processor.js';
 export { DirectoryFilter } from './directory-filter.js';
 export { LazyLoader } from './lazy-loader.js';
+export { FeatureIndex } from './feature-index.js';
+export { PolyfillDetector } from './polyfill-detector.js';
+export { TargetOverrides } from './target-overrides.js';
+export type { EffectiveTargets } from './target-overrides.js';
 export { MemoryManager } from './memory-manager.js';
 export { StartupOptimizer } from './startup-optimizer.js';
 export { SystemErrorHandler } from './system-error-handler.js';
 export { GracefulDegradationManager } from './graceful-degradation-manager.js';
 export { ConfigurationRecovery } from './configuration-recovery.js';
+export { SuppressionManager } from './suppression-manager.js';
+export { ViolationBaseline } from './violation-baseline.js';
+export { ViolationWatcher } from './violation-watcher.js';
 export { logger, DebugLogger } from './debug-logger.js';
\ No newline at end of file
@@ -227,7 +227,7 @@ export class LazyLoader {
       const webFeatures = await import('web-features');
       
       // Extract only the data we need to reduce memory usage
-      const optimizedData = this.optimizeWebFeaturesData(webFeatures.default || webFeatures);
+      const optimizedData = this.optimizeWebFeaturesData(webFeatures);
       
       return optimizedData;
     } catch (error) {
@@ -267,8 +267,8 @@ export class LazyLoader {
     for (const [featureId, feature] of Object.entries(featuresData)) {
       const f = feature as any;
       
-      // Skip if not a valid feature object
-      if (!f || typeof f !== 'object') {
+      // Skip invalid entries and IDs that only redirect to other features (kind 'moved' or 'split')
+      if (!f || typeof f !== 'object' || (f.kind && f.kind !== 'feature')) {
         continue;
       }
 
@@ -279,6 +279,8 @@ export class LazyLoader {
           baseline: f.status.baseline,
           support: f.status.support
         } : null,
+        // BCD keys, used to build the FeatureIndex
+        compat_features: f.compat_features || [],
         // Skip heavy data like descriptions, specs, caniuse data, etc.
       };
     }
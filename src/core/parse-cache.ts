@@ -0,0 +1,265 @@
+import { createHash } from 'crypto';
+import { createRequire } from 'module';
+import { readFileSync } from 'fs';
+import { mkdir, readFile, readdir, rename, rm, stat, unlink, utimes, writeFile } from 'fs/promises';
+import { dirname, extname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { ParserManager } from '../parsers/parser-manager.js';
+import type { DetectedFeature, ParseCacheStats, ParseCacheVersions } from '../types/index.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+/**
+ * Cached features of one file, stored as JSON
+ */
+interface ParseCacheEntry {
+  versions: ParseCacheVersions;
+  createdAt: string;
+  features: Array<Omit<DetectedFeature, 'file'>>;
+}
+
+/**
+ * On-disk cache of parse results that persists across CLI runs
+ *
+ * Entries are keyed by a hash of the file content, its extension and the
+ * BaseGuard, parser and web-features versions, so an edit or an upgrade
+ * simply misses and the stale entry is left for `prune`. Entries carry no
+ * file paths; identical files share one entry.
+ */
+export class ParseCache {
+  static readonly CACHE_DIR = join('.baseguard', 'cache');
+  private static readonly FORMAT_VERSION = 1;
+  private static versions: ParseCacheVersions | null = null;
+
+  private readonly entriesDir: string;
+  private readonly createdDirs = new Set<string>();
+
+  constructor(private readonly cacheDir: string = join(process.cwd(), ParseCache.CACHE_DIR)) {
+    this.entriesDir = join(cacheDir, 'parse');
+  }
+
+  /**
+   * Versions that invalidate cached results when any of them changes
+   */
+  static getVersions(): ParseCacheVersions {
+    if (!this.versions) {
+      this.versions = {
+        format: this.FORMAT_VERSION,
+        baseguard: this.readPackageVersion(join(__dirname, '../../package.json')),
+        parser: ParserManager.PARSER_VERSION,
+        webFeatures: this.readWebFeaturesVersion()
+      };
+    }
+    return this.versions;
+  }
+
+  /**
+   * Cache key for a file's current content
+   */
+  async getKey(filePath: string): Promise<string> {
+    const content = await readFile(filePath);
+    return createHash('sha256')
+      .update(JSON.stringify(ParseCache.getVersions()))
+      .update('\0')
+      .update(extname(filePath).toLowerCase())
+      .update('\0')
+      .update(content)
+      .digest('hex');
+  }
+
+  /**
+   * Cached features for a key, attributed to the given file, or null on a miss
+   */
+  async get(key: string, filePath: string): Promise<DetectedFeature[] | null> {
+    const entryPath = this.getEntryPath(key);
+
+    let entry: ParseCacheEntry;
+    try {
+      entry = JSON.parse(await readFile(entryPath, 'utf-8')) as ParseCacheEntry;
+    } catch {
+      return null;
+    }
+
+    if (!Array.isArray(entry.features)) {
+      return null;
+    }
+
+    // Record the hit so prune keeps entries that are still in use
+    const now = new Date();
+    utimes(entryPath, now, now).catch(() => {});
+
+    return entry.features.map(feature => ({ ...feature, file: filePath }));
+  }
+
+  /**
+   * Store the features parsed from a file
+   */
+  async set(key: string, features: DetectedFeature[]): Promise<void> {
+    const entryPath = this.getEntryPath(key);
+    const entry: ParseCacheEntry = {
+      versions: ParseCache.getVersions(),
+      createdAt: new Date().toISOString(),
+      features: features.map(({ file: _file, ...feature }) => feature)
+    };
+
+    await this.ensureDir(dirname(entryPath));
+
+    // Write then rename so concurrent runs never read a partial entry
+    const tempPath = `${entryPath}.${process.pid}.tmp`;
+    await writeFile(tempPath, JSON.stringify(entry), 'utf-8');
+    await rename(tempPath, entryPath);
+  }
+
+  /**
+   * Entry count, size on disk and how many entries belong to other versions
+   */
+  async stats(): Promise<ParseCacheStats> {
+    const current = JSON.stringify(ParseCache.getVersions());
+    const stats: ParseCacheStats = {
+      directory: this.cacheDir,
+      entries: 0,
+      staleEntries: 0,
+      sizeBytes: 0,
+      versions: ParseCache.getVersions()
+    };
+
+    for (const entryPath of await this.listEntries()) {
+      try {
+        const [info, content] = await Promise.all([stat(entryPath), readFile(entryPath, 'utf-8')]);
+        stats.entries++;
+        stats.sizeBytes += info.size;
+
+        if (JSON.stringify((JSON.parse(content) as ParseCacheEntry).versions) !== current) {
+          stats.staleEntries++;
+        }
+        if (!stats.oldestUse || info.mtime < stats.oldestUse) {
+          stats.oldestUse = info.mtime;
+        }
+        if (!stats.newestUse || info.mtime > stats.newestUse) {
+          stats.newestUse = info.mtime;
+        }
+      } catch {
+        // Unreadable entries are counted as stale
+        stats.staleEntries++;
+      }
+    }
+
+    return stats;
+  }
+
+  /**
+   * Delete every entry, returning how many were removed
+   */
+  async clear(): Promise<number> {
+    const count = (await this.listEntries()).length;
+    await rm(this.entriesDir, { recursive: true, force: true });
+    this.createdDirs.clear();
+    return count;
+  }
+
+  /**
+   * Delete entries from other versions, unreadable entries and entries unused for maxAgeDays
+   */
+  async prune(maxAgeDays: number = 30): Promise<{ removed: number; freedBytes: number }> {
+    const current = JSON.stringify(ParseCache.getVersions());
+    const cutoff = Date.now() - maxAgeDays * 24 * 60 * 60 * 1000;
+    let removed = 0;
+    let freedBytes = 0;
+
+    for (const entryPath of await this.listEntries()) {
+      let size = 0;
+      try {
+        const info = await stat(entryPath);
+        size = info.size;
+
+        if (info.mtimeMs >= cutoff) {
+          const entry = JSON.parse(await readFile(entryPath, 'utf-8')) as ParseCacheEntry;
+          if (JSON.stringify(entry.versions) === current) {
+            continue;
+          }
+        }
+      } catch {
+        // Unreadable or corrupt, remove it
+      }
+
+      try {
+        await unlink(entryPath);
+        removed++;
+        freedBytes += size;
+      } catch {
+        // Already removed by a concurrent run
+      }
+    }
+
+    return { removed, freedBytes };
+  }
+
+  /**
+   * Paths of all entry files
+   */
+  private async listEntries(): Promise<string[]> {
+    let shards: string[];
+    try {
+      shards = await readdir(this.entriesDir);
+    } catch {
+      return [];
+    }
+
+    const entries: string[] = [];
+    for (const shard of shards) {
+      try {
+        const files = await readdir(join(this.entriesDir, shard));
+        entries.push(...files.filter(file => file.endsWith('.json')).map(file => join(this.entriesDir, shard, file)));
+      } catch {
+        // Not a shard directory
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Entries are sharded by the first two hex digits to keep directories small
+   */
+  private getEntryPath(key: string): string {
+    return join(this.entriesDir, key.substring(0, 2), `${key}.json`);
+  }
+
+  /**
+   * Create a directory once per process, keeping the cache out of version control
+   */
+  private async ensureDir(dir: string): Promise<void> {
+    if (this.createdDirs.has(dir)) {
+      return;
+    }
+
+    await mkdir(dir, { recursive: true });
+    if (!this.createdDirs.has(this.cacheDir)) {
+      await writeFile(join(this.cacheDir, '.gitignore'), '*\n', { encoding: 'utf-8', flag: 'w' });
+      this.createdDirs.add(this.cacheDir);
+    }
+    this.createdDirs.add(dir);
+  }
+
+  /**
+   * Version field of a package.json, or 'unknown'
+   */
+  private static readPackageVersion(packagePath: string): string {
+    try {
+      return (JSON.parse(readFileSync(packagePath, 'utf-8')) as { version?: string }).version ?? 'unknown';
+    } catch {
+      return 'unknown';
+    }
+  }
+
+  /**
+   * Installed web-features version; its package.json is not exported, so locate it from the entry point
+   */
+  private static readWebFeaturesVersion(): string {
+    try {
+      const entryPoint = createRequire(import.meta.url).resolve('web-features');
+      return this.readPackageVersion(join(dirname(entryPoint), 'package.json'));
+    } catch {
+      return 'unknown';
+    }
+  }
+}
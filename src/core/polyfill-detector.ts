@@ -0,0 +1,287 @@
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { dirname, extname, join, relative, resolve } from 'path';
+import { FeatureIndex } from './feature-index.js';
+import { BuildTargets } from './build-targets.js';
+import type { Polyfill, PolyfillConfig } from '../types/index.js';
+
+/**
+ * Finds the polyfills a project loads and the web-features they provide
+ *
+ * Polyfills come from the `polyfills.include` config list, `core-js` imports
+ * (`core-js/stable`, `core-js/actual/array/at`, `core-js/modules/es.array.at`),
+ * `@babel/preset-env` with `useBuiltIns`, and imports of common polyfill packages.
+ * Coverage is expressed as BCD keys and resolved through the FeatureIndex.
+ */
+export class PolyfillDetector {
+  // Polyfill packages and the BCD keys they provide
+  private static readonly POLYFILL_PACKAGES: Record<string, string[]> = {
+    'whatwg-fetch': ['api.fetch', 'api.Headers', 'api.Request', 'api.Response'],
+    'intersection-observer': ['api.IntersectionObserver', 'api.IntersectionObserverEntry'],
+    'abortcontroller-polyfill': ['api.AbortController', 'api.AbortSignal'],
+    'url-polyfill': ['api.URL', 'api.URLSearchParams'],
+    'urlpattern-polyfill': ['api.URLPattern'],
+    'focus-visible': ['css.selectors.focus-visible'],
+    'wicg-inert': ['api.HTMLElement.inert', 'html.global_attributes.inert'],
+    '@oddbird/popover-polyfill': ['html.global_attributes.popover', 'api.HTMLElement.showPopover'],
+    'dialog-polyfill': ['api.HTMLDialogElement', 'html.elements.dialog'],
+    'container-query-polyfill': ['css.at-rules.container'],
+    'web-animations-js': ['api.Animation', 'api.Element.animate'],
+    'element-internals-polyfill': ['api.ElementInternals', 'api.HTMLElement.attachInternals'],
+    '@webcomponents/webcomponentsjs': ['api.CustomElementRegistry', 'api.Element.attachShadow'],
+    '@webcomponents/custom-elements': ['api.CustomElementRegistry'],
+    'smoothscroll-polyfill': ['css.properties.scroll-behavior', 'api.Element.scrollIntoView']
+  };
+
+  // core-js namespaces (core-js/stable/<namespace>/<method>) and their JS builtins
+  private static readonly CORE_JS_NAMESPACES: Record<string, string> = {
+    'aggregate-error': 'AggregateError',
+    'array': 'Array',
+    'array-buffer': 'ArrayBuffer',
+    'async-iterator': 'AsyncIterator',
+    'data-view': 'DataView',
+    'date': 'Date',
+    'error': 'Error',
+    'function': 'Function',
+    'iterator': 'Iterator',
+    'json': 'JSON',
+    'map': 'Map',
+    'math': 'Math',
+    'number': 'Number',
+    'object': 'Object',
+    'promise': 'Promise',
+    'reflect': 'Reflect',
+    'set': 'Set',
+    'string': 'String',
+    'symbol': 'Symbol',
+    'typed-array': 'TypedArray',
+    'weak-map': 'WeakMap',
+    'weak-set': 'WeakSet'
+  };
+
+  // core-js modules for web platform globals
+  private static readonly CORE_JS_GLOBALS: Record<string, string> = {
+    'structured-clone': 'api.structuredClone',
+    'queue-microtask': 'api.queueMicrotask',
+    'url': 'api.URL',
+    'url-search-params': 'api.URLSearchParams',
+    'dom-exception': 'api.DOMException',
+    'atob': 'api.atob',
+    'btoa': 'api.btoa',
+    'self': 'api.self',
+    'global-this': 'javascript.builtins.globalThis'
+  };
+
+  private static readonly SCRIPT_EXTENSIONS = new Set(['.js', '.jsx', '.mjs', '.cjs', '.ts', '.tsx', '.mts', '.cts', '.vue', '.svelte', '.astro']);
+
+  // Where apps usually load their polyfills
+  private static readonly ENTRY_FILES = ['src/polyfills', 'src/main', 'src/index', 'src/app', 'index', 'main'];
+
+  private static readonly RESOLVE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs'];
+
+  // Local modules followed from the entry points, so large apps aren't read in full
+  private static readonly MAX_FOLLOWED_FILES = 200;
+
+  /**
+   * Polyfills declared in config or, unless `autoDetect` is false, injected by
+   * `@babel/preset-env` or imported from the project's entry points
+   *
+   * The result depends only on the project, not on which files are being checked,
+   * so a pre-commit run over one staged file sees the same polyfills as a full check.
+   */
+  static async detect(config: PolyfillConfig = {}, path: string = process.cwd()): Promise<Polyfill[]> {
+    const index = await FeatureIndex.load();
+    const polyfills = new Map<string, Polyfill>();
+
+    for (const entry of config.include ?? []) {
+      const featureIds = this.resolveModule(entry, index) ?? [index.lookup(entry, 'js')].filter((id): id is string => id !== null);
+      if (featureIds.length === 0) {
+        console.warn(`Warning: Unknown polyfill "${entry}" in .baseguardrc.json`);
+        continue;
+      }
+      polyfills.set(entry, { source: entry, featureIds, file: '.baseguardrc.json' });
+    }
+
+    if (config.autoDetect === false) {
+      return Array.from(polyfills.values());
+    }
+
+    try {
+      const presetEnv = BuildTargets.findPresetEnv(path);
+      const useBuiltIns = presetEnv?.options.useBuiltIns;
+      if (presetEnv && (useBuiltIns === 'usage' || useBuiltIns === 'entry')) {
+        const source = `@babel/preset-env useBuiltIns: "${useBuiltIns}"`;
+        polyfills.set(source, { source, featureIds: this.resolveModule('core-js/stable', index) ?? [], file: presetEnv.source });
+      }
+    } catch (error) {
+      console.warn(`Warning: Could not read Babel config: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    // Walk local imports breadth-first from the entry points
+    const queue = await this.findEntryFiles(path);
+    const visited = new Set<string>(queue);
+    while (queue.length > 0) {
+      const file = queue.shift()!;
+
+      let content: string;
+      try {
+        content = await readFile(file, 'utf-8');
+      } catch {
+        continue;
+      }
+
+      for (const specifier of this.findImports(content)) {
+        if (specifier.startsWith('.')) {
+          const local = this.resolveLocalImport(file, specifier, path);
+          if (local && !visited.has(local) && visited.size < this.MAX_FOLLOWED_FILES) {
+            visited.add(local);
+            queue.push(local);
+          }
+          continue;
+        }
+
+        const featureIds = polyfills.has(specifier) ? null : this.resolveModule(specifier, index);
+        if (featureIds) {
+          polyfills.set(specifier, { source: specifier, featureIds, file: relative(path, file) });
+        }
+      }
+    }
+
+    return Array.from(polyfills.values());
+  }
+
+  /**
+   * The usual entry files, package.json entry fields and module scripts in index.html
+   */
+  private static async findEntryFiles(path: string): Promise<string[]> {
+    const candidates = this.ENTRY_FILES.flatMap(entry => this.RESOLVE_EXTENSIONS.map(extension => join(path, `${entry}${extension}`)));
+
+    try {
+      const pkg = JSON.parse(await readFile(join(path, 'package.json'), 'utf-8'));
+      for (const field of ['source', 'module', 'main', 'browser']) {
+        if (typeof pkg[field] === 'string') {
+          candidates.push(resolve(path, pkg[field]));
+        }
+      }
+    } catch {
+      // No package.json, or not valid JSON
+    }
+
+    try {
+      // Vite and similar tools load the app from a module script in index.html
+      const html = await readFile(join(path, 'index.html'), 'utf-8');
+      for (const [, src] of html.matchAll(/<script\b[^>]*\bsrc=["']([^"']+)["']/gi)) {
+        if (src && !/^(https?:)?\/\//.test(src)) {
+          candidates.push(join(path, src.replace(/^\//, '')));
+        }
+      }
+    } catch {
+      // No index.html
+    }
+
+    return [...new Set(candidates)].filter(file => this.SCRIPT_EXTENSIONS.has(extname(file).toLowerCase()) && existsSync(file));
+  }
+
+  /**
+   * Resolve a relative import to a script file inside the project, trying
+   * extensions, `index` files and `.js` specifiers that point at TypeScript
+   */
+  private static resolveLocalImport(from: string, specifier: string, path: string): string | null {
+    const base = resolve(dirname(from), specifier);
+    if (relative(path, base).startsWith('..')) {
+      return null;
+    }
+
+    const candidates = [
+      base,
+      ...this.RESOLVE_EXTENSIONS.map(extension => `${base}${extension}`),
+      ...this.RESOLVE_EXTENSIONS.map(extension => join(base, `index${extension}`)),
+      ...(/\.m?js$/.test(base) ? ['.ts', '.tsx', '.mts'].map(extension => base.replace(/\.m?js$/, extension)) : [])
+    ];
+    return candidates.find(file => this.SCRIPT_EXTENSIONS.has(extname(file).toLowerCase()) && existsSync(file)) ?? null;
+  }
+
+  /**
+   * web-features IDs provided by a polyfill module, or null if it isn't a known polyfill
+   */
+  static resolveModule(specifier: string, index: FeatureIndex): string[] | null {
+    const compatKeys = this.getCoreJSCompatKeys(specifier) ?? this.getPackageCompatKeys(specifier);
+    if (!compatKeys) {
+      return null;
+    }
+
+    const featureIds = new Set(compatKeys.flatMap(compatKey => index.findByCompatKey(compatKey)));
+    return featureIds.size > 0 ? Array.from(featureIds) : null;
+  }
+
+  /**
+   * BCD keys for a core-js entry point; core-js-pure is skipped because it doesn't touch globals
+   */
+  private static getCoreJSCompatKeys(specifier: string): string[] | null {
+    const path = specifier.replace(/(\/index)?\.js$/, '');
+    const builtins = [
+      ...Object.values(this.CORE_JS_NAMESPACES).map(name => `javascript.builtins.${name}`),
+      ...Object.values(this.CORE_JS_GLOBALS)
+    ];
+
+    // core-js/modules/es.array.at, core-js/modules/web.structured-clone
+    const module = path.match(/^core-js\/modules\/(?:es|esnext|web)\.([\w.-]+)$/);
+    if (module) {
+      return this.getNamespaceCompatKeys((module[1] ?? '').split('.'));
+    }
+
+    const entry = path.match(/^core-js(?:\/(stable|actual|full|es|web|features|proposals|stage\/\d))?(?:\/(.+))?$/);
+    if (!entry) {
+      return null;
+    }
+
+    if (!entry[2]) {
+      if (entry[1] === 'web') {
+        return Object.values(this.CORE_JS_GLOBALS);
+      }
+      return entry[1] === 'es' ? builtins.filter(key => key.startsWith('javascript.')) : builtins;
+    }
+
+    return this.getNamespaceCompatKeys(entry[2].split('/').filter(part => part !== 'virtual' && part !== 'prototype'));
+  }
+
+  /**
+   * BCD keys for core-js path parts such as ['array', 'find-last'] or ['structured-clone']
+   */
+  private static getNamespaceCompatKeys([namespace = '', member]: string[]): string[] | null {
+    const global = this.CORE_JS_GLOBALS[namespace];
+    if (global) {
+      return [global];
+    }
+
+    const builtin = this.CORE_JS_NAMESPACES[namespace];
+    if (!builtin) {
+      return null;
+    }
+
+    const camelCase = member?.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase());
+    return [camelCase ? `javascript.builtins.${builtin}.${camelCase}` : `javascript.builtins.${builtin}`];
+  }
+
+  private static getPackageCompatKeys(specifier: string): string[] | null {
+    const packageName = specifier.startsWith('@')
+      ? specifier.split('/').slice(0, 2).join('/')
+      : specifier.split('/')[0] ?? '';
+    return this.POLYFILL_PACKAGES[packageName] ?? null;
+  }
+
+  /**
+   * Module specifiers from import statements, dynamic imports and require calls
+   */
+  private static findImports(content: string): string[] {
+    const specifiers: string[] = [];
+    const importRegex = /(?:\bimport\s*(?:[\w*{}\s,$]+\s*from\s*)?|\b(?:require|import)\s*\(\s*)(['"])([^'"\n]+)\1/g;
+
+    let match: RegExpExecArray | null;
+    while ((match = importRegex.exec(content)) !== null) {
+      specifiers.push(match[2] ?? '');
+    }
+
+    return specifiers;
+  }
+}
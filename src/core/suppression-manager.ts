@@ -0,0 +1,178 @@
+import { readFile } from 'fs/promises';
+import type { Violation, SuppressionDirective, SuppressedViolation } from '../types/index.js';
+
+/**
+ * Matches baseguard directives inside `//`, `/* *\/` and `<!-- -->` comments
+ */
+const DIRECTIVE_PATTERN =
+  /(?:\/\/|\/\*|<!--)[ \t]*baseguard-(disable-next-line|disable-line|disable-file|disable|enable)\b(.*?)(?:\*\/|-->|\r?\n|$)/g;
+
+/**
+ * Inline suppression comments for violations
+ *
+ * Supported directives (feature IDs are optional, comma or space separated):
+ *   baseguard-disable-next-line [ids]  - suppress the following line
+ *   baseguard-disable-line [ids]       - suppress the directive's own line
+ *   baseguard-disable [ids]            - suppress until baseguard-enable or end of file
+ *   baseguard-enable [ids]             - end a disable block
+ *   baseguard-disable-file [ids]       - suppress the whole file
+ * Anything after `--` is kept as the suppression reason.
+ */
+export class SuppressionManager {
+  /**
+   * Parse all suppression directives in a source file
+   */
+  static parseDirectives(content: string): SuppressionDirective[] {
+    const directives: SuppressionDirective[] = [];
+    const lineStarts = this.getLineStarts(content);
+
+    DIRECTIVE_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = DIRECTIVE_PATTERN.exec(content)) !== null) {
+      const [, kind, rest = ''] = match;
+      const [idPart = '', ...reasonParts] = rest.split('--');
+      const reason = reasonParts.join('--').trim();
+
+      directives.push({
+        kind: kind as SuppressionDirective['kind'],
+        line: this.getLineNumber(lineStarts, match.index),
+        featureIds: idPart.split(/[\s,]+/).filter(Boolean),
+        ...(reason ? { reason } : {})
+      });
+    }
+
+    return directives;
+  }
+
+  /**
+   * Find the directive that suppresses a violation, if any
+   */
+  static findSuppression(
+    directives: SuppressionDirective[],
+    violation: Violation
+  ): SuppressionDirective | null {
+    const openBlocks: SuppressionDirective[] = [];
+
+    for (const directive of directives) {
+      switch (directive.kind) {
+        case 'disable-file':
+          if (this.coversFeature(directive, violation)) {
+            return directive;
+          }
+          break;
+        case 'disable-line':
+          if (directive.line === violation.line && this.coversFeature(directive, violation)) {
+            return directive;
+          }
+          break;
+        case 'disable-next-line':
+          if (directive.line + 1 === violation.line && this.coversFeature(directive, violation)) {
+            return directive;
+          }
+          break;
+        case 'disable':
+          if (directive.line <= violation.line) {
+            openBlocks.push(directive);
+          }
+          break;
+        case 'enable':
+          if (directive.line < violation.line) {
+            this.closeBlocks(openBlocks, directive);
+          }
+          break;
+      }
+    }
+
+    return openBlocks.find(block => this.coversFeature(block, violation)) ?? null;
+  }
+
+  /**
+   * Split violations into active and suppressed using each file's directives
+   */
+  static async partitionViolations(
+    violations: Violation[],
+    readContent: (file: string) => Promise<string> = (file) => readFile(file, 'utf-8')
+  ): Promise<{ violations: Violation[]; suppressed: SuppressedViolation[] }> {
+    const directivesByFile = new Map<string, SuppressionDirective[]>();
+    const active: Violation[] = [];
+    const suppressed: SuppressedViolation[] = [];
+
+    for (const violation of violations) {
+      let directives = directivesByFile.get(violation.file);
+      if (!directives) {
+        try {
+          directives = this.parseDirectives(await readContent(violation.file));
+        } catch {
+          directives = [];
+        }
+        directivesByFile.set(violation.file, directives);
+      }
+
+      const directive = directives.length > 0 ? this.findSuppression(directives, violation) : null;
+      if (directive) {
+        suppressed.push({ violation, directive });
+      } else {
+        active.push(violation);
+      }
+    }
+
+    return { violations: active, suppressed };
+  }
+
+  /**
+   * Check whether a directive applies to the violation's feature
+   */
+  private static coversFeature(directive: SuppressionDirective, violation: Violation): boolean {
+    if (directive.featureIds.length === 0) {
+      return true;
+    }
+
+    const candidates = [violation.featureId, violation.feature].map(id => id.toLowerCase());
+    return directive.featureIds.some(id => candidates.includes(id.toLowerCase()));
+  }
+
+  /**
+   * Close open disable blocks matched by an enable directive
+   */
+  private static closeBlocks(openBlocks: SuppressionDirective[], enable: SuppressionDirective): void {
+    for (let i = openBlocks.length - 1; i >= 0; i--) {
+      const block = openBlocks[i]!;
+      const closes =
+        enable.featureIds.length === 0 ||
+        block.featureIds.some(id => enable.featureIds.includes(id));
+      if (closes) {
+        openBlocks.splice(i, 1);
+      }
+    }
+  }
+
+  /**
+   * Get the character offset of each line start
+   */
+  private static getLineStarts(content: string): number[] {
+    const starts = [0];
+    for (let i = 0; i < content.length; i++) {
+      if (content[i] === '\n') {
+        starts.push(i + 1);
+      }
+    }
+    return starts;
+  }
+
+  /**
+   * Convert a character offset to a 1-based line number
+   */
+  private static getLineNumber(lineStarts: number[], offset: number): number {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (lineStarts[mid]! <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return low + 1;
+  }
+}
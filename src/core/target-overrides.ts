@@ -0,0 +1,56 @@
+import { relative, resolve, sep } from 'path';
+import { minimatch } from 'minimatch';
+import type { BrowserTarget, Configuration, TargetOverride } from '../types/index.js';
+
+/**
+ * Targets a file is checked against once overrides are applied
+ */
+export interface EffectiveTargets {
+  targets: BrowserTarget[];
+  ignoreFeatures: Set<string>;
+  override?: string;   // label of the override that applied, e.g. 'apps/admin/**'
+}
+
+/**
+ * Per-path target overrides for codebases with more than one audience
+ *
+ * Globs are matched against the path relative to the project root. The first
+ * override with a matching glob applies, so specific paths go before broad
+ * ones: its targets replace the top-level targets (or are inherited when it
+ * sets none) and its `ignoreFeatures` are not reported for the file.
+ */
+export class TargetOverrides {
+  /**
+   * Targets and ignored features for one file
+   */
+  static resolve(file: string, config: Pick<Configuration, 'targets' | 'overrides'>, root: string = process.cwd()): EffectiveTargets {
+    const path = relative(root, resolve(root, file)).split(sep).join('/');
+    const override = config.overrides?.find(candidate =>
+      candidate.files.some(pattern => minimatch(path, pattern, { dot: true }))
+    );
+
+    if (!override) {
+      return { targets: config.targets, ignoreFeatures: new Set() };
+    }
+
+    return {
+      targets: override.targets && override.targets.length > 0 ? override.targets : config.targets,
+      ignoreFeatures: new Set(override.ignoreFeatures ?? []),
+      override: this.label(override)
+    };
+  }
+
+  /**
+   * Whether a violation's feature is ignored, by web-features ID or detected name
+   */
+  static isIgnored(violation: { feature: string; featureId: string }, effective: EffectiveTargets): boolean {
+    return effective.ignoreFeatures.has(violation.featureId) || effective.ignoreFeatures.has(violation.feature);
+  }
+
+  /**
+   * How an override is named in reports
+   */
+  static label(override: TargetOverride): string {
+    return override.files.join(', ');
+  }
+}
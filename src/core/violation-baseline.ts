@@ -0,0 +1,152 @@
+import { readFile, writeFile } from 'fs/promises';
+import { createHash } from 'crypto';
+import { relative, isAbsolute } from 'path';
+import type { Violation, ViolationBaselineEntry, ViolationBaselineFile } from '../types/index.js';
+
+/**
+ * Snapshot of known violations so strict checks only fail on new ones
+ *
+ * Entries are keyed on file, feature ID, browser and a hash of the normalized
+ * source context rather than line numbers, so unrelated edits that shift lines
+ * don't invalidate the snapshot.
+ */
+export class ViolationBaseline {
+  static readonly BASELINE_FILE = '.baseguard-baseline.json';
+  private static readonly VERSION = 1;
+
+  /**
+   * Load the baseline snapshot, or null if none exists
+   */
+  static async load(filePath: string = this.BASELINE_FILE): Promise<ViolationBaselineFile | null> {
+    let content: string;
+    try {
+      content = await readFile(filePath, 'utf-8');
+    } catch {
+      return null;
+    }
+
+    const parsed = JSON.parse(content) as Partial<ViolationBaselineFile>;
+    if (!Array.isArray(parsed.entries)) {
+      throw new Error(`Invalid baseline file ${filePath}: missing "entries" array`);
+    }
+
+    return {
+      version: parsed.version ?? this.VERSION,
+      generatedAt: parsed.generatedAt ?? '',
+      entries: parsed.entries
+    };
+  }
+
+  /**
+   * Write a baseline snapshot containing the given violations
+   *
+   * The file is left untouched, generatedAt included, when it already records
+   * the same entries, so re-running --update-baseline doesn't produce a diff.
+   */
+  static async save(
+    violations: Violation[],
+    filePath: string = this.BASELINE_FILE
+  ): Promise<ViolationBaselineFile> {
+    const baseline = this.create(violations);
+    const existing = await this.load(filePath).catch(() => null);
+    if (existing?.version === baseline.version && JSON.stringify(existing.entries) === JSON.stringify(baseline.entries)) {
+      return existing;
+    }
+
+    await writeFile(filePath, JSON.stringify(baseline, null, 2) + '\n', 'utf-8');
+    return baseline;
+  }
+
+  /**
+   * Build a baseline snapshot from violations, with stable ordering for clean diffs
+   */
+  static create(violations: Violation[]): ViolationBaselineFile {
+    const counts = new Map<string, ViolationBaselineEntry>();
+
+    for (const violation of violations) {
+      const entry = this.createEntry(violation);
+      const key = this.getEntryKey(entry);
+      const existing = counts.get(key);
+      if (existing) {
+        existing.count++;
+      } else {
+        counts.set(key, entry);
+      }
+    }
+
+    const entries = Array.from(counts.values()).sort((a, b) =>
+      a.file.localeCompare(b.file) ||
+      a.featureId.localeCompare(b.featureId) ||
+      a.browser.localeCompare(b.browser) ||
+      a.contextHash.localeCompare(b.contextHash)
+    );
+
+    return {
+      version: this.VERSION,
+      generatedAt: new Date().toISOString(),
+      entries
+    };
+  }
+
+  /**
+   * Split violations into new ones and ones already recorded in the baseline
+   */
+  static partition(
+    violations: Violation[],
+    baseline: ViolationBaselineFile
+  ): { newViolations: Violation[]; knownViolations: Violation[] } {
+    const remaining = new Map<string, number>();
+    for (const entry of baseline.entries) {
+      const key = this.getEntryKey(entry);
+      remaining.set(key, (remaining.get(key) || 0) + entry.count);
+    }
+
+    const newViolations: Violation[] = [];
+    const knownViolations: Violation[] = [];
+
+    for (const violation of violations) {
+      const key = this.getEntryKey(this.createEntry(violation));
+      const available = remaining.get(key) || 0;
+      if (available > 0) {
+        remaining.set(key, available - 1);
+        knownViolations.push(violation);
+      } else {
+        newViolations.push(violation);
+      }
+    }
+
+    return { newViolations, knownViolations };
+  }
+
+  /**
+   * Create a baseline entry for a single violation
+   */
+  private static createEntry(violation: Violation): ViolationBaselineEntry {
+    const relativePath = isAbsolute(violation.file)
+      ? relative(process.cwd(), violation.file)
+      : violation.file;
+
+    return {
+      file: relativePath.replace(/\\/g, '/'),
+      featureId: violation.featureId,
+      browser: violation.browser,
+      contextHash: this.hashContext(violation.context),
+      count: 1
+    };
+  }
+
+  /**
+   * Hash source context with whitespace normalized
+   */
+  private static hashContext(context: string): string {
+    const normalized = (context || '').replace(/\s+/g, ' ').trim();
+    return createHash('sha256').update(normalized).digest('hex').substring(0, 16);
+  }
+
+  /**
+   * Get the matching key for a baseline entry
+   */
+  private static getEntryKey(entry: ViolationBaselineEntry): string {
+    return [entry.file, entry.featureId, entry.browser, entry.contextHash].join('\u0000');
+  }
+}
@@ -0,0 +1,225 @@
+import { watch, type FSWatcher } from 'fs';
+import { basename, extname } from 'path';
+import type { BaseGuard } from './baseguard.js';
+import { DirectoryFilter } from './directory-filter.js';
+import type { Violation, WatchUpdate } from '../types/index.js';
+
+/**
+ * Re-checks changed files as the project is edited
+ *
+ * File system events only trigger a rescan; which files actually changed is
+ * decided by the mtime/size logic in CacheManager.getChangedFiles, so only
+ * those files are re-parsed. Violations are kept in memory per file and
+ * each update reports what was introduced and resolved.
+ */
+export class ViolationWatcher {
+  private readonly violationsByFile = new Map<string, Violation[]>();
+  private readonly directoryFilter = new DirectoryFilter();
+  private knownFiles = new Set<string>();
+  private watcher: FSWatcher | null = null;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private debounceTimer: NodeJS.Timeout | null = null;
+  private scanning = false;
+  private rescanRequested = false;
+
+  constructor(
+    private readonly baseGuard: BaseGuard,
+    private readonly patterns: string[],
+    private readonly options: {
+      onUpdate: (update: WatchUpdate) => void;
+      onError?: (error: unknown) => void;
+      filter?: (violations: Violation[]) => Violation[];
+      cwd?: string;
+      debounceMs?: number;
+      pollIntervalMs?: number;
+    }
+  ) {}
+
+  /**
+   * Run the initial check and start watching for changes
+   */
+  async start(): Promise<Violation[]> {
+    const files = await this.baseGuard.findFiles(this.patterns);
+    const result = await this.baseGuard.checkFiles(files);
+
+    this.knownFiles = new Set(files);
+    this.storeViolations(this.applyFilter(result.violations));
+    this.startWatching();
+
+    return this.getViolations();
+  }
+
+  /**
+   * Stop watching
+   */
+  stop(): void {
+    this.watcher?.close();
+    this.watcher = null;
+
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+  }
+
+  /**
+   * Get all violations currently known
+   */
+  getViolations(): Violation[] {
+    return Array.from(this.violationsByFile.values()).flat();
+  }
+
+  /**
+   * Find changed and removed files, re-check them and report the difference
+   */
+  async rescan(): Promise<WatchUpdate | null> {
+    if (this.scanning) {
+      this.rescanRequested = true;
+      return null;
+    }
+
+    this.scanning = true;
+    try {
+      const files = await this.baseGuard.findFiles(this.patterns);
+      const currentFiles = new Set(files);
+      const removedFiles = Array.from(this.knownFiles).filter(file => !currentFiles.has(file));
+      const { changed: changedFiles } = await this.baseGuard.getChangedFiles(files);
+
+      if (changedFiles.length === 0 && removedFiles.length === 0) {
+        return null;
+      }
+
+      const before = this.getViolations();
+      const result = changedFiles.length > 0
+        ? await this.baseGuard.checkFiles(changedFiles)
+        : { violations: [], suppressed: [] };
+
+      for (const file of [...changedFiles, ...removedFiles]) {
+        this.violationsByFile.delete(file);
+      }
+      this.storeViolations(this.applyFilter(result.violations));
+      this.knownFiles = currentFiles;
+
+      const violations = this.getViolations();
+      const update: WatchUpdate = {
+        ...ViolationWatcher.diff(before, violations),
+        changedFiles,
+        removedFiles,
+        violations
+      };
+
+      this.options.onUpdate(update);
+      return update;
+    } catch (error) {
+      this.options.onError?.(error);
+      return null;
+    } finally {
+      this.scanning = false;
+      if (this.rescanRequested) {
+        this.rescanRequested = false;
+        this.scheduleRescan();
+      }
+    }
+  }
+
+  /**
+   * Compare two violation sets, ignoring line moves within a file
+   */
+  static diff(before: Violation[], after: Violation[]): { introduced: Violation[]; resolved: Violation[] } {
+    const remaining = new Map<string, Violation[]>();
+    for (const violation of before) {
+      const key = this.getViolationKey(violation);
+      remaining.set(key, [...(remaining.get(key) || []), violation]);
+    }
+
+    const introduced: Violation[] = [];
+    for (const violation of after) {
+      const matches = remaining.get(this.getViolationKey(violation));
+      if (matches && matches.length > 0) {
+        matches.shift();
+      } else {
+        introduced.push(violation);
+      }
+    }
+
+    const resolved = Array.from(remaining.values()).flat();
+    return { introduced, resolved };
+  }
+
+  /**
+   * Watch the project recursively, falling back to polling where that isn't supported
+   */
+  private startWatching(): void {
+    const cwd = this.options.cwd || process.cwd();
+
+    try {
+      this.watcher = watch(cwd, { recursive: true }, (_event, filename) => {
+        if (!filename || this.isRelevantChange(filename.toString())) {
+          this.scheduleRescan();
+        }
+      });
+      this.watcher.on('error', error => this.options.onError?.(error));
+    } catch {
+      // Recursive fs.watch is unavailable on some platforms (e.g. Linux before Node 20)
+      this.pollTimer = setInterval(() => this.scheduleRescan(), this.options.pollIntervalMs ?? 1000);
+    }
+  }
+
+  /**
+   * Debounce bursts of file system events into one rescan
+   */
+  private scheduleRescan(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      void this.rescan();
+    }, this.options.debounceMs ?? 100);
+  }
+
+  /**
+   * Ignore events for paths the file scan skips (node_modules, .git, the .baseguard
+   * cache, the baseline file) and for unsupported files
+   */
+  private isRelevantChange(filename: string): boolean {
+    if (this.directoryFilter.isIgnoredPath(filename)) {
+      return false;
+    }
+
+    // Extensionless names may be directories being added or removed
+    const name = basename(filename);
+    return this.directoryFilter.isSupportedFile(name) || extname(name) === '';
+  }
+
+  /**
+   * Group violations by file into the in-memory set
+   */
+  private storeViolations(violations: Violation[]): void {
+    for (const violation of violations) {
+      const fileViolations = this.violationsByFile.get(violation.file) || [];
+      fileViolations.push(violation);
+      this.violationsByFile.set(violation.file, fileViolations);
+    }
+  }
+
+  /**
+   * Apply the caller's filter (e.g. baseline snapshot) to violations
+   */
+  private applyFilter(violations: Violation[]): Violation[] {
+    return this.options.filter ? this.options.filter(violations) : violations;
+  }
+
+  /**
+   * Identify a violation by file, feature, browser and source context
+   */
+  private static getViolationKey(violation: Violation): string {
+    const context = (violation.context || '').replace(/\s+/g, ' ').trim();
+    return [violation.file, violation.featureId, violation.browser, context].join('\u0000');
+  }
+}
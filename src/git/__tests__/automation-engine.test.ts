@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import { mkdtemp, writeFile, rm, realpath } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import { AutomationEngine } from '../automation-engine.js';
+import { ConfigurationManager } from '../../core/configuration.js';
+import type { Violation } from '../../types/index.js';
+
+describe('AutomationEngine pre-commit checks', () => {
+  let dir: string;
+
+  const git = (...args: string[]) => execFileSync('git', args, { cwd: dir, stdio: 'pipe' });
+
+  // checkViolations is private; the hook flow around it needs a loaded config and exits the process
+  const checkStaged = async (): Promise<string[]> => {
+    const config = { ...ConfigurationManager.createDefault(), targets: [{ browser: 'safari', minVersion: '14' }] };
+    const engine = new AutomationEngine(config, dir) as unknown as {
+      checkViolations(trigger: 'pre-commit'): Promise<Violation[]>;
+    };
+    const violations = await engine.checkViolations('pre-commit');
+    return [...new Set(violations.map(v => `${resolve(v.file)}:${v.line}:${v.feature}`))];
+  };
+
+  beforeEach(async () => {
+    dir = await realpath(await mkdtemp(join(tmpdir(), 'baseguard-hook-')));
+    git('init', '-q');
+    git('config', 'user.email', 'test@example.com');
+    git('config', 'user.name', 'Test');
+    await writeFile(join(dir, 'old.js'), 'const copy = structuredClone(state);\n');
+    await writeFile(join(dir, 'kept.js'), 'export const ok = 1;\n');
+    git('add', '.');
+    git('commit', '-q', '-m', 'initial');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should check the staged content of a partially staged file', async () => {
+    await writeFile(join(dir, 'kept.js'), 'const last = items.at(-1);\n');
+    git('add', 'kept.js');
+    await writeFile(join(dir, 'kept.js'), 'const copy = structuredClone(items);\n');
+
+    expect(await checkStaged()).toEqual([`${join(dir, 'kept.js')}:1:Array.prototype.at`]);
+  });
+
+  it('should skip staged deletions even when the file is still on disk', async () => {
+    git('rm', '-q', '--cached', 'old.js');
+
+    expect(await checkStaged()).toEqual([]);
+  });
+
+  it('should report renamed files at their new path', async () => {
+    git('mv', 'old.js', 'new.js');
+
+    expect(await checkStaged()).toEqual([`${join(dir, 'new.js')}:1:structuredClone`]);
+  });
+});
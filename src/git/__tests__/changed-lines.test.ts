@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { execFileSync } from 'child_process';
+import { mkdtemp, writeFile, rm, realpath } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import { ChangedLines } from '../changed-lines.js';
+import type { Violation } from '../../types/index.js';
+
+const root = resolve('/repo');
+
+const diff = [
+  'diff --git a/src/app.ts b/src/app.ts',
+  'index 1111111..2222222 100644',
+  '--- a/src/app.ts',
+  '+++ b/src/app.ts',
+  '@@ -3 +3 @@ const a = 1;',
+  '-const b = 2;',
+  '+const b = structuredClone(a);',
+  '@@ -10,0 +11,2 @@ function f() {',
+  '+  a.at(-1);',
+  '+  a.findLast(Boolean);',
+  '@@ -20,2 +21,0 @@',
+  '-removed();',
+  '-removed();',
+  'diff --git a/src/new.css b/src/new.css',
+  'new file mode 100644',
+  '--- /dev/null',
+  '+++ b/src/new.css',
+  '@@ -0,0 +1,2 @@',
+  '+.a {',
+  '+}'
+].join('\n');
+
+function violation(file: string, line: number): Violation {
+  return {
+    feature: 'structuredClone',
+    featureId: 'structured-clone',
+    file,
+    line,
+    column: 1,
+    context: '',
+    browser: 'safari',
+    required: '15',
+    actual: false,
+    baselineStatus: 'newly',
+    reason: 'Not supported'
+  };
+}
+
+describe('ChangedLines', () => {
+  it('should collect added and modified lines from a zero-context diff', () => {
+    const changed = ChangedLines.fromDiff(diff, root);
+    const app = resolve(root, 'src/app.ts');
+
+    expect(changed.getFiles()).toEqual([app, resolve(root, 'src/new.css')]);
+    expect([1, 2, 3, 4, 10, 11, 12, 13, 21].filter(line => changed.includes(app, line))).toEqual([3, 11, 12]);
+  });
+
+  it('should keep only violations on changed lines', () => {
+    const changed = ChangedLines.fromDiff(diff, root);
+    const violations = [
+      violation(resolve(root, 'src/app.ts'), 3),
+      violation(resolve(root, 'src/app.ts'), 5),
+      violation(resolve(root, 'src/new.css'), 1),
+      violation(resolve(root, 'src/untouched.ts'), 3)
+    ];
+
+    expect(changed.filter(violations).map(v => `${v.file}:${v.line}`)).toEqual([
+      `${resolve(root, 'src/app.ts')}:3`,
+      `${resolve(root, 'src/new.css')}:1`
+    ]);
+  });
+
+  it('should read paths with spaces, quotes and escaped UTF-8 bytes', () => {
+    const changed = ChangedLines.fromDiff([
+      '--- a/src/my file.ts\t',
+      '+++ b/src/my file.ts\t',
+      '@@ -1 +1 @@',
+      '--- /dev/null',
+      '+++ "b/src/caf\\303\\251 \\"menu\\".css"',
+      '@@ -0,0 +2 @@',
+      '+++ "b/b/tab\\there.js"',
+      '@@ -0,0 +3 @@'
+    ].join('\n'), root);
+
+    expect(changed.includes(resolve(root, 'src/my file.ts'), 1)).toBe(true);
+    expect(changed.includes(resolve(root, 'src/café "menu".css'), 2)).toBe(true);
+    expect(changed.includes(resolve(root, 'b/tab\there.js'), 3)).toBe(true);
+  });
+
+  it('should report staged lines of files with spaces regardless of diff prefix settings', async () => {
+    const dir = await realpath(await mkdtemp(join(tmpdir(), 'baseguard-changed-')));
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: dir, stdio: 'pipe' });
+
+    try {
+      git('init', '-q');
+      git('config', 'diff.noprefix', 'true');
+      await writeFile(join(dir, 'my file.ts'), 'a();\nb();\n');
+      await writeFile(join(dir, 'naïve.ts'), 'c();\n');
+      git('add', '.');
+
+      const changed = ChangedLines.staged(dir);
+
+      expect(changed.getFiles().sort()).toEqual([join(dir, 'my file.ts'), join(dir, 'naïve.ts')]);
+      expect(changed.includes(join(dir, 'my file.ts'), 2)).toBe(true);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -1,21 +1,25 @@
-import { execSync } from 'child_process';
+import { execSync, execFileSync } from 'child_process';
+import { join, relative } from 'path';
 import chalk from 'chalk';
-import ora from 'ora';
+import ora, { type Ora } from 'ora';
 import inquirer from 'inquirer';
 import type { AutomationOptions, Violation, Analysis, Fix, Configuration } from '../types/index.js';
 import { ConfigurationManager } from '../core/configuration.js';
 import { BaseGuard } from '../core/baseguard.js';
 import { UIComponents } from '../ui/components.js';
 import { GeminiAnalyzer } from '../ai/gemini-analyzer.js';
+import { ChangedLines } from './changed-lines.js';
 
 /**
  * Automation engine for git workflow integration
  */
 export class AutomationEngine {
+  private static readonly SUPPORTED_EXTENSIONS = ['.js', '.ts', '.jsx', '.tsx', '.vue', '.svelte', '.astro', '.mdx', '.css', '.scss', '.sass', '.less', '.html'];
+
   private config: Configuration;
   private baseGuard: BaseGuard;
 
-  constructor(config?: Configuration) {
+  constructor(config?: Configuration, private readonly cwd: string = process.cwd()) {
     this.config = config || ConfigurationManager.createDefault();
     this.baseGuard = new BaseGuard(this.config);
   }
@@ -93,26 +97,37 @@ export class AutomationEngine {
 
   /**
    * Check violations in staged files (for pre-commit) or all files (for pre-push)
+   *
+   * With `automation.changedLinesOnly`, only violations on lines changed by the
+   * commit or by the commits being pushed are reported.
    */
   private async checkViolations(trigger: 'pre-commit' | 'pre-push'): Promise<Violation[]> {
     const spinner = ora('Checking for compatibility violations...').start();
     
     try {
+      const changedLinesOnly = this.config.automation.changedLinesOnly === true;
+
+      if (trigger === 'pre-push' && changedLinesOnly) {
+        const ranges = await this.getPushRanges();
+        if (ranges) {
+          return await this.checkPushRanges(ranges, spinner);
+        }
+      }
+
       let filesToCheck: string[] = [];
+      let stagedFiles: string[] | null = null;
 
       if (trigger === 'pre-commit') {
         // Get staged files for pre-commit
-        filesToCheck = this.getStagedFiles();
+        stagedFiles = this.getStagedFiles();
+        filesToCheck = stagedFiles ?? this.getAllTrackedFiles();
       } else {
         // For pre-push, check all files in the repository
         filesToCheck = this.getAllTrackedFiles();
       }
 
       // Filter to only supported file types
-      const supportedExtensions = ['.js', '.ts', '.jsx', '.tsx', '.vue', '.svelte', '.css', '.html'];
-      const filteredFiles = filesToCheck.filter(file => 
-        supportedExtensions.some(ext => file.endsWith(ext))
-      );
+      const filteredFiles = filesToCheck.filter(file => this.isSupportedFile(file));
 
       if (filteredFiles.length === 0) {
         spinner.succeed('No supported files to check');
@@ -121,8 +136,14 @@ export class AutomationEngine {
 
       spinner.text = `Checking ${filteredFiles.length} file(s)...`;
 
-      // Use BaseGuard to check violations
-      const violations = await this.baseGuard.checkViolations(filteredFiles);
+      // Check staged content from the index so unstaged edits don't affect the result
+      let violations = stagedFiles
+        ? (await this.baseGuard.checkSources(this.readSources(filteredFiles))).violations
+        : await this.baseGuard.checkViolations(filteredFiles);
+
+      if (stagedFiles && changedLinesOnly) {
+        violations = ChangedLines.staged(this.cwd).filter(violations);
+      }
       
       spinner.succeed(`Checked ${filteredFiles.length} file(s)`);
       return violations;
@@ -134,24 +155,140 @@ export class AutomationEngine {
   }
 
   /**
-   * Get staged files from git
+   * Check the lines changed by each pushed commit range, reading content from the pushed commit
    */
-  private getStagedFiles(): string[] {
+  private async checkPushRanges(ranges: Array<{ from: string | null; to: string }>, spinner: Ora): Promise<Violation[]> {
+    const root = ChangedLines.getRepositoryRoot(this.cwd);
+    const violations: Violation[] = [];
+    let fileCount = 0;
+
+    for (const { from, to } of ranges) {
+      const changed = ChangedLines.between(from, to, this.cwd);
+      const files = changed.getFiles()
+        .map(file => relative(root, file).replace(/\\/g, '/'))
+        .filter(file => this.isSupportedFile(file));
+
+      if (files.length === 0) {
+        continue;
+      }
+
+      fileCount += files.length;
+      spinner.text = `Checking ${files.length} file(s) changed in ${to.substring(0, 7)}...`;
+
+      const result = await this.baseGuard.checkSources(this.readSources(files, to));
+      violations.push(...changed.filter(result.violations));
+    }
+
+    spinner.succeed(fileCount > 0 ? `Checked ${fileCount} file(s) changed in the pushed commits` : 'No supported files changed in the pushed commits');
+    return violations;
+  }
+
+  /**
+   * Commit ranges being pushed, from the refs git passes to the pre-push hook on stdin
+   *
+   * Falls back to the current branch's unpushed commits when run by hand;
+   * returns null when the range can't be determined.
+   */
+  private async getPushRanges(): Promise<Array<{ from: string | null; to: string }> | null> {
+    const zeroSha = /^0+$/;
+    const ranges: Array<{ from: string | null; to: string }> = [];
+
+    for (const line of (await this.readStdin()).split('\n')) {
+      const [, localSha, , remoteSha] = line.trim().split(/\s+/);
+      if (!localSha || !remoteSha || zeroSha.test(localSha)) {
+        continue; // malformed line or branch deletion
+      }
+
+      // A new remote branch is compared against where it forked from the default branch
+      ranges.push({
+        from: zeroSha.test(remoteSha) ? ChangedLines.getMergeBase(localSha, 'origin/HEAD', this.cwd) : remoteSha,
+        to: localSha
+      });
+    }
+
+    if (ranges.length > 0) {
+      return ranges;
+    }
+
+    const upstreamBase = ChangedLines.getMergeBase('@{upstream}', 'HEAD', this.cwd);
+    return upstreamBase ? [{ from: upstreamBase, to: 'HEAD' }] : null;
+  }
+
+  /**
+   * Read piped stdin, giving up if nothing arrives shortly
+   */
+  private readStdin(timeoutMs: number = 1000): Promise<string> {
+    if (process.stdin.isTTY) {
+      return Promise.resolve('');
+    }
+
+    return new Promise(resolve => {
+      let data = '';
+      const finish = (): void => {
+        clearTimeout(timer);
+        process.stdin.removeAllListeners('data');
+        process.stdin.removeAllListeners('end');
+        process.stdin.pause();
+        resolve(data);
+      };
+      const timer = setTimeout(finish, timeoutMs);
+
+      process.stdin.setEncoding('utf-8');
+      process.stdin.on('data', chunk => { data += chunk; });
+      process.stdin.on('end', finish);
+      process.stdin.resume();
+    });
+  }
+
+  /**
+   * Whether a file type is checked by the hooks
+   */
+  private isSupportedFile(file: string): boolean {
+    return AutomationEngine.SUPPORTED_EXTENSIONS.some(ext => file.endsWith(ext));
+  }
+
+  /**
+   * Get staged files from git, relative to the repository root; deletions are excluded
+   */
+  private getStagedFiles(): string[] | null {
     try {
-      const output = execSync('git diff --cached --name-only', { encoding: 'utf-8' });
-      return output.trim().split('\n').filter(file => file.length > 0);
+      const output = execSync('git diff --cached --name-only --diff-filter=ACMR -z', { cwd: this.cwd, encoding: 'utf-8' });
+      return output.split('\0').filter(file => file.length > 0);
     } catch (error) {
       console.warn(chalk.yellow('⚠️ Could not get staged files, checking all files'));
-      return this.getAllTrackedFiles();
+      return null;
     }
   }
 
+  /**
+   * Read each file from the git index, or from a commit when a revision is given
+   */
+  private readSources(files: string[], revision: string = ''): Array<{ filePath: string; content: string }> {
+    const root = execSync('git rev-parse --show-toplevel', { cwd: this.cwd, encoding: 'utf-8' }).trim();
+    const sources: Array<{ filePath: string; content: string }> = [];
+
+    for (const file of files) {
+      try {
+        const content = execFileSync('git', ['show', `${revision}:${file}`], {
+          cwd: root,
+          encoding: 'utf-8',
+          maxBuffer: 64 * 1024 * 1024
+        });
+        sources.push({ filePath: relative(process.cwd(), join(root, file)), content });
+      } catch (error) {
+        console.warn(chalk.yellow(`⚠️ Could not read ${revision ? `${file} at ${revision.substring(0, 7)}` : `staged content of ${file}`}: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      }
+    }
+
+    return sources;
+  }
+
   /**
    * Get all tracked files from git
    */
   private getAllTrackedFiles(): string[] {
     try {
-      const output = execSync('git ls-files', { encoding: 'utf-8' });
+      const output = execSync('git ls-files', { cwd: this.cwd, encoding: 'utf-8' });
       return output.trim().split('\n').filter(file => file.length > 0);
     } catch (error) {
       throw new Error('Could not get tracked files from git');
@@ -251,7 +388,7 @@ export class AutomationEngine {
    */
   private async stageChanges(): Promise<void> {
     try {
-      execSync('git add -u', { stdio: 'ignore' });
+      execSync('git add -u', { cwd: this.cwd, stdio: 'ignore' });
     } catch (error) {
       console.warn(chalk.yellow('⚠️ Could not stage changes automatically'));
     }
@@ -328,7 +465,7 @@ export class AutomationEngine {
    */
   private hasUncommittedChanges(): boolean {
     try {
-      const output = execSync('git status --porcelain', { encoding: 'utf-8' });
+      const output = execSync('git status --porcelain', { cwd: this.cwd, encoding: 'utf-8' });
       return output.trim().length > 0;
     } catch {
       return false;
@@ -340,7 +477,7 @@ export class AutomationEngine {
    */
   private getCurrentBranch(): string {
     try {
-      const output = execSync('git branch --show-current', { encoding: 'utf-8' });
+      const output = execSync('git branch --show-current', { cwd: this.cwd, encoding: 'utf-8' });
       return output.trim();
     } catch {
       return 'unknown';
@@ -352,7 +489,7 @@ export class AutomationEngine {
    */
   private isGitRepository(): boolean {
     try {
-      execSync('git rev-parse --git-dir', { stdio: 'ignore' });
+      execSync('git rev-parse --git-dir', { cwd: this.cwd, stdio: 'ignore' });
       return true;
     } catch {
       return false;
@@ -0,0 +1,187 @@
+import { execFileSync } from 'child_process';
+import { resolve } from 'path';
+import type { Violation } from '../types/index.js';
+
+/**
+ * Lines added or modified relative to a git base, per file
+ *
+ * Used to report only violations on lines a change actually touches, so
+ * editing one line of a legacy file doesn't surface everything else in it.
+ * Files are keyed by absolute path; 'all' marks files that are new in
+ * their entirety (untracked files).
+ */
+export class ChangedLines {
+  private static readonly EMPTY_TREE = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+  // Explicit prefixes so diff.noprefix or diff.mnemonicPrefix in the user's config can't change the headers
+  private static readonly DIFF_ARGS = ['diff', '-U0', '--no-color', '--no-ext-diff', '--src-prefix=a/', '--dst-prefix=b/', '--diff-filter=ACMR'];
+
+  constructor(private readonly files: Map<string, Set<number> | 'all'>) {}
+
+  /**
+   * Lines changed in the working tree since the merge base with a ref, including untracked files
+   */
+  static since(ref: string, cwd: string = process.cwd()): ChangedLines {
+    const root = this.getRepositoryRoot(cwd);
+    const base = this.getMergeBase(ref, 'HEAD', root) ?? this.resolveRef(ref, root);
+
+    const changed = this.fromDiff(this.git([...this.DIFF_ARGS, base], root), root);
+
+    const untracked = this.git(['ls-files', '--others', '--exclude-standard', '-z'], root)
+      .split('\0')
+      .filter(file => file.length > 0);
+    for (const file of untracked) {
+      changed.files.set(resolve(root, file), 'all');
+    }
+
+    return changed;
+  }
+
+  /**
+   * Lines changed in the git index relative to HEAD
+   */
+  static staged(cwd: string = process.cwd()): ChangedLines {
+    const root = this.getRepositoryRoot(cwd);
+    const hasHead = this.tryGit(['rev-parse', '--verify', '--quiet', 'HEAD'], root) !== null;
+    const args = [...this.DIFF_ARGS, '--cached'];
+    return this.fromDiff(this.git(hasHead ? args : [...args, this.EMPTY_TREE], root), root);
+  }
+
+  /**
+   * Lines changed between two commits; a null base treats every line of `to` as new
+   */
+  static between(from: string | null, to: string, cwd: string = process.cwd()): ChangedLines {
+    const root = this.getRepositoryRoot(cwd);
+    return this.fromDiff(this.git([...this.DIFF_ARGS, from ?? this.EMPTY_TREE, to], root), root);
+  }
+
+  /**
+   * Parse `git diff -U0` output into changed line numbers of the new side
+   */
+  static fromDiff(diff: string, root: string): ChangedLines {
+    const files = new Map<string, Set<number> | 'all'>();
+    let current: Set<number> | null = null;
+
+    for (const line of diff.split('\n')) {
+      if (line.startsWith('+++ ')) {
+        const path = this.parseHeaderPath(line.slice(4));
+        if (path === '/dev/null') {
+          current = null;
+          continue;
+        }
+        current = new Set<number>();
+        files.set(resolve(root, path.replace(/^b\//, '')), current);
+        continue;
+      }
+
+      const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/);
+      if (hunk?.[1] && current) {
+        const start = parseInt(hunk[1], 10);
+        const count = hunk[2] === undefined ? 1 : parseInt(hunk[2], 10);
+        for (let lineNumber = start; lineNumber < start + count; lineNumber++) {
+          current.add(lineNumber);
+        }
+      }
+    }
+
+    return new ChangedLines(files);
+  }
+
+  /**
+   * Path from a `---`/`+++` header, with git's quoting and C-style escapes undone
+   *
+   * Git appends a tab to names containing spaces and quotes names with special
+   * or (by default) non-ASCII characters, escaping UTF-8 bytes as octal.
+   */
+  private static parseHeaderPath(header: string): string {
+    const path = header.replace(/\t$/, '');
+    if (!/^".*"$/.test(path)) {
+      return path;
+    }
+
+    const escapes: Record<string, string> = { a: '\x07', b: '\b', t: '\t', n: '\n', v: '\v', f: '\f', r: '\r', '"': '"', '\\': '\\' };
+    const parts: Buffer[] = [];
+    for (const [token, escape] of path.slice(1, -1).matchAll(/\\([0-7]{3}|.)|[^\\]+/gs)) {
+      if (escape === undefined) {
+        parts.push(Buffer.from(token, 'utf-8'));
+      } else if (/^[0-7]{3}$/.test(escape)) {
+        parts.push(Buffer.from([parseInt(escape, 8)]));
+      } else {
+        parts.push(Buffer.from(escapes[escape] ?? escape, 'utf-8'));
+      }
+    }
+    return Buffer.concat(parts).toString('utf-8');
+  }
+
+  /**
+   * Files with changed lines, as absolute paths
+   */
+  getFiles(): string[] {
+    return Array.from(this.files.entries())
+      .filter(([, lines]) => lines === 'all' || lines.size > 0)
+      .map(([file]) => file);
+  }
+
+  /**
+   * Whether a line of a file was added or modified
+   */
+  includes(file: string, line: number): boolean {
+    const lines = this.files.get(resolve(file));
+    return lines === 'all' || (lines?.has(line) ?? false);
+  }
+
+  /**
+   * Keep only violations on changed lines
+   */
+  filter(violations: Violation[]): Violation[] {
+    return violations.filter(violation => this.includes(violation.file, violation.line));
+  }
+
+  /**
+   * Merge base of two commits, or null if none can be found
+   */
+  static getMergeBase(a: string, b: string, cwd: string = process.cwd()): string | null {
+    return this.tryGit(['merge-base', a, b], cwd)?.trim() || null;
+  }
+
+  /**
+   * Top-level directory of the repository containing cwd
+   */
+  static getRepositoryRoot(cwd: string = process.cwd()): string {
+    return this.git(['rev-parse', '--show-toplevel'], cwd).trim();
+  }
+
+  /**
+   * Resolve a ref to a commit, with a readable error for unknown refs
+   */
+  private static resolveRef(ref: string, cwd: string): string {
+    const commit = this.tryGit(['rev-parse', '--verify', '--quiet', `${ref}^{commit}`], cwd)?.trim();
+    if (!commit) {
+      throw new Error(`Unknown git ref "${ref}"`);
+    }
+    return commit;
+  }
+
+  /**
+   * Run git and return stdout
+   */
+  private static git(args: string[], cwd: string): string {
+    return execFileSync('git', args, {
+      cwd,
+      encoding: 'utf-8',
+      maxBuffer: 64 * 1024 * 1024,
+      stdio: ['ignore', 'pipe', 'pipe']
+    });
+  }
+
+  /**
+   * Run git, returning null instead of throwing on failure
+   */
+  private static tryGit(args: string[], cwd: string): string | null {
+    try {
+      return this.git(args, cwd);
+    } catch {
+      return null;
+    }
+  }
+}
+
@@ -1,4 +1,5 @@
 // Git integration exports
 export * from './hook-manager.js';
 export * from './automation-engine.js';
-export * from './github-manager.js';
\ No newline at end of file
+export * from './github-manager.js';
+export * from './changed-lines.js';
@@ -3,6 +3,7 @@ export * from './core/index.js';
 export * from './parsers/index.js';
 export * from './ai/index.js';
 export * from './git/index.js';
+export * from './lsp/index.js';
 export * from './commands/index.js';
 export * from './ui/index.js';
 export * from './types/index.js';
\ No newline at end of file
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { PassThrough } from 'stream';
+import { JsonRpcConnection, JsonRpcErrorCodes, MessageReader } from '../json-rpc.js';
+
+describe('MessageReader', () => {
+  it('should round-trip encoded messages', () => {
+    const reader = new MessageReader();
+    const message = { jsonrpc: '2.0' as const, id: 1, method: 'initialize', params: { rootUri: null } };
+
+    expect(reader.push(MessageReader.encode(message))).toEqual([message]);
+  });
+
+  it('should wait for split messages and read several from one chunk', () => {
+    const reader = new MessageReader();
+    const first = MessageReader.encode({ jsonrpc: '2.0', method: 'initialized', params: {} });
+    const second = MessageReader.encode({ jsonrpc: '2.0', id: 2, method: 'shutdown' });
+    const stream = first + second;
+
+    expect(reader.push(stream.slice(0, 10))).toEqual([]);
+    expect(reader.push(stream.slice(10)).map(message => message.method)).toEqual(['initialized', 'shutdown']);
+  });
+
+  it('should count Content-Length in bytes rather than characters', () => {
+    const reader = new MessageReader();
+    const message = { jsonrpc: '2.0' as const, method: 'window/logMessage', params: { message: '🛡️ gap: 1rem' } };
+    const encoded = Buffer.from(MessageReader.encode(message), 'utf8');
+
+    expect(reader.push(encoded.subarray(0, encoded.length - 1))).toEqual([]);
+    expect(reader.push(encoded.subarray(encoded.length - 1))).toEqual([message]);
+  });
+});
+
+describe('JsonRpcConnection', () => {
+  it('should answer a malformed body with a parse error and keep reading the messages behind it', async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const connection = new JsonRpcConnection(input, output);
+    connection.onRequest<{ value: number }>('double', ({ value }) => value * 2);
+    const listening = connection.listen();
+
+    const broken = '{"jsonrpc":"2.0","id":1,';
+    input.end(
+      `Content-Length: ${broken.length}\r\n\r\n${broken}` +
+      MessageReader.encode({ jsonrpc: '2.0', id: 2, method: 'double', params: { value: 21 } })
+    );
+    await listening;
+    await new Promise(resolve => setImmediate(resolve));
+
+    const responses = new MessageReader().push(output.read() as Buffer);
+    expect(responses).toEqual([
+      { jsonrpc: '2.0', id: null, error: { code: JsonRpcErrorCodes.ParseError, message: expect.any(String) } },
+      { jsonrpc: '2.0', id: 2, result: 42 }
+    ]);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { PassThrough } from 'stream';
+import { pathToFileURL } from 'url';
+import { join } from 'path';
+import { BaseGuardLanguageServer } from '../language-server.js';
+import { ConfigurationManager } from '../../core/configuration.js';
+import type { Violation } from '../../types/index.js';
+
+const violation = (line: number): Violation => ({
+  feature: 'img[loading="lazy"]',
+  featureId: 'loading-lazy',
+  file: 'App.tsx',
+  line,
+  column: 6,
+  context: '',
+  browser: 'safari',
+  required: '14',
+  actual: '15.4',
+  baselineStatus: 'high',
+  reason: 'Not supported'
+});
+
+describe('BaseGuardLanguageServer suppression edits', () => {
+  const server = new BaseGuardLanguageServer(ConfigurationManager.createDefault(), new PassThrough(), new PassThrough());
+  const uri = pathToFileURL(join(process.cwd(), 'App.tsx')).href;
+
+  it('should use a braced comment between JSX tags and a line comment elsewhere', () => {
+    const text = [
+      'export function App({ items }: { items: string[] }) {',
+      '  const last = items.at(-1);',
+      '  return (',
+      '    <main>',
+      '      <img loading="lazy" src={last} />',
+      '    </main>',
+      '  );',
+      '}'
+    ].join('\n');
+
+    expect(server.createSuppressionEdit(text, uri, violation(5)).newText)
+      .toBe('      {/* baseguard-disable-next-line loading-lazy */}\n');
+    expect(server.createSuppressionEdit(text, uri, violation(2)).newText)
+      .toBe('  // baseguard-disable-next-line loading-lazy\n');
+  });
+});
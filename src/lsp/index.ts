@@ -0,0 +1,5 @@
+// Language server exports
+export { BaseGuardLanguageServer } from './language-server.js';
+export type { LspDiagnostic, LspRange } from './language-server.js';
+export { JsonRpcConnection, JsonRpcError, JsonRpcErrorCodes, MessageReader } from './json-rpc.js';
+export type { JsonRpcMessage, RequestMessage, NotificationMessage, ResponseMessage, ResponseError, MalformedMessage } from './json-rpc.js';
@@ -0,0 +1,272 @@
+import type { Readable, Writable } from 'stream';
+
+/**
+ * JSON-RPC 2.0 request, answered with a response carrying the same id
+ */
+export interface RequestMessage {
+  jsonrpc: '2.0';
+  id: number | string;
+  method: string;
+  params?: unknown;
+}
+
+/**
+ * JSON-RPC 2.0 notification, which gets no response
+ */
+export interface NotificationMessage {
+  jsonrpc: '2.0';
+  method: string;
+  params?: unknown;
+}
+
+/**
+ * Error carried by a response
+ */
+export interface ResponseError {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+/**
+ * JSON-RPC 2.0 response; id is null when the request it answers couldn't be read
+ */
+export interface ResponseMessage {
+  jsonrpc: '2.0';
+  id: number | string | null;
+  result?: unknown;
+  error?: ResponseError;
+}
+
+/**
+ * JSON-RPC 2.0 message as exchanged over the Language Server Protocol
+ */
+export type JsonRpcMessage = RequestMessage | NotificationMessage | ResponseMessage;
+
+/**
+ * Framed message whose body couldn't be read, to be answered with an error
+ */
+export interface MalformedMessage {
+  error: ResponseError;
+}
+
+/**
+ * Standard JSON-RPC error codes
+ */
+export const JsonRpcErrorCodes = {
+  ParseError: -32700,
+  InvalidRequest: -32600,
+  MethodNotFound: -32601,
+  InternalError: -32603
+} as const;
+
+/**
+ * Error raised by a request handler that should be sent back to the client as-is
+ */
+export class JsonRpcError extends Error {
+  constructor(public readonly code: number, message: string) {
+    super(message);
+    this.name = 'JsonRpcError';
+  }
+}
+
+/**
+ * Splits a byte stream into messages framed with Content-Length headers
+ */
+export class MessageReader {
+  private buffer: Buffer = Buffer.alloc(0);
+
+  /**
+   * Append a chunk and return every message it completes; a body that isn't
+   * a JSON object is returned as a MalformedMessage without affecting the rest
+   */
+  push(chunk: Buffer | string): Array<JsonRpcMessage | MalformedMessage> {
+    this.buffer = Buffer.concat([this.buffer, typeof chunk === 'string' ? Buffer.from(chunk, 'utf8') : chunk]);
+    const messages: Array<JsonRpcMessage | MalformedMessage> = [];
+
+    let headerEnd: number;
+    while ((headerEnd = this.buffer.indexOf('\r\n\r\n')) !== -1) {
+      const header = this.buffer.subarray(0, headerEnd).toString('ascii');
+      const lengthMatch = header.match(/Content-Length:\s*(\d+)/i);
+      if (!lengthMatch?.[1]) {
+        // Drop the malformed header and resynchronize on the next one
+        this.buffer = this.buffer.subarray(headerEnd + 4);
+        continue;
+      }
+
+      const bodyStart = headerEnd + 4;
+      const bodyEnd = bodyStart + parseInt(lengthMatch[1], 10);
+      if (this.buffer.length < bodyEnd) {
+        break;
+      }
+
+      const body = this.buffer.subarray(bodyStart, bodyEnd).toString('utf8');
+      this.buffer = this.buffer.subarray(bodyEnd);
+      messages.push(MessageReader.decode(body));
+    }
+
+    return messages;
+  }
+
+  /**
+   * Whether push returned a body that couldn't be read
+   */
+  static isMalformed(message: JsonRpcMessage | MalformedMessage): message is MalformedMessage {
+    return !('jsonrpc' in message);
+  }
+
+  /**
+   * Parse one message body
+   */
+  private static decode(body: string): JsonRpcMessage | MalformedMessage {
+    let message: unknown;
+    try {
+      message = JSON.parse(body);
+    } catch (error) {
+      return { error: { code: JsonRpcErrorCodes.ParseError, message: error instanceof Error ? error.message : 'Unknown error' } };
+    }
+
+    if (typeof message !== 'object' || message === null || (message as { jsonrpc?: unknown }).jsonrpc !== '2.0') {
+      return { error: { code: JsonRpcErrorCodes.InvalidRequest, message: 'Expected a JSON-RPC 2.0 message object' } };
+    }
+    return message as JsonRpcMessage;
+  }
+
+  /**
+   * Frame a message for writing
+   */
+  static encode(message: JsonRpcMessage): string {
+    const body = JSON.stringify(message);
+    return `Content-Length: ${Buffer.byteLength(body, 'utf8')}\r\n\r\n${body}`;
+  }
+}
+
+type RequestHandler<P = unknown> = (params: P) => unknown;
+type NotificationHandler<P = unknown> = (params: P) => Promise<void> | void;
+
+/**
+ * Minimal JSON-RPC connection over a pair of streams (stdio for language servers)
+ */
+export class JsonRpcConnection {
+  private readonly reader = new MessageReader();
+  private readonly requestHandlers = new Map<string, RequestHandler>();
+  private readonly notificationHandlers = new Map<string, NotificationHandler>();
+  private readonly pendingRequests = new Map<number, { resolve: (result: unknown) => void; reject: (error: Error) => void }>();
+  private nextRequestId = 1;
+
+  constructor(
+    private readonly input: Readable,
+    private readonly output: Writable
+  ) {}
+
+  /**
+   * Register a handler for a client request; P is the params shape the method's specification defines
+   */
+  onRequest<P>(method: string, handler: RequestHandler<P>): void {
+    this.requestHandlers.set(method, handler as RequestHandler);
+  }
+
+  /**
+   * Register a handler for a client notification; P is the params shape the method's specification defines
+   */
+  onNotification<P>(method: string, handler: NotificationHandler<P>): void {
+    this.notificationHandlers.set(method, handler as NotificationHandler);
+  }
+
+  /**
+   * Send a notification to the client
+   */
+  sendNotification(method: string, params?: unknown): void {
+    this.write({ jsonrpc: '2.0', method, params });
+  }
+
+  /**
+   * Send a request to the client and wait for its response
+   */
+  sendRequest<T = unknown>(method: string, params?: unknown): Promise<T> {
+    const id = this.nextRequestId++;
+    return new Promise<T>((resolve, reject) => {
+      this.pendingRequests.set(id, { resolve: resolve as (result: unknown) => void, reject });
+      this.write({ jsonrpc: '2.0', id, method, params });
+    });
+  }
+
+  /**
+   * Start reading messages; resolves when the input stream ends
+   */
+  listen(): Promise<void> {
+    return new Promise(resolve => {
+      this.input.on('data', (chunk: Buffer) => {
+        for (const message of this.reader.push(chunk)) {
+          if (MessageReader.isMalformed(message)) {
+            this.write({ jsonrpc: '2.0', id: null, error: message.error });
+          } else {
+            void this.dispatch(message);
+          }
+        }
+      });
+      this.input.on('end', () => resolve());
+    });
+  }
+
+  /**
+   * Route a message to its handler or pending request
+   */
+  private async dispatch(message: JsonRpcMessage): Promise<void> {
+    // Response to a request we sent
+    if (!('method' in message)) {
+      const pending = typeof message.id === 'number' ? this.pendingRequests.get(message.id) : undefined;
+      if (pending && typeof message.id === 'number') {
+        this.pendingRequests.delete(message.id);
+        if (message.error) {
+          pending.reject(new Error(message.error.message));
+        } else {
+          pending.resolve(message.result);
+        }
+      }
+      return;
+    }
+
+    // Notification
+    if (!('id' in message) || message.id === undefined || message.id === null) {
+      const handler = this.notificationHandlers.get(message.method);
+      try {
+        await handler?.(message.params);
+      } catch (error) {
+        console.error(`Error handling ${message.method}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+      return;
+    }
+
+    const handler = this.requestHandlers.get(message.method);
+    if (!handler) {
+      this.write({
+        jsonrpc: '2.0',
+        id: message.id,
+        error: { code: JsonRpcErrorCodes.MethodNotFound, message: `Unhandled method ${message.method}` }
+      });
+      return;
+    }
+
+    try {
+      const result = await handler(message.params);
+      this.write({ jsonrpc: '2.0', id: message.id, result: result ?? null });
+    } catch (error) {
+      this.write({
+        jsonrpc: '2.0',
+        id: message.id,
+        error: {
+          code: error instanceof JsonRpcError ? error.code : JsonRpcErrorCodes.InternalError,
+          message: error instanceof Error ? error.message : 'Unknown error'
+        }
+      });
+    }
+  }
+
+  /**
+   * Write a framed message to the output stream
+   */
+  private write(message: JsonRpcMessage): void {
+    this.output.write(MessageReader.encode(message));
+  }
+}
@@ -0,0 +1,503 @@
+import { fileURLToPath } from 'url';
+import { extname } from 'path';
+import type { Readable, Writable } from 'stream';
+import { parse as parseBabel } from '@babel/parser';
+import { JsonRpcConnection, JsonRpcError, JsonRpcErrorCodes } from './json-rpc.js';
+import { ParserManager } from '../parsers/parser-manager.js';
+import { BaselineChecker } from '../core/baseline-checker.js';
+import { BaseGuard } from '../core/baseguard.js';
+import { SuppressionManager } from '../core/suppression-manager.js';
+import { BuildTargets } from '../core/build-targets.js';
+import { PolyfillDetector } from '../core/polyfill-detector.js';
+import { TargetOverrides } from '../core/target-overrides.js';
+import { logger } from '../core/debug-logger.js';
+import { UnifiedCodeFixer } from '../ai/unified-code-fixer.js';
+import { GeminiAnalyzer } from '../ai/gemini-analyzer.js';
+import { FixManager } from '../ai/fix-manager.js';
+import { RuleBasedFixer } from '../ai/rule-based-fixer.js';
+import type { BuildTarget, Configuration, Polyfill, Violation } from '../types/index.js';
+
+/**
+ * Zero-based position in a text document
+ */
+export interface LspRange {
+  start: { line: number; character: number };
+  end: { line: number; character: number };
+}
+
+/**
+ * Diagnostic published for a violation; the violation travels in `data` for code actions
+ */
+export interface LspDiagnostic {
+  range: LspRange;
+  severity: number;
+  source: string;
+  code: string;
+  message: string;
+  data: { violation: Violation };
+}
+
+/**
+ * Quick fix offered for a diagnostic, applied as a workspace edit or a command
+ */
+interface CodeAction {
+  title: string;
+  kind: 'quickfix';
+  diagnostics: LspDiagnostic[];
+  isPreferred?: boolean;
+  edit?: { changes: Record<string, Array<{ range: LspRange; newText: string }>> };
+  command?: { title: string; command: string; arguments: unknown[] };
+}
+
+/**
+ * Params of the textDocument/codeAction request
+ */
+interface CodeActionParams {
+  textDocument: { uri: string };
+  context: { diagnostics: LspDiagnostic[] };
+}
+
+/**
+ * Params of the workspace/executeCommand request
+ */
+interface ExecuteCommandParams {
+  command: string;
+  arguments?: unknown[];
+}
+
+/**
+ * Comment syntax used when inserting suppression directives
+ */
+type CommentStyle = 'line' | 'block' | 'html' | 'jsx';
+
+const DiagnosticSeverity = { Error: 1, Warning: 2 } as const;
+const MessageType = { Error: 1 } as const;
+const TextDocumentSyncKind = { Full: 1 } as const;
+const GENERATE_FIX_COMMAND = 'baseguard.generateFix';
+
+/**
+ * Language server publishing Baseline violations as diagnostics
+ *
+ * Documents are parsed from the editor's buffer on open and change, so
+ * results reflect unsaved edits. Code actions insert a suppression comment,
+ * apply a rule-based fix, or run the configured AI fix pipeline for a single violation.
+ */
+export class BaseGuardLanguageServer {
+  private readonly connection: JsonRpcConnection;
+  private readonly parserManager = new ParserManager();
+  private readonly baselineChecker = new BaselineChecker();
+  private readonly fixManager = new FixManager();
+  private readonly ruleBasedFixer = new RuleBasedFixer();
+  private readonly documents = new Map<string, { text: string; version: number }>();
+  private readonly pendingValidations = new Map<string, NodeJS.Timeout>();
+  private readonly categoryLogger = logger.createCategoryLogger('language-server');
+  private readonly config: Configuration;
+  private buildTargets: BuildTarget[] | null = null;
+  private polyfills: Polyfill[] | null = null;
+  private shutdownRequested = false;
+
+  constructor(
+    config: Configuration,
+    input: Readable = process.stdin,
+    output: Writable = process.stdout,
+    private readonly options: { validationDelayMs?: number } = {}
+  ) {
+    this.config = config;
+    this.connection = new JsonRpcConnection(input, output);
+    this.registerHandlers();
+  }
+
+  /**
+   * Serve requests until the client disconnects
+   */
+  async listen(): Promise<void> {
+    await this.connection.listen();
+  }
+
+  /**
+   * Wire LSP methods to their handlers
+   */
+  private registerHandlers(): void {
+    this.connection.onRequest('initialize', () => ({
+      capabilities: {
+        textDocumentSync: { openClose: true, change: TextDocumentSyncKind.Full },
+        codeActionProvider: { codeActionKinds: ['quickfix'] },
+        executeCommandProvider: { commands: [GENERATE_FIX_COMMAND] }
+      },
+      serverInfo: { name: 'baseguard' }
+    }));
+
+    this.connection.onRequest('shutdown', () => {
+      this.shutdownRequested = true;
+      return null;
+    });
+
+    this.connection.onNotification('exit', () => {
+      process.exit(this.shutdownRequested ? 0 : 1);
+    });
+
+    this.connection.onNotification<{ textDocument: { uri: string; text: string; version: number } }>('textDocument/didOpen', ({ textDocument }) => {
+      this.documents.set(textDocument.uri, { text: textDocument.text, version: textDocument.version });
+      this.scheduleValidation(textDocument.uri);
+    });
+
+    this.connection.onNotification<{
+      textDocument: { uri: string; version: number };
+      contentChanges: Array<{ text: string }>;
+    }>('textDocument/didChange', ({ textDocument, contentChanges }) => {
+      // Full sync: the last change holds the whole document
+      const change = contentChanges[contentChanges.length - 1];
+      if (change) {
+        this.documents.set(textDocument.uri, { text: change.text, version: textDocument.version });
+        this.scheduleValidation(textDocument.uri);
+      }
+    });
+
+    this.connection.onNotification<{ textDocument: { uri: string } }>('textDocument/didClose', ({ textDocument }) => {
+      this.documents.delete(textDocument.uri);
+      this.connection.sendNotification('textDocument/publishDiagnostics', { uri: textDocument.uri, diagnostics: [] });
+    });
+
+    this.connection.onRequest<CodeActionParams>('textDocument/codeAction', params => this.getCodeActions(params));
+    this.connection.onRequest<ExecuteCommandParams>('workspace/executeCommand', params => this.executeCommand(params));
+  }
+
+  /**
+   * Debounce validation while the user is typing
+   */
+  private scheduleValidation(uri: string): void {
+    const pending = this.pendingValidations.get(uri);
+    if (pending) {
+      clearTimeout(pending);
+    }
+
+    this.pendingValidations.set(uri, setTimeout(() => {
+      this.pendingValidations.delete(uri);
+      void this.publishDiagnostics(uri);
+    }, this.options.validationDelayMs ?? 200));
+  }
+
+  /**
+   * Check a document and publish its diagnostics
+   */
+  async publishDiagnostics(uri: string): Promise<LspDiagnostic[]> {
+    const document = this.documents.get(uri);
+    if (!document || !uri.startsWith('file:')) {
+      return [];
+    }
+
+    try {
+      const violations = await this.checkDocument(fileURLToPath(uri), document.text);
+      const lines = document.text.split(/\r?\n/);
+      const diagnostics = violations.map(violation => this.toDiagnostic(violation, lines));
+
+      // Skip stale results if the document changed while checking
+      if (this.documents.get(uri)?.version === document.version) {
+        this.connection.sendNotification('textDocument/publishDiagnostics', {
+          uri,
+          version: document.version,
+          diagnostics
+        });
+      }
+      return diagnostics;
+    } catch (error) {
+      this.categoryLogger.error('Failed to check document', { uri, error });
+      return [];
+    }
+  }
+
+  /**
+   * Parse in-memory content and check it against the configured targets
+   */
+  async checkDocument(filePath: string, text: string): Promise<Violation[]> {
+    const features = await this.parserManager.parseFile(filePath, text);
+    const violations: Violation[] = [];
+    this.buildTargets ??= this.config.reportTranspiledSyntax ? [] : BuildTargets.discover();
+    this.polyfills ??= await PolyfillDetector.detect(this.config.polyfills);
+
+    const effective = TargetOverrides.resolve(filePath, this.config);
+
+    for (const feature of features) {
+      // Syntax the build downlevels never reaches browsers
+      if (BuildTargets.findTranspiler(feature, this.buildTargets)) {
+        continue;
+      }
+
+      const result = await this.baselineChecker.checkCompatibility(feature, effective.targets, this.polyfills);
+      violations.push(...result.violations.filter(violation => !TargetOverrides.isIgnored(violation, effective)));
+    }
+
+    const { violations: active } = await SuppressionManager.partitionViolations(violations, async () => text);
+    return active;
+  }
+
+  /**
+   * Offer suppression, rule-based and AI fix actions for BaseGuard diagnostics
+   */
+  private async getCodeActions(params: CodeActionParams): Promise<CodeAction[]> {
+    const { uri } = params.textDocument;
+    const document = this.documents.get(uri);
+    if (!document) {
+      return [];
+    }
+
+    const canFix = !!(this.config.apiKeys.gemini || this.config.apiKeys.jules);
+    const actions: CodeAction[] = [];
+    const suppressedLines = new Set<string>();
+
+    for (const diagnostic of params.context.diagnostics) {
+      const violation = diagnostic.source === 'baseguard' ? diagnostic.data?.violation : undefined;
+      if (!violation) {
+        continue;
+      }
+
+      // Browsers share a line and feature, so one suppression covers them all
+      const suppressionKey = `${violation.line}:${violation.featureId}`;
+      if (!suppressedLines.has(suppressionKey)) {
+        suppressedLines.add(suppressionKey);
+        actions.push({
+          title: `Suppress ${violation.featureId} on this line`,
+          kind: 'quickfix',
+          diagnostics: [diagnostic],
+          edit: { changes: { [uri]: [this.createSuppressionEdit(document.text, uri, violation)] } }
+        });
+
+        const result = await this.ruleBasedFixer.fixContent(violation, document.text);
+        if (result) {
+          actions.push({
+            title: `${result.description} (BaseGuard)`,
+            kind: 'quickfix',
+            diagnostics: [diagnostic],
+            isPreferred: true,
+            edit: { changes: { [uri]: [{ range: this.getFullRange(document.text), newText: result.content }] } }
+          });
+        }
+      }
+
+      if (canFix) {
+        actions.push({
+          title: `Fix ${violation.feature} for ${violation.browser} with BaseGuard AI`,
+          kind: 'quickfix',
+          diagnostics: [diagnostic],
+          command: { title: 'Generate fix', command: GENERATE_FIX_COMMAND, arguments: [uri, violation] }
+        });
+      }
+    }
+
+    return actions;
+  }
+
+  /**
+   * Run a command offered by a code action
+   */
+  private async executeCommand(params: ExecuteCommandParams): Promise<null> {
+    if (params.command !== GENERATE_FIX_COMMAND) {
+      throw new JsonRpcError(JsonRpcErrorCodes.MethodNotFound, `Unknown command ${params.command}`);
+    }
+
+    const [uri, violation] = (params.arguments || []) as [string, Violation];
+    const document = this.documents.get(uri);
+    if (!document || !violation) {
+      return null;
+    }
+
+    try {
+      const analyzer = this.config.apiKeys.gemini ? new GeminiAnalyzer(this.config.apiKeys.gemini) : null;
+      const [analysis] = analyzer
+        ? await analyzer.analyzeViolations([violation])
+        : await new BaseGuard(this.config).analyzeViolations([violation]);
+
+      if (!analysis) {
+        throw new Error('No analysis available for this violation');
+      }
+
+      const fix = await new UnifiedCodeFixer(this.config).generateFix(violation, analysis);
+      const fixedText = this.fixManager.applyPatchToContent(document.text, fix.patch);
+
+      await this.connection.sendRequest('workspace/applyEdit', {
+        label: `BaseGuard: fix ${violation.feature}`,
+        edit: { changes: { [uri]: [{ range: this.getFullRange(document.text), newText: fixedText }] } }
+      });
+    } catch (error) {
+      this.connection.sendNotification('window/showMessage', {
+        type: MessageType.Error,
+        message: `BaseGuard fix failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      });
+    }
+
+    return null;
+  }
+
+  /**
+   * Convert a violation to a diagnostic spanning the feature on its line
+   */
+  toDiagnostic(violation: Violation, lines: string[]): LspDiagnostic {
+    const line = Math.max(0, violation.line - 1);
+    const text = lines[line] ?? '';
+    const featureStart = text.indexOf(violation.feature);
+    const indent = text.length - text.trimStart().length;
+
+    const range: LspRange = featureStart !== -1
+      ? { start: { line, character: featureStart }, end: { line, character: featureStart + violation.feature.length } }
+      : { start: { line, character: indent }, end: { line, character: text.length } };
+
+    return {
+      range,
+      severity: violation.baselineStatus === 'false' ? DiagnosticSeverity.Error : DiagnosticSeverity.Warning,
+      source: 'baseguard',
+      code: violation.featureId,
+      message: `${violation.reason || `${violation.feature} is not supported in ${violation.browser} ${violation.required}`} (${this.describeBaselineStatus(violation.baselineStatus)})`,
+      data: { violation }
+    };
+  }
+
+  /**
+   * Build an edit inserting a disable-next-line comment above the violation
+   */
+  createSuppressionEdit(text: string, uri: string, violation: Violation): { range: LspRange; newText: string } {
+    const lines = text.split(/\r?\n/);
+    const line = Math.max(0, violation.line - 1);
+    const indent = (lines[line] ?? '').match(/^\s*/)?.[0] ?? '';
+    const directive = `baseguard-disable-next-line ${violation.featureId}`;
+
+    let comment: string;
+    switch (this.getCommentStyle(fileURLToPath(uri), lines, line)) {
+      case 'block':
+        comment = `/* ${directive} */`;
+        break;
+      case 'html':
+        comment = `<!-- ${directive} -->`;
+        break;
+      case 'jsx':
+        comment = `{/* ${directive} */}`;
+        break;
+      default:
+        comment = `// ${directive}`;
+    }
+
+    return {
+      range: { start: { line, character: 0 }, end: { line, character: 0 } },
+      newText: `${indent}${comment}\n`
+    };
+  }
+
+  /**
+   * Pick the comment syntax valid at a line, looking at enclosing <style>/<script> blocks in markup files
+   * and enclosing JSX elements in .jsx/.tsx files
+   */
+  private getCommentStyle(filePath: string, lines: string[], line: number): CommentStyle {
+    const extension = extname(filePath).toLowerCase();
+    if (['.css', '.scss', '.sass', '.less'].includes(extension)) {
+      return 'block';
+    }
+    if (extension === '.mdx') {
+      return 'jsx';
+    }
+    if (extension === '.astro' && this.isInFrontmatter(lines, line)) {
+      return 'line';
+    }
+    if (extension === '.jsx' || extension === '.tsx') {
+      return this.isInJSXChildren(lines, line, extension === '.tsx') ? 'jsx' : 'line';
+    }
+    if (!['.html', '.vue', '.svelte', '.astro'].includes(extension)) {
+      return 'line';
+    }
+
+    for (let i = line - 1; i >= 0; i--) {
+      const current = lines[i] ?? '';
+      if (/<\/(style|script)>/i.test(current)) {
+        return 'html';
+      }
+      if (/<style[\s>]/i.test(current)) {
+        return 'block';
+      }
+      if (/<script[\s>]/i.test(current)) {
+        return 'line';
+      }
+    }
+
+    return 'html';
+  }
+
+  /**
+   * Whether the start of a line sits between a JSX element's tags, where comments need braces;
+   * a document that doesn't parse is treated as plain script
+   */
+  private isInJSXChildren(lines: string[], line: number, typescript: boolean): boolean {
+    type Node = { type: string; start?: number | null; end?: number | null; [key: string]: unknown };
+    let ast: Node;
+    try {
+      ast = parseBabel(lines.join('\n'), {
+        sourceType: 'unambiguous',
+        errorRecovery: true,
+        plugins: typescript ? ['jsx', 'typescript'] : ['jsx']
+      }) as unknown as Node;
+    } catch {
+      return false;
+    }
+
+    const offset = lines.slice(0, line).reduce((total, current) => total + current.length + 1, 0);
+    let inChildren = false;
+    const visit = (node: Node): void => {
+      if ((node.start ?? 0) >= offset || (node.end ?? 0) <= offset) {
+        return;
+      }
+      if (node.type === 'JSXElement' || node.type === 'JSXFragment') {
+        const opening = (node.openingElement ?? node.openingFragment) as Node | undefined;
+        inChildren = (opening?.end ?? Infinity) <= offset;
+      } else if (node.type === 'JSXExpressionContainer' || node.type === 'JSXOpeningElement') {
+        inChildren = false;
+      }
+      for (const value of Object.values(node)) {
+        for (const child of Array.isArray(value) ? value : [value]) {
+          if (child && typeof child === 'object' && typeof (child as Node).type === 'string') {
+            visit(child as Node);
+          }
+        }
+      }
+    };
+    visit(ast);
+
+    return inChildren;
+  }
+
+  /**
+   * Whether a line is inside the --- fenced frontmatter script of an Astro component
+   */
+  private isInFrontmatter(lines: string[], line: number): boolean {
+    if ((lines[0] ?? '').trim() !== '---') {
+      return false;
+    }
+    const close = lines.findIndex((current, index) => index > 0 && current.trim() === '---');
+    return close === -1 || line < close;
+  }
+
+  /**
+   * Describe a violation's Baseline status for diagnostic messages
+   */
+  private describeBaselineStatus(status: string): string {
+    switch (status) {
+      case 'high':
+      case 'widely':
+        return 'Baseline widely available';
+      case 'low':
+      case 'newly':
+        return 'Baseline newly available';
+      case 'false':
+        return 'not Baseline';
+      default:
+        return `Baseline status: ${status}`;
+    }
+  }
+
+  /**
+   * Range covering a whole document
+   */
+  private getFullRange(text: string): LspRange {
+    const lines = text.split(/\r?\n/);
+    return {
+      start: { line: 0, character: 0 },
+      end: { line: lines.length - 1, character: (lines[lines.length - 1] ?? '').length }
+    };
+  }
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { AngularParser } from '../angular-parser.js';
+import type { DetectedFeature } from '../../types/index.js';
+
+const summarize = (features: DetectedFeature[]): string[] =>
+  features.map(f => `${f.line}:${f.column}:${f.type}:${f.feature}`);
+
+describe('AngularParser', () => {
+  const parser = new AngularParser();
+
+  it('should only claim component files', () => {
+    expect(parser.canParse('src/app/card.component.ts')).toBe(true);
+    expect(parser.canParse('src/app/card.component.html')).toBe(true);
+    expect(parser.canParse('src/app/card.service.ts')).toBe(false);
+    expect(parser.canParse('src/index.html')).toBe(false);
+  });
+
+  it('should parse inline templates and styles in place and skip Angular APIs', async () => {
+    const ts = [
+      "import { Component, signal } from '@angular/core';",
+      '',
+      '@Component({',
+      "  selector: 'app-card',",
+      '  template: `<dialog [open]="open()">',
+      '    <img [ngSrc]="src" loading="lazy" (load)="loaded.set(true)">',
+      '  </dialog>`,',
+      '  styles: [`:host { container-type: inline-size; }`]',
+      '})',
+      'export class CardComponent {',
+      '  open = signal(false);',
+      '  copy = structuredClone({});',
+      '}'
+    ].join('\n');
+
+    const features = summarize(await parser.parseFeatures(ts, 'card.component.ts'));
+
+    expect(features).toEqual(expect.arrayContaining([
+      '5:13:html:dialog',
+      '6:23:html:img[loading="lazy"]',
+      '8:21:css:container-type',
+      '12:9:js:structuredClone'
+    ]));
+    expect(features.some(f => f.endsWith(':signal'))).toBe(false);
+  });
+
+  it('should ignore directives, bindings and control flow in external templates', async () => {
+    const html = [
+      '@if (items().length > 0) {',
+      '  <ul>',
+      '    @for (item of items(); track item.id) {',
+      '      <li *ngIf="item.visible && count > 1" [class.active]="item.active">{{ item.name }}</li>',
+      '    } @empty {',
+      '      <details open><summary>None</summary></details>',
+      '    }',
+      '  </ul>',
+      '}',
+      '@let total = items().length;',
+      '<input',
+      '  [(ngModel)]="query"',
+      '  enterkeyhint="search"',
+      '  [style.aspect-ratio]="ratio">',
+      `<p style="display: contents">{{ '<dialog>' }}</p>`
+    ].join('\n');
+
+    const features = summarize(await parser.parseFeatures(html, 'list.component.html'));
+
+    expect(features).toEqual([
+      '6:6:html:details',
+      '6:15:html:details[open]',
+      '6:20:html:summary',
+      '13:2:html:input[enterkeyhint]',
+      '15:11:css:display',
+      '15:11:css:display: contents',
+      '14:2:css:aspect-ratio'
+    ]);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { ReactParser } from '../react-parser.js';
+import { VanillaParser } from '../vanilla-parser.js';
+import type { DetectedFeature } from '../../types/index.js';
+
+const cssFeatures = (features: DetectedFeature[]): string[] =>
+  features.filter(f => f.type === 'css').map(f => `${f.line}:${f.column}:${f.feature}`);
+
+describe('CSSInJS', () => {
+  it('should map styled-components templates with interpolations back to the JSX file', async () => {
+    const tsx = [
+      "import styled, { css } from 'styled-components';",
+      '',
+      'const truncate = css`text-overflow: ellipsis;`;',
+      'export const Card = styled.div<{ gap: number }>`',
+      '  ${truncate}',
+      '  gap: ${p => p.gap}px;',
+      '  ${Button}:hover & { color: red; }',
+      '  &:has(> img) {',
+      '    aspect-ratio: 16 / 9;',
+      '  }',
+      '  @supports (container-type: inline-size) {',
+      '    container-type: inline-size;',
+      '  }',
+      '`;'
+    ].join('\n');
+
+    const features = await new ReactParser().parseFeatures(tsx, 'Card.tsx');
+
+    expect(cssFeatures(features)).toEqual(expect.arrayContaining([
+      '3:22:text-overflow',
+      '6:3:gap',
+      '7:23:color',
+      '8:3::has()',
+      '9:5:aspect-ratio',
+      '11:3:@supports',
+      '12:5:container-type'
+    ]));
+    expect(features.find(f => f.feature === 'container-type')).toMatchObject({
+      guarded: true,
+      context: 'container-type: inline-size;'
+    });
+    expect(cssFeatures(features).some(f => f.includes('_'))).toBe(false);
+  });
+
+  it('should read Emotion object styles with camelCase and nested keys', async () => {
+    const jsx = [
+      "import { css } from '@emotion/react';",
+      'const card = css({',
+      "  containerType: 'inline-size',",
+      "  WebkitBackdropFilter: 'blur(4px)',",
+      "  '&:has(img)': { aspectRatio: 1 },",
+      "  '@container (min-width: 400px)': { gap: 8 }",
+      '});',
+      'export const App = () => <div css={card} style={{ "text-wrap": "balance" }} />;'
+    ].join('\n');
+
+    const features = cssFeatures(await new ReactParser().parseFeatures(jsx, 'App.jsx'));
+
+    expect(features).toEqual(expect.arrayContaining([
+      '3:3:container-type',
+      '4:3:-webkit-backdrop-filter',
+      '5:3::has()',
+      '5:19:aspect-ratio',
+      '6:3:@container',
+      '6:38:gap'
+    ]));
+    expect(features.some(f => f.endsWith(':containerType'))).toBe(false);
+    expect(features.some(f => f.endsWith('text-wrap'))).toBe(true);
+  });
+
+  it('should parse Lit css templates in TypeScript files', async () => {
+    const ts = [
+      "import { LitElement, css } from 'lit';",
+      'export class MyCard extends LitElement {',
+      '  static styles = css`',
+      '    :host { container-type: inline-size; }',
+      '    ::slotted(img) { aspect-ratio: ${unsafeCSS(ratio)}; }',
+      '  `;',
+      '}'
+    ].join('\n');
+
+    const features = cssFeatures(await new VanillaParser().parseFeatures(ts, 'my-card.ts'));
+
+    expect(features).toEqual(expect.arrayContaining(['4:13:container-type', '5:22:aspect-ratio']));
+  });
+});
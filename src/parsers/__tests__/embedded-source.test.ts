@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { AstroParser } from '../astro-parser.js';
+import { MDXParser } from '../mdx-parser.js';
+import { EmbeddedSource } from '../embedded-source.js';
+import type { DetectedFeature } from '../../types/index.js';
+
+const summarize = (features: DetectedFeature[]): string[] =>
+  features.map(f => `${f.line}:${f.type}:${f.feature}`);
+
+describe('EmbeddedSource', () => {
+  it('should find outermost expressions outside strings and comments', () => {
+    const content = "<p title={'}'}>{items.map(i => <b>{i}</b>)}</p>{/* note */}\\{not}";
+
+    expect(EmbeddedSource.findExpressions(content).map(range => content.slice(range.start, range.end)))
+      .toEqual(["{'}'}", '{items.map(i => <b>{i}</b>)}']);
+  });
+
+  it('should parse Astro frontmatter, template, expressions and blocks on their own lines', async () => {
+    const astro = [
+      '---',
+      "import Layout from '../layouts/Layout.astro';",
+      'const copy = structuredClone(Astro.props);',
+      '---',
+      '<Layout>',
+      '  <dialog open>',
+      '    {copy.items.map(item => <img src={item} loading="lazy" />)}',
+      '  </dialog>',
+      '  <button onclick={() => requestIdleCallback(() => copy)}>Copy</button>',
+      '</Layout>',
+      '<style lang="scss">',
+      '  .card { &:has(img) { container-type: inline-size; } }',
+      '</style>',
+      '<script>',
+      '  new ResizeObserver(() => {}).observe(document.body);',
+      '</script>'
+    ].join('\n');
+
+    const features = await new AstroParser().parseFeatures(astro, 'Card.astro');
+
+    expect(summarize(features)).toEqual(expect.arrayContaining([
+      '3:js:structuredClone',
+      '6:html:dialog',
+      '7:html:img[loading="lazy"]',
+      '9:js:requestIdleCallback',
+      '12:css:container-type',
+      '15:js:ResizeObserver'
+    ]));
+    expect(summarize(features).some(f => f.endsWith(':Astro'))).toBe(false);
+    expect(features.find(f => f.feature === 'structuredClone')?.context).toBe('const copy = structuredClone(Astro.props);');
+  });
+
+  it('should parse MDX ESM, JSX and expressions but not Markdown code', async () => {
+    const mdx = [
+      '---',
+      'title: <dialog> in docs',
+      '---',
+      "import { Chart } from './chart.jsx';",
+      'export const data = structuredClone(raw);',
+      '',
+      '# Charts `<dialog>`',
+      '',
+      '```js',
+      'const text = await navigator.clipboard.readText();',
+      '```',
+      '',
+      '<details open>',
+      '  <Chart data={data} onLoad={() => requestIdleCallback(draw)} />',
+      '</details>',
+      '',
+      'Rendered {queueMicrotask(count)} times.'
+    ].join('\n');
+
+    const features = summarize(await new MDXParser().parseFeatures(mdx, 'charts.mdx'));
+
+    expect(features).toEqual(expect.arrayContaining([
+      '5:js:structuredClone',
+      '13:html:details',
+      '14:js:requestIdleCallback',
+      '17:js:queueMicrotask'
+    ]));
+    expect(features.some(f => f.startsWith('2:') || f.startsWith('7:') || f.startsWith('10:'))).toBe(false);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { VanillaParser } from '../vanilla-parser.js';
+import { BaseGuard } from '../../core/baseguard.js';
+import { ConfigurationManager } from '../../core/configuration.js';
+
+describe('GuardDetector', () => {
+  const parser = new VanillaParser();
+
+  describe('CSS @supports guards', () => {
+    it('should mark properties tested by an enclosing @supports as guarded', async () => {
+      const css = [
+        '.card { display: block; }',
+        '@supports (container-type: inline-size) {',
+        '  .card { container-type: inline-size; }',
+        '}',
+        '.other { container-type: size; }'
+      ].join('\n');
+
+      const features = await parser.parseFeatures(css, 'card.css');
+      const containerTypes = features.filter(f => f.feature === 'container-type');
+
+      expect(containerTypes.map(f => [f.line, !!f.guarded])).toEqual([[3, true], [5, false]]);
+      expect(containerTypes[0]?.guard).toBe('@supports (container-type: inline-size)');
+    });
+
+    it('should not guard features under a negated @supports condition', async () => {
+      const css = '@supports not (container-type: inline-size) {\n  .card { container-type: inline-size; }\n}';
+
+      const features = await parser.parseFeatures(css, 'card.css');
+
+      expect(features.find(f => f.feature === 'container-type')?.guarded).toBeUndefined();
+    });
+  });
+
+  describe('JS feature-detection guards', () => {
+    const guardedLines = async (js: string): Promise<number[]> => {
+      const features = await parser.parseFeatures(js, 'app.js');
+      return features.filter(f => f.guarded).map(f => f.line);
+    };
+
+    it('should recognize in, typeof and truthiness checks', async () => {
+      const js = [
+        "if ('requestIdleCallback' in window) {",
+        '  requestIdleCallback(work);',
+        '}',
+        "if (typeof structuredClone !== 'undefined') copy = structuredClone(value);",
+        'const id = window.requestIdleCallback ? requestIdleCallback(work) : setTimeout(work, 1);',
+        'requestIdleCallback(work);'
+      ].join('\n');
+
+      const lines = await guardedLines(js);
+
+      expect(lines).toEqual(expect.arrayContaining([2, 4, 5]));
+      expect(lines).not.toContain(6);
+    });
+
+    it('should treat code after an early return as guarded', async () => {
+      const js = [
+        'function schedule(work) {',
+        "  if (!('requestIdleCallback' in window)) return;",
+        '  requestIdleCallback(work);',
+        '}'
+      ].join('\n');
+
+      expect(await guardedLines(js)).toContain(3);
+    });
+
+    it('should not guard APIs unrelated to the condition', async () => {
+      const js = "if ('requestIdleCallback' in window) {\n  structuredClone(value);\n}";
+
+      expect(await guardedLines(js)).toEqual([]);
+    });
+
+    it('should only let a guard cover members of the specific API it names', async () => {
+      const js = [
+        'if (navigator) {',
+        '  navigator.clipboard.writeText(text);',
+        '}',
+        'if (navigator.clipboard) {',
+        '  navigator.clipboard.writeText(text);',
+        '}'
+      ].join('\n');
+
+      expect(await guardedLines(js)).toEqual([5]);
+    });
+  });
+
+  it('should return guarded violations with their guard instead of dropping them', async () => {
+    const config = { ...ConfigurationManager.createDefault(), targets: [{ browser: 'safari', minVersion: '14' }] };
+    const baseGuard = new BaseGuard(config);
+    const js = "if (typeof structuredClone === 'function') {\n  copy = structuredClone(value);\n}\nstructuredClone(value);";
+
+    try {
+      const { violations, guarded } = await baseGuard.checkSources([{ filePath: 'app.js', content: js }]);
+
+      expect(violations.map(v => `${v.line}:${v.feature}`)).toEqual(['4:structuredClone']);
+      expect(guarded?.map(({ violation, guard }) => `${violation.line}:${violation.feature} ← ${guard}`))
+        .toEqual(["2:structuredClone ← typeof structuredClone === 'function'"]);
+    } finally {
+      await baseGuard.cleanup();
+    }
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { VanillaParser } from '../vanilla-parser.js';
+import { VueParser } from '../vue-parser.js';
+import { SvelteParser } from '../svelte-parser.js';
+import { StyleSyntax } from '../style-syntax.js';
+import type { DetectedFeature } from '../../types/index.js';
+
+const summarize = (features: DetectedFeature[]): string[] =>
+  features.filter(f => f.type === 'css').map(f => `${f.line}:${f.feature}`);
+
+const scss = [
+  '@use "sass:math";',
+  '$gap: 1rem;',
+  '@mixin card { container-type: inline-size; }',
+  '.card {',
+  '  @include card;',
+  '  gap: $gap;',
+  '  &:has(> img) { aspect-ratio: 16 / 9; }',
+  '  #{$side}-margin: 0;',
+  '  @container (min-width: 400px) { color: red; }',
+  '}'
+].join('\n');
+
+describe('StyleSyntax', () => {
+  const parser = new VanillaParser();
+
+  it('should parse nested SCSS and skip Sass-only at-rules and variables', async () => {
+    const features = summarize(await parser.parseFeatures(scss, 'card.scss'));
+
+    expect(features).toContain('3:container-type');
+    expect(features).toContain('7:aspect-ratio');
+    expect(features).toContain('9:@container');
+    expect(features.some(f => /@(use|mixin|include)$|\$/.test(f))).toBe(false);
+  });
+
+  it('should parse Less mixins, guards and variables', async () => {
+    const less = [
+      '@radius: 4px;',
+      '.rounded(@r: @radius) { border-radius: @r; }',
+      '.card when (@mode = dark) {',
+      '  .rounded();',
+      '  container-type: inline-size;',
+      '  @media (min-width: 400px) { aspect-ratio: 1; }',
+      '}'
+    ].join('\n');
+
+    const features = summarize(await parser.parseFeatures(less, 'card.less'));
+
+    expect(features).toEqual(expect.arrayContaining(['5:container-type', '6:@media', '6:aspect-ratio']));
+    expect(features.some(f => f.includes('@radius'))).toBe(false);
+  });
+
+  it('should convert indented Sass without moving lines', async () => {
+    const sass = [
+      '// layout',
+      '=card',
+      '  container-type: inline-size',
+      '.card,',
+      '.panel',
+      '  +card',
+      '  &:has(img)',
+      '    aspect-ratio: 1',
+      '',
+      '@supports (gap: 1rem)',
+      '  .grid',
+      '    gap: 1rem'
+    ].join('\n');
+
+    expect(StyleSyntax.sassToScss(sass).split('\n')).toHaveLength(12);
+
+    const features = summarize(await parser.parseFeatures(sass, 'card.sass'));
+
+    expect(features).toEqual(expect.arrayContaining(['3:container-type', '8:aspect-ratio', '10:@supports', '12:gap']));
+  });
+
+  it('should parse <style lang="scss"> blocks in Vue and Svelte components', async () => {
+    const block = `<style lang="scss">\n${scss}\n</style>\n`;
+    const vue = `<template><div class="card" /></template>\n${block}`;
+    const svelte = `<script>let open = false;</script>\n<div class="card"></div>\n${block}`;
+
+    const vueFeatures = summarize(await new VueParser().parseFeatures(vue, 'Card.vue'));
+    const svelteFeatures = summarize(await new SvelteParser().parseFeatures(svelte, 'Card.svelte'));
+
+    expect(vueFeatures).toEqual(expect.arrayContaining(['5:container-type', '11:@container']));
+    expect(svelteFeatures).toEqual(expect.arrayContaining(['6:container-type', '12:@container']));
+    expect([...vueFeatures, ...svelteFeatures].some(f => /@include|\$gap/.test(f))).toBe(false);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { TypeAwareAnalyzer } from '../type-aware-analyzer.js';
+import { FeatureIndex } from '../../core/feature-index.js';
+import { BaseGuard } from '../../core/baseguard.js';
+import { ConfigurationManager } from '../../core/configuration.js';
+
+const index = new FeatureIndex({
+  'array-at': { compat_features: ['javascript.builtins.Array.at', 'javascript.builtins.String.at'] },
+  'array-findlast': { compat_features: ['javascript.builtins.Array.findLast'] },
+  'object-hasown': { compat_features: ['javascript.builtins.Object.hasOwn'] }
+});
+
+describe('TypeAwareAnalyzer', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'baseguard-types-'));
+    vi.spyOn(FeatureIndex, 'load').mockResolvedValue(index);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should report built-in methods only on built-in receivers, statics included', async () => {
+    await writeFile(join(dir, 'tsconfig.json'), JSON.stringify({ compilerOptions: { target: 'ES2023', strict: true }, files: [] }));
+    const file = join(dir, 'app.ts');
+    const source = [
+      'class Playlist { at(index: number) { return index; } }',
+      'const list = [1, 2, 3];',
+      'list.at(-1);',
+      'new Playlist().at(0);',
+      "'abc'.at(0);",
+      'list.findLast(n => n > 1);',
+      "Object.hasOwn(list, 'length');"
+    ].join('\n');
+
+    const analyzer = await TypeAwareAnalyzer.create(dir, new Map([[file, source]]));
+    const features = analyzer?.analyze(file) ?? [];
+
+    expect(features.map(feature => `${feature.line}:${feature.feature}:${feature.featureId}`)).toEqual([
+      '3:Array.prototype.at:array-at',
+      '5:String.prototype.at:array-at',
+      '6:Array.prototype.findLast:array-findlast',
+      '7:Object.hasOwn:object-hasown'
+    ]);
+  });
+
+  it('should reuse unchanged source files from the previous program', async () => {
+    await writeFile(join(dir, 'tsconfig.json'), JSON.stringify({ compilerOptions: { target: 'ES2023' }, files: [] }));
+    const file = join(dir, 'app.ts');
+    const program = (analyzer: TypeAwareAnalyzer | null) =>
+      (analyzer as unknown as { program: import('typescript').Program }).program;
+    const lib = (analyzer: TypeAwareAnalyzer | null) =>
+      program(analyzer).getSourceFiles().find(sourceFile => sourceFile.fileName.endsWith('lib.es5.d.ts'));
+
+    const first = await TypeAwareAnalyzer.create(dir, new Map([[file, 'const a = 1;']]));
+    const second = await TypeAwareAnalyzer.create(dir, new Map([[file, '[1].at(0);']]));
+
+    expect(lib(second)).toBeDefined();
+    expect(lib(second)).toBe(lib(first));
+    expect(second?.analyze(file).map(feature => feature.feature)).toEqual(['Array.prototype.at']);
+  });
+
+  it('should keep calls behind feature detection guarded with typeAware on', async () => {
+    await writeFile(join(dir, 'tsconfig.json'), JSON.stringify({ compilerOptions: { target: 'ES2023' }, files: [] }));
+    vi.restoreAllMocks();
+    vi.spyOn(process, 'cwd').mockReturnValue(dir);
+    const file = join(dir, 'app.ts');
+    const source = [
+      'export function last(list: number[]) {',
+      "  if ('at' in Array.prototype) {",
+      '    return list.at(-1);',
+      '  }',
+      '  return list.at(0);',
+      '}'
+    ].join('\n');
+
+    const config = { ...ConfigurationManager.createDefault(), targets: [{ browser: 'safari', minVersion: '14' }], typeAware: true };
+    const baseGuard = new BaseGuard(config);
+    try {
+      const { violations, guarded } = await baseGuard.checkSources([{ filePath: file, content: source }]);
+
+      expect(violations.map(v => `${v.line}:${v.feature}`)).toEqual(['5:Array.prototype.at']);
+      expect(guarded?.map(({ violation }) => `${violation.line}:${violation.feature}`)).toEqual(['3:Array.prototype.at']);
+    } finally {
+      await baseGuard.cleanup();
+    }
+  });
+
+  it('should need a tsconfig.json', async () => {
+    expect(await TypeAwareAnalyzer.create(dir)).toBeNull();
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, it, expect } from 'vitest';
+import { VanillaParser } from '../vanilla-parser.js';
+import { SvelteParser } from '../svelte-parser.js';
+import { FeatureIndex } from '../../core/feature-index.js';
+import type { DetectedFeature } from '../../types/index.js';
+
+const summarize = (features: DetectedFeature[]): string[] =>
+  features.map(f => `${f.line}:${f.column}:${f.type}:${f.feature}`);
+
+describe('VanillaParser HTML', () => {
+  const parser = new VanillaParser();
+
+  it('should read multi-line tags and attribute values at their own positions', async () => {
+    const html = [
+      '<search>',
+      '  <img src="a.png"',
+      '       loading="lazy" fetchpriority="high">',
+      '  <img src="b.png" loading="eager" data-type="x">',
+      '</search>',
+      '<dialog closedby="any" popover>',
+      '  <div inert><input enterkeyhint="send"></div>',
+      '</dialog>'
+    ].join('\n');
+
+    const features = summarize(await parser.parseFeatures(html, 'index.html'));
+
+    expect(features).toEqual(expect.arrayContaining([
+      '1:0:html:search',
+      '3:7:html:img[loading="lazy"]',
+      '3:22:html:img[fetchpriority]',
+      '6:0:html:dialog',
+      '6:8:html:dialog[closedby]',
+      '6:23:html:dialog[popover]',
+      '7:7:html:div[inert]',
+      '7:20:html:input[enterkeyhint]'
+    ]));
+    // loading="eager" is the default, and data-type is not the type attribute
+    expect(features.filter(f => f.startsWith('4:'))).toEqual([]);
+  });
+
+  it('should parse inline blocks in place and respect script types', async () => {
+    const html = [
+      '<!doctype html>',
+      '<style>',
+      '  .card { container-type: inline-size; }',
+      '</style>',
+      '<script type="module">const data = structuredClone(window.data);</script>',
+      '<script nomodule>',
+      '  var legacy = structuredClone({});',
+      '</script>',
+      '<script type="application/json">{"structuredClone": true}</script>',
+      '<script>',
+      '  requestIdleCallback(() => {});',
+      '</script>'
+    ].join('\n');
+
+    const features = summarize(await parser.parseFeatures(html, 'index.html'));
+
+    expect(features).toEqual(expect.arrayContaining([
+      '3:11:css:container-type',
+      '5:0:html:js-modules',
+      '5:35:js:structuredClone',
+      '11:2:js:requestIdleCallback'
+    ]));
+    expect(features.filter(f => f.endsWith(':structuredClone'))).toHaveLength(1);
+  });
+});
+
+describe('VanillaParser HTML style attributes', () => {
+  const parser = new VanillaParser();
+
+  it('should parse style attributes in place and map closedby and display: contents', async () => {
+    const html = [
+      '<dialog closedby="closerequest">',
+      '  <div style="display: contents; aspect-ratio: 1">',
+      '    <p style="color: red">Hi</p>',
+      '  </div>',
+      '</dialog>'
+    ].join('\n');
+
+    const features = await parser.parseFeatures(html, 'index.html');
+    const index = await FeatureIndex.load();
+
+    expect(summarize(features)).toEqual(expect.arrayContaining([
+      '1:8:html:dialog[closedby]',
+      '2:15:css:display: contents',
+      '2:34:css:aspect-ratio'
+    ]));
+    expect(summarize(features).filter(f => f.startsWith('3:'))).toEqual([]);
+    expect(index.lookup('dialog[closedby]', 'html')).toBe('dialog-closedby');
+    expect(index.lookup('display: contents', 'css')).toBe('display-contents');
+  });
+});
+
+describe('VanillaParser HTML attributes with real web-features data', () => {
+  const parser = new VanillaParser();
+
+  it('should resolve attributes that several elements share through their element', async () => {
+    const html = '<img src="a.png" loading="lazy">\n<video loading="lazy"></video>\n<div popover inert></div>';
+
+    const features = await parser.parseFeatures(html, 'index.html');
+    const index = await FeatureIndex.load();
+
+    expect(features.filter(f => f.type === 'html').map(f => `${f.feature} -> ${index.lookup(f.feature, 'html')}`)).toEqual([
+      'img[loading="lazy"] -> loading-lazy',
+      'video -> video',
+      'video[loading="lazy"] -> loading-lazy-media',
+      'div[popover] -> popover',
+      'div[inert] -> inert'
+    ]);
+  });
+});
+
+describe('VanillaParser CSS', () => {
+  const parser = new VanillaParser();
+
+  it('should report value keywords, color functions, units and media features', async () => {
+    const css = [
+      '.header { position: sticky; top: 0; }',
+      '.title { text-wrap: balance; font-family: "oklch(1 0 0)"; }',
+      '.card { color: color-mix(in oklch, red, blue); background: oklab(from var(--brand) l a b); }',
+      '.hero { height: 100dvh; margin: 0.5lh; background: url(bg-10vh.png); }',
+      '@media (prefers-color-scheme: dark) and (width >= 600px) { .a { color: white; } }',
+      '@supports (height: 100svh) { .full { height: 100svh; } }'
+    ].join('\n');
+
+    const features = await parser.parseFeatures(css, 'styles.css');
+    const names = summarize(features);
+
+    expect(names).toEqual(expect.arrayContaining([
+      '1:11:css:position: sticky',
+      '2:10:css:text-wrap: balance',
+      '3:9:css:color-mix()',
+      '3:48:css:oklab()',
+      '3:48:css:oklab(from)',
+      '4:9:css:dvh',
+      '4:25:css:lh',
+      '5:1:css:@media (prefers-color-scheme)',
+      '5:1:css:@media range syntax'
+    ]));
+    // Strings and URLs are not values
+    expect(names.filter(f => f.startsWith('2:') && f.includes('oklch'))).toEqual([]);
+    expect(names.some(f => f.endsWith(':vh'))).toBe(false);
+    expect(features.find(f => f.feature === 'svh')?.guarded).toBe(true);
+  });
+
+  it('should report a property and its own value keyword once', async () => {
+    const css = '.card { container-type: inline-size; display: grid; }';
+
+    const names = summarize(await parser.parseFeatures(css, 'styles.css'));
+
+    expect(names.filter(f => f.includes('container-type'))).toEqual(['1:9:css:container-type']);
+  });
+});
+
+describe('VanillaParser JS', () => {
+  const parser = new VanillaParser();
+
+  it('should only report APIs reached through globals', async () => {
+    const js = [
+      "import { get } from './store.js';",
+      'const URL = createRouter();',
+      'const cache = new Map();',
+      'cache.get(key);',
+      'get(key);',
+      'URL.parse(path);',
+      'this.open();',
+      'navigator.clipboard.writeText(text);',
+      'document.startViewTransition(update);',
+      'const observer = new window.ResizeObserver(onResize);',
+      'function render(structuredClone) {',
+      '  return structuredClone(state);',
+      '}',
+      'items.at(-1);',
+      "Object.hasOwn(state, 'id');"
+    ].join('\n');
+
+    const features = summarize(await parser.parseFeatures(js, 'app.js')).filter(f => f.includes(':js:'));
+
+    expect(features).toEqual(expect.arrayContaining([
+      '8:0:js:navigator.clipboard.writeText',
+      '9:0:js:document.startViewTransition',
+      '10:17:js:ResizeObserver',
+      '14:0:js:Array.prototype.at',
+      '15:0:js:Object.hasOwn'
+    ]));
+    expect(features.filter(f => /^([1-7]|1[1-3]):/.test(f))).toEqual(['3:14:js:Map']);
+  });
+
+  it('should only report top-level await outside functions', async () => {
+    const js = [
+      'async function load() {',
+      '  const response = await fetch(url);',
+      '  return async () => await response.json();',
+      '}',
+      'const config = await load();'
+    ].join('\n');
+    const svelte = `<script>\n  async function load() {\n    const data = await fetch(url);\n  }\n</script>`;
+
+    const features = summarize(await parser.parseFeatures(js, 'app.js'));
+    const svelteFeatures = summarize(await new SvelteParser().parseFeatures(svelte, 'App.svelte'));
+
+    expect(features.filter(f => f.includes('top-level-await'))).toEqual(['5:15:js:top-level-await']);
+    expect(svelteFeatures.filter(f => f.includes('top-level-await'))).toEqual([]);
+  });
+});
@@ -0,0 +1,216 @@
+import { Parser } from './parser.js';
+import type { DetectedFeature } from '../types/index.js';
+import { parse as parseBabel } from '@babel/parser';
+import * as t from '@babel/types';
+import { VanillaParser } from './vanilla-parser.js';
+
+/**
+ * Angular component parser - extracts ALL web platform features from
+ * `*.component.ts` files and `*.component.html` templates while ignoring
+ * Angular-specific APIs, directives, bindings and control flow blocks
+ *
+ * Inline `template` and `styles` are parsed in place. Files referenced by
+ * `templateUrl` and `styleUrl(s)` are checked as files of their own: templates
+ * named `*.component.html` by this parser and stylesheets by VanillaParser.
+ */
+export class AngularParser extends Parser {
+  private readonly ANGULAR_SPECIFIC_APIS = new Set([
+    // Signals and dependency injection
+    'signal', 'computed', 'effect', 'untracked', 'linkedSignal', 'resource', 'inject',
+    'input', 'output', 'model', 'viewChild', 'viewChildren', 'contentChild', 'contentChildren',
+
+    // RxJS interop
+    'subscribe', 'toSignal', 'toObservable'
+  ]);
+
+  // @if, @for, @switch, @defer and their branches, plus @let declarations
+  private readonly CONTROL_FLOW_BLOCKS = /(^|[^\w@])@(if|else if|else|for|switch|case|default|defer|placeholder|loading|error|empty|let)\b/g;
+
+  // [style.aspect-ratio]="ratio" and [style.gap.px]="gap" set CSS properties
+  private readonly STYLE_BINDING = /(^|\s)\[style\.([a-z-]+)(?:\.[a-z%]+)?\]\s*=/gi;
+
+  private readonly vanillaParser = new VanillaParser();
+
+  canParse(filePath: string): boolean {
+    return /\.component\.(ts|html)$/.test(filePath);
+  }
+
+  async parseFeatures(content: string, filePath: string): Promise<DetectedFeature[]> {
+    if (filePath.endsWith('.html')) {
+      return this.parseTemplate(content, filePath);
+    }
+
+    const features = (await this.vanillaParser.parseFeatures(content, filePath))
+      .filter(feature => feature.type !== 'js' || !this.ANGULAR_SPECIFIC_APIS.has(feature.feature));
+
+    try {
+      const ast = parseBabel(content, {
+        sourceType: 'module',
+        plugins: ['typescript', 'decorators-legacy', 'classProperties']
+      });
+
+      for (const metadata of this.findComponentMetadata(ast)) {
+        for (const property of metadata.properties) {
+          if (!t.isObjectProperty(property) || property.computed) {
+            continue;
+          }
+
+          const name = t.isIdentifier(property.key) ? property.key.name : t.isStringLiteral(property.key) ? property.key.value : '';
+          if (name === 'template') {
+            features.push(...await this.parseInline(property.value, content, text => this.parseTemplate(text, filePath)));
+          } else if (name === 'styles') {
+            const styles = t.isArrayExpression(property.value) ? property.value.elements : [property.value];
+            for (const style of styles) {
+              if (style) {
+                // Inline styles are CSS or, with inlineStyleLanguage, SCSS; the SCSS syntax reads both
+                features.push(...await this.parseInline(style, content, text => this.vanillaParser.parseAs(text, filePath, '.scss')));
+              }
+            }
+          }
+        }
+      }
+    } catch (error) {
+      console.warn(`Warning: Could not read component metadata in ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    return features;
+  }
+
+  /**
+   * Object literals passed to @Component() on the module's classes
+   */
+  private findComponentMetadata(ast: t.File): t.ObjectExpression[] {
+    const metadata: t.ObjectExpression[] = [];
+
+    for (const statement of ast.program.body) {
+      const declaration = t.isExportNamedDeclaration(statement) || t.isExportDefaultDeclaration(statement)
+        ? statement.declaration
+        : statement;
+      if (!t.isClassDeclaration(declaration)) {
+        continue;
+      }
+
+      for (const decorator of declaration.decorators ?? []) {
+        const expression = decorator.expression;
+        if (t.isCallExpression(expression) && t.isIdentifier(expression.callee, { name: 'Component' }) && t.isObjectExpression(expression.arguments[0])) {
+          metadata.push(expression.arguments[0]);
+        }
+      }
+    }
+
+    return metadata;
+  }
+
+  /**
+   * Parse the text of a string or template literal and map positions back to the component file
+   */
+  private async parseInline(
+    node: t.Node,
+    content: string,
+    parse: (text: string) => Promise<DetectedFeature[]>
+  ): Promise<DetectedFeature[]> {
+    if (!(t.isStringLiteral(node) || t.isTemplateLiteral(node)) || node.start == null || node.end == null || !node.loc) {
+      return [];
+    }
+
+    let text = content.slice(node.start + 1, node.end - 1);
+    if (t.isTemplateLiteral(node)) {
+      // Blank out ${...} interpolations, keeping every position
+      for (const expression of node.expressions) {
+        if (expression.start != null && expression.end != null) {
+          const start = expression.start - node.start - 3;
+          const end = expression.end - node.start;
+          text = text.slice(0, start) + text.slice(start, end).replace(/[^\n]/g, ' ') + text.slice(end);
+        }
+      }
+    }
+
+    const startLine = node.loc.start.line;
+    const startColumn = node.loc.start.column + 1; // after the quote, 0-based
+    return (await parse(text)).map(feature => ({
+      ...feature,
+      line: feature.line + startLine - 1,
+      column: feature.line === 1 ? feature.column + startColumn : feature.column
+    }));
+  }
+
+  /**
+   * Standard HTML elements, attributes and bound styles in an Angular template
+   *
+   * Once Angular syntax is masked the template is plain HTML for VanillaParser.
+   * Bindings such as [open] or (click) never match a standard attribute name.
+   */
+  private async parseTemplate(content: string, filePath: string): Promise<DetectedFeature[]> {
+    const source = this.maskTemplateSyntax(content);
+    const lines = content.split('\n');
+    // Contexts come from the unmasked template
+    const features = (await this.vanillaParser.parseAs(source, filePath, '.html'))
+      .map(feature => feature.type === 'html' ? { ...feature, context: lines[feature.line - 1]?.trim() ?? '' } : feature);
+
+    source.split('\n').forEach((masked, index) => {
+      for (const binding of masked.matchAll(this.STYLE_BINDING)) {
+        features.push({
+          feature: (binding[2] ?? '').toLowerCase(),
+          type: 'css',
+          context: lines[index]?.trim() ?? '',
+          line: index + 1,
+          column: binding.index + (binding[1] ?? '').length,
+          file: filePath
+        });
+      }
+    });
+
+    return features;
+  }
+
+  /**
+   * Blank out comments, {{ interpolations }} and control flow block headers,
+   * keeping line and column positions
+   */
+  private maskTemplateSyntax(content: string): string {
+    const blank = (text: string): string => text.replace(/[^\n]/g, ' ');
+    let source = content
+      .replace(/<!--[\s\S]*?-->/g, blank)
+      .replace(/\{\{[\s\S]*?\}\}/g, blank);
+
+    this.CONTROL_FLOW_BLOCKS.lastIndex = 0;
+    let block: RegExpExecArray | null;
+    while ((block = this.CONTROL_FLOW_BLOCKS.exec(source)) !== null) {
+      const start = block.index + (block[1] ?? '').length;
+      let end = block.index + block[0].length;
+
+      if (block[2] === 'let') {
+        // @let name = expression;
+        const semicolon = source.indexOf(';', end);
+        end = semicolon === -1 ? source.length : semicolon + 1;
+      } else {
+        // Balanced (...) parameters, e.g. @for (item of items(); track item.id)
+        const open = source.slice(end).match(/^\s*\(/);
+        if (open) {
+          let depth = 0;
+          for (end += open[0].length - 1; end < source.length; end++) {
+            const char = source[end];
+            depth += char === '(' ? 1 : char === ')' ? -1 : 0;
+            if (depth === 0) {
+              end++;
+              break;
+            }
+          }
+        }
+      }
+
+      source = source.slice(0, start) + blank(source.slice(start, end)) + source.slice(end);
+      this.CONTROL_FLOW_BLOCKS.lastIndex = end;
+    }
+
+    return source;
+  }
+
+  getSupportedExtensions(): string[] {
+    return ['.component.ts', '.component.html'];
+  }
+
+  getName(): string {
+    return 'AngularParser';
+  }
+}
@@ -0,0 +1,123 @@
+import { Parser } from './parser.js';
+import type { DetectedFeature } from '../types/index.js';
+import { VanillaParser } from './vanilla-parser.js';
+import { ReactParser } from './react-parser.js';
+import { StyleSyntax } from './style-syntax.js';
+import { EmbeddedSource, type SourceRange } from './embedded-source.js';
+
+/**
+ * Astro component parser (.astro) - extracts ALL web platform features from the
+ * frontmatter script, the template and its `<style>` and `<script>` blocks
+ *
+ * Each region is handed to VanillaParser (or ReactParser for `{...}` template
+ * expressions, which may contain JSX) with the rest of the file blanked out.
+ */
+export class AstroParser extends Parser {
+  private readonly ASTRO_SPECIFIC_APIS = new Set([
+    'Astro', 'getStaticPaths', 'getCollection', 'getEntry', 'getEntries', 'defineCollection', 'getImage'
+  ]);
+
+  private readonly vanillaParser = new VanillaParser();
+  private readonly reactParser = new ReactParser();
+
+  canParse(filePath: string): boolean {
+    return /\.astro$/.test(filePath);
+  }
+
+  async parseFeatures(content: string, filePath: string): Promise<DetectedFeature[]> {
+    const features: DetectedFeature[] = [];
+
+    try {
+      // Frontmatter script between --- fences, always TypeScript
+      const frontmatter = this.findFrontmatter(content);
+      if (frontmatter) {
+        features.push(...await this.vanillaParser.parseAs(EmbeddedSource.keep(content, [frontmatter.script]), filePath, '.ts'));
+      }
+
+      const markup = frontmatter ? EmbeddedSource.remove(content, [frontmatter.block]) : content;
+      const blocks: SourceRange[] = [];
+
+      const blockRegex = /<(style|script)\b((?:[^>"']|"[^"]*"|'[^']*')*)>([\s\S]*?)<\/\1\s*>/gi;
+      let block: RegExpExecArray | null;
+      while ((block = blockRegex.exec(markup)) !== null) {
+        const tagName = (block[1] ?? '').toLowerCase();
+        const attributes = block[2] ?? '';
+        const start = block.index + block[0].indexOf('>') + 1;
+        const body = { start, end: start + (block[3] ?? '').length };
+        blocks.push({ start: block.index, end: block.index + block[0].length });
+
+        const extension = tagName === 'style' ? this.getStyleExtension(attributes) : this.getScriptExtension(attributes);
+        if (extension) {
+          features.push(...await this.vanillaParser.parseAs(EmbeddedSource.keep(content, [body]), filePath, extension));
+        }
+      }
+
+      // Template HTML, without the blocks and comments, then its {...} expressions
+      const template = EmbeddedSource.remove(markup, blocks).replace(/<!--[\s\S]*?-->/g, comment => EmbeddedSource.blank(comment));
+      features.push(...await this.vanillaParser.parseAs(template, filePath, '.html'));
+
+      for (const expression of EmbeddedSource.findExpressions(template)) {
+        features.push(...await this.reactParser.parseFeatures(EmbeddedSource.asExpression(template, expression), filePath));
+      }
+    } catch (error) {
+      console.warn(`Warning: Could not parse Astro file ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    return EmbeddedSource.withSourceContext(
+      features.filter(feature => feature.type !== 'js' || !this.ASTRO_SPECIFIC_APIS.has(feature.feature)),
+      content
+    );
+  }
+
+  /**
+   * The --- fenced frontmatter at the top of the file, and the script inside it
+   */
+  private findFrontmatter(content: string): { block: SourceRange; script: SourceRange } | null {
+    const open = content.match(/^\s*---[ \t]*\r?\n/);
+    if (!open) {
+      return null;
+    }
+
+    const closeRegex = /\n---[ \t]*(?=\r?\n|$)/g;
+    closeRegex.lastIndex = open[0].length - 1;
+    const close = closeRegex.exec(content);
+    if (!close) {
+      return null;
+    }
+
+    return {
+      block: { start: 0, end: close.index + close[0].length },
+      script: { start: open[0].length, end: close.index }
+    };
+  }
+
+  /**
+   * Extension to parse a <style> block as, or null for unsupported languages like Stylus
+   */
+  private getStyleExtension(attributes: string): string | null {
+    const lang = attributes.match(/\blang=["']?([\w/-]+)/)?.[1];
+    const language = StyleSyntax.fromLang(lang);
+    return language ? `.${language}` : null;
+  }
+
+  /**
+   * Extension to parse a <script> block as, or null for data blocks such as JSON
+   *
+   * Astro bundles scripts as TypeScript modules; `is:inline` scripts ship as written.
+   */
+  private getScriptExtension(attributes: string): string | null {
+    const type = attributes.match(/\btype=["']?([\w/+.-]+)/)?.[1]?.toLowerCase();
+    if (type && type !== 'module' && !/^(text|application)\/(java|ecma)script$/.test(type)) {
+      return null;
+    }
+    return /\bis:inline\b/.test(attributes) ? '.js' : '.ts';
+  }
+
+  getSupportedExtensions(): string[] {
+    return ['.astro'];
+  }
+
+  getName(): string {
+    return 'AstroParser';
+  }
+}
@@ -0,0 +1,262 @@
+import * as t from '@babel/types';
+import postcss, { Input } from 'postcss';
+import type { Container, Root } from 'postcss';
+import { GuardDetector } from './guard-detector.js';
+import { StyleSyntax } from './style-syntax.js';
+import type { DetectedFeature } from '../types/index.js';
+
+/**
+ * Minimal view of a Babel NodePath, enough to look at ancestors
+ */
+interface AncestorPath {
+  node: t.Node;
+  parentPath: AncestorPath | null;
+}
+
+/**
+ * CSS written in JavaScript: styled-components, Emotion and Lit `css` tagged
+ * templates, and object styles passed to `css({...})` or `styled.div({...})`
+ *
+ * Templates are parsed as SCSS (nesting and `//` comments are allowed) with
+ * each `${...}` replaced by a placeholder of the same length, so positions in
+ * the CSS map straight back to the JS file. Columns are 1-based like other
+ * CSS features.
+ */
+export class CSSInJS {
+  private static readonly TAG_NAMES = new Set(['css', 'keyframes', 'createGlobalStyle', 'injectGlobal', 'styled']);
+
+  private static readonly CSS_SELECTORS = [
+    ':has(', ':is(', ':where(', ':not(', ':focus-visible', ':focus-within', ':any-link',
+    ':user-invalid', ':user-valid', ':placeholder-shown', ':fullscreen', ':popover-open',
+    '::backdrop', '::placeholder', '::marker', '::selection', '::file-selector-button'
+  ];
+
+  /**
+   * Whether a template tag or call callee is a CSS-in-JS helper
+   */
+  static isStyleTag(node: t.Node): boolean {
+    if (t.isIdentifier(node)) {
+      return this.TAG_NAMES.has(node.name);
+    }
+    // styled.div, styled.div.attrs(...), styled(Button), styled('div')
+    if (t.isMemberExpression(node)) {
+      return this.isStyleTag(node.object);
+    }
+    if (t.isCallExpression(node)) {
+      return this.isStyleTag(node.callee);
+    }
+    return false;
+  }
+
+  /**
+   * Whether a call passes object styles, as in css({...}) or styled.div({...})
+   *
+   * A bare styled(...) call creates a component factory and takes options, not styles.
+   */
+  static isStyleCall(node: t.CallExpression): boolean {
+    if (t.isIdentifier(node.callee, { name: 'styled' })) {
+      return false;
+    }
+    return this.isStyleTag(node.callee) && node.arguments.some(argument => t.isObjectExpression(argument));
+  }
+
+  /**
+   * Whether an object literal is (part of) the styles of a CSS-in-JS call
+   */
+  static isInsideStyleCall(path: AncestorPath): boolean {
+    let current: AncestorPath | null = path;
+    while (current?.parentPath && (t.isObjectExpression(current.parentPath.node) || t.isObjectProperty(current.parentPath.node))) {
+      current = current.parentPath;
+    }
+    const parent = current?.parentPath?.node;
+    return !!parent && t.isCallExpression(parent) && this.isStyleCall(parent);
+  }
+
+  /**
+   * Features in a tagged template, positioned in the JS file
+   */
+  static extractFromTemplate(node: t.TaggedTemplateExpression, content: string, filePath: string): DetectedFeature[] {
+    const quasi = node.quasi;
+    if (quasi.start == null || quasi.end == null || !quasi.loc) {
+      return [];
+    }
+
+    const css = this.templateToCSS(quasi, content);
+    let root: Root;
+    try {
+      root = StyleSyntax.parse(css, 'scss');
+    } catch {
+      // Not CSS after all, e.g. a css`` helper from an unrelated library
+      return [];
+    }
+
+    const startLine = quasi.loc.start.line;
+    const startColumn = quasi.loc.start.column + 1; // after the backtick, 0-based
+    return this.withSourceContext(this.collectFeatures(root, filePath).map(feature => ({
+      ...feature,
+      line: feature.line + startLine - 1,
+      column: feature.line === 1 ? feature.column + startColumn : feature.column
+    })), content);
+  }
+
+  /**
+   * Features in the object arguments of a css({...}) style call
+   */
+  static extractFromCall(node: t.CallExpression, content: string, filePath: string): DetectedFeature[] {
+    const root = postcss.root();
+    const input = new Input(content, { from: filePath });
+
+    for (const argument of node.arguments) {
+      if (t.isObjectExpression(argument)) {
+        this.appendObjectStyles(argument, root, input, content);
+      }
+    }
+
+    return this.withSourceContext(this.collectFeatures(root, filePath), content);
+  }
+
+  /**
+   * Template text with interpolations masked by same-length placeholders
+   *
+   * An interpolation standing alone between statements (a mixin) becomes a
+   * comment; anywhere else (values, selectors, property names) a run of `_`.
+   */
+  private static templateToCSS(quasi: t.TemplateLiteral, content: string): string {
+    const base = (quasi.start ?? 0) + 1;
+    let css = content.slice(base, (quasi.end ?? base + 1) - 1);
+
+    quasi.quasis.forEach((element, index) => {
+      const next = quasi.quasis[index + 1];
+      if (!next || element.end == null || next.start == null) {
+        return;
+      }
+
+      const start = element.end - base;
+      const end = next.start - base;
+      const before = css.slice(0, start).trimEnd();
+      const after = css.slice(end).match(/^[ \t]*(.?)/)?.[1] ?? '';
+      const standalone = /(^|[;{}])$/.test(before) && /^(|[\r\n;}])$/.test(after);
+
+      const span = css.slice(start, end).replace(/[^\n]/g, standalone ? ' ' : '_');
+      const placeholder = standalone ? `/*${span.slice(2, -2)}*/` : span;
+      css = css.slice(0, start) + placeholder + css.slice(end);
+    });
+
+    return css;
+  }
+
+  /**
+   * Mirror an object style as PostCSS nodes, keeping Babel source positions
+   */
+  private static appendObjectStyles(object: t.ObjectExpression, parent: Container, input: Input, content: string): void {
+    for (const property of object.properties) {
+      if (!t.isObjectProperty(property) || !property.loc) {
+        continue;
+      }
+
+      const key = t.isIdentifier(property.key) && !property.computed
+        ? property.key.name
+        : t.isStringLiteral(property.key) ? property.key.value : null;
+      if (!key) {
+        continue;
+      }
+
+      const source = {
+        input,
+        start: { line: property.loc.start.line, column: property.loc.start.column + 1, offset: property.start ?? 0 },
+        end: { line: property.loc.end.line, column: property.loc.end.column, offset: property.end ?? 0 }
+      };
+
+      if (t.isObjectExpression(property.value)) {
+        const atRule = key.match(/^@([\w-]+)\s*(.*)$/);
+        const container = atRule
+          ? postcss.atRule({ name: atRule[1] ?? '', params: atRule[2] ?? '', source })
+          : postcss.rule({ selector: key, source });
+        parent.append(container);
+        this.appendObjectStyles(property.value, container, input, content);
+        continue;
+      }
+
+      const value = property.value.start != null && property.value.end != null
+        ? content.slice(property.value.start, property.value.end).replace(/^['"`]|['"`]$/g, '')
+        : '';
+      const decl = postcss.decl({ prop: this.toCSSProperty(key), value });
+      decl.source = source;
+      parent.append(decl);
+    }
+  }
+
+  /**
+   * Properties, modern selectors and at-rules in a stylesheet
+   */
+  private static collectFeatures(root: Root, filePath: string): DetectedFeature[] {
+    const features: DetectedFeature[] = [];
+    const position = (node: { source?: { start?: { line: number; column: number } } }): { line: number; column: number } => ({
+      line: node.source?.start?.line || 0,
+      column: node.source?.start?.column || 0
+    });
+
+    root.walkDecls((decl) => {
+      if (StyleSyntax.isPreprocessorDeclaration(decl.prop) || /^_+$/.test(decl.prop)) {
+        return;
+      }
+      features.push({
+        feature: decl.prop,
+        type: 'css',
+        context: `${decl.prop}: ${decl.value}`,
+        ...position(decl),
+        file: filePath
+      });
+    });
+
+    root.walkRules((rule) => {
+      for (const selector of this.CSS_SELECTORS) {
+        if (rule.selector.includes(selector)) {
+          features.push({
+            feature: selector.replace('(', '()'),
+            type: 'css',
+            context: rule.selector,
+            ...position(rule),
+            file: filePath
+          });
+        }
+      }
+    });
+
+    root.walkAtRules((atRule) => {
+      if (StyleSyntax.isPreprocessorAtRule(atRule, 'scss')) {
+        return;
+      }
+      features.push({
+        feature: `@${atRule.name}`,
+        type: 'css',
+        context: `@${atRule.name} ${atRule.params}`.trim(),
+        ...position(atRule),
+        file: filePath
+      });
+    });
+
+    GuardDetector.markCSSGuards(root, features);
+
+    return features;
+  }
+
+  /**
+   * Use the JS source line as context, since the parsed CSS contains placeholders
+   */
+  private static withSourceContext(features: DetectedFeature[], content: string): DetectedFeature[] {
+    const lines = content.split('\n');
+    return features.map(feature => ({ ...feature, context: lines[feature.line - 1]?.trim() || feature.context }));
+  }
+
+  /**
+   * camelCase object keys to CSS property names, including vendor prefixes
+   */
+  private static toCSSProperty(key: string): string {
+    if (key.startsWith('--') || key.includes('-')) {
+      return key;
+    }
+    const kebab = key.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+    return /^(webkit|moz|ms|o)-/.test(kebab) ? `-${kebab}` : kebab;
+  }
+}
@@ -0,0 +1,116 @@
+import type { DetectedFeature } from '../types/index.js';
+
+/**
+ * A region of a file, as character offsets
+ */
+export interface SourceRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Helpers for files that embed JS, CSS and HTML regions, such as Astro and MDX
+ *
+ * A region is parsed from a copy of the whole file with everything outside it
+ * blanked to spaces, so the existing parsers report the original line and
+ * column numbers without any mapping.
+ */
+export class EmbeddedSource {
+  /**
+   * Replace every character except newlines with a space
+   */
+  static blank(text: string): string {
+    return text.replace(/[^\r\n]/g, ' ');
+  }
+
+  /**
+   * The file with everything outside the ranges blanked
+   */
+  static keep(content: string, ranges: SourceRange[]): string {
+    const sorted = [...ranges].sort((a, b) => a.start - b.start);
+    let result = '';
+    let position = 0;
+
+    for (const range of sorted) {
+      const start = Math.max(range.start, position);
+      result += this.blank(content.slice(position, start)) + content.slice(start, range.end);
+      position = Math.max(position, range.end);
+    }
+
+    return result + this.blank(content.slice(position));
+  }
+
+  /**
+   * The file with the ranges blanked
+   */
+  static remove(content: string, ranges: SourceRange[]): string {
+    let result = content;
+    for (const range of ranges) {
+      result = result.slice(0, range.start) + this.blank(result.slice(range.start, range.end)) + result.slice(range.end);
+    }
+    return result;
+  }
+
+  /**
+   * Outermost `{...}` expressions, skipping braces in strings, escaped `\{` and
+   * expressions holding nothing but comments
+   */
+  static findExpressions(content: string): SourceRange[] {
+    const expressions: SourceRange[] = [];
+    let depth = 0;
+    let start = 0;
+    let quote: string | null = null;
+
+    for (let index = 0; index < content.length; index++) {
+      const char = content[index];
+
+      if (depth === 0) {
+        if (char === '{' && content[index - 1] !== '\\') {
+          depth = 1;
+          start = index;
+        }
+        continue;
+      }
+
+      if (quote) {
+        if (char === '\\') {
+          index++;
+        } else if (char === quote || (char === '\n' && quote !== '`')) {
+          // Plain strings end at the line, which also limits the damage of an apostrophe in JSX text
+          quote = null;
+        }
+        continue;
+      }
+
+      if (char === '"' || char === "'" || char === '`') {
+        quote = char;
+      } else if (char === '{') {
+        depth++;
+      } else if (char === '}' && --depth === 0) {
+        if (!/^\s*(\/\*[\s\S]*?\*\/\s*)*$/.test(content.slice(start + 1, index))) {
+          expressions.push({ start, end: index + 1 });
+        }
+      }
+    }
+
+    return expressions;
+  }
+
+  /**
+   * The file with only an expression kept, its braces turned into parentheses so it parses as a statement
+   */
+  static asExpression(content: string, range: SourceRange): string {
+    const inner = content.slice(range.start + 1, range.end - 1)
+      // Spread attributes, as in <Card {...props} />
+      .replace(/^(\s*)\.\.\./, '$1   ');
+    return this.keep(content.slice(0, range.start) + `(${inner})` + content.slice(range.end), [range]);
+  }
+
+  /**
+   * Use the original source line as context, since the parsed copy is partly blanked
+   */
+  static withSourceContext(features: DetectedFeature[], content: string): DetectedFeature[] {
+    const lines = content.split('\n');
+    return features.map(feature => ({ ...feature, context: lines[feature.line - 1]?.trim() || feature.context }));
+  }
+}
@@ -0,0 +1,82 @@
+import * as t from '@babel/types';
+import type { FeatureIndex } from '../core/feature-index.js';
+
+/**
+ * Minimal view of a Babel scope, enough to tell local bindings from globals
+ */
+interface BindingScope {
+  getBinding(name: string): unknown;
+}
+
+/**
+ * Resolves JS API calls to the platform global they go through
+ *
+ * A callee only counts when its root identifier has no binding in scope, so a
+ * local `const URL = ...` or an imported `get` is never a platform API. Member
+ * calls are resolved through their receiver (`navigator.clipboard.writeText`,
+ * `document.startViewTransition`) and must start at a known global; on an
+ * unknown receiver only Array and String method names count, so `map.get()`
+ * says nothing about the platform. `window.`, `self.` and `globalThis.`
+ * prefixes are dropped.
+ */
+export class GlobalAPIResolver {
+  private static readonly GLOBAL_OBJECTS = new Set(['window', 'self', 'globalThis']);
+
+  /**
+   * The API a call or `new` expression uses, e.g. `structuredClone`, `Object.hasOwn` or
+   * `navigator.clipboard.writeText`, or null if it isn't a known platform global
+   *
+   * Globals are the ones web-features knows, JS builtins included, plus the parser's
+   * own `platformAPIs` names, which fill in for APIs web-features doesn't list. A
+   * method on any other receiver is matched by name against Array and String
+   * methods (`items.at(-1)` -> `Array.prototype.at`); type-aware analysis refines that.
+   */
+  static resolveCall(
+    callee: t.Node,
+    scope: BindingScope,
+    index: FeatureIndex,
+    platformAPIs: ReadonlySet<string>
+  ): string | null {
+    const apiPath = this.getGlobalPath(callee, scope);
+    const root = apiPath?.split('.')[0];
+    if (apiPath && root && (index.isGlobal(root) || platformAPIs.has(root))) {
+      return apiPath === root || platformAPIs.has(apiPath) || index.lookup(apiPath, 'js') !== null ? apiPath : null;
+    }
+
+    const method = (t.isMemberExpression(callee) || t.isOptionalMemberExpression(callee)) && !callee.computed && t.isIdentifier(callee.property)
+      ? callee.property.name
+      : null;
+    return method ? index.findBuiltinMethod(method) : null;
+  }
+
+  /**
+   * Dotted path of an identifier or static member chain rooted at an unbound identifier
+   */
+  private static getGlobalPath(node: t.Node, scope: BindingScope): string | null {
+    const parts: string[] = [];
+    let current: t.Node = node;
+
+    while (t.isMemberExpression(current) || t.isOptionalMemberExpression(current)) {
+      if (t.isIdentifier(current.property) && !current.computed) {
+        parts.unshift(current.property.name);
+      } else if (t.isStringLiteral(current.property)) {
+        parts.unshift(current.property.value);
+      } else {
+        return null;
+      }
+      current = current.object;
+    }
+
+    // this.get(), getMap().get() and locally bound names have no statically known global receiver
+    if (!t.isIdentifier(current) || scope.getBinding(current.name)) {
+      return null;
+    }
+    parts.unshift(current.name);
+
+    while (parts.length > 1 && this.GLOBAL_OBJECTS.has(parts[0]!)) {
+      parts.shift();
+    }
+
+    return parts.join('.');
+  }
+}
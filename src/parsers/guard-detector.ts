@@ -0,0 +1,323 @@
+import type { DetectedFeature } from '../types/index.js';
+import babelTraverse from '@babel/traverse';
+import * as t from '@babel/types';
+import type { Root } from 'postcss';
+
+// @babel/traverse is CommonJS; under Node ESM the default import is the module object
+const traverse = (babelTraverse as unknown as typeof import('@babel/traverse')).default ?? babelTraverse;
+
+interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+interface GuardRange {
+  start: SourcePosition;
+  end: SourcePosition;
+  condition: string;
+  matches: (feature: string) => boolean;
+}
+
+/**
+ * Detects progressive-enhancement guards around features
+ *
+ * CSS features inside an `@supports` block that tests them, and JS APIs inside
+ * `'X' in window`, `typeof X !== 'undefined'` or truthiness checks, are marked
+ * as guarded so the baseline checker doesn't flag code that already falls back.
+ */
+export class GuardDetector {
+  private static readonly GLOBAL_OBJECTS = new Set(['window', 'self', 'globalThis']);
+
+  // At-rules whose support is usually tested through a related property
+  private static readonly AT_RULE_PROPERTIES: Record<string, string[]> = {
+    '@container': ['container-type', 'container-name', 'container']
+  };
+
+  /**
+   * Mark CSS features inside a matching `@supports` block as guarded
+   */
+  static markCSSGuards(root: Root, features: DetectedFeature[], lineOffset: number = 0): void {
+    const ranges: GuardRange[] = [];
+
+    root.walkAtRules((atRule) => {
+      const condition = atRule.params.trim().toLowerCase();
+      if (atRule.name.toLowerCase() !== 'supports' || condition.startsWith('not') || !atRule.source?.start || !atRule.source.end) {
+        return;
+      }
+
+      ranges.push({
+        start: atRule.source.start,
+        end: atRule.source.end,
+        condition: `@supports ${atRule.params}`,
+        matches: (feature) => this.supportsConditionTests(condition, feature)
+      });
+    });
+
+    this.applyRanges(ranges, features.filter(feature => feature.type === 'css'), lineOffset);
+  }
+
+  /**
+   * Mark JS APIs inside feature-detection branches as guarded
+   */
+  static markJSGuards(ast: t.Node, features: DetectedFeature[], content: string, lineOffset: number = 0): void {
+    const ranges: GuardRange[] = [];
+
+    const addRange = (loc: t.SourceLocation | null | undefined, test: t.Expression, whenTrue: boolean): void => {
+      const names = this.collectGuardNames(test, whenTrue);
+      if (!loc || names.length === 0) {
+        return;
+      }
+
+      const condition = test.start != null && test.end != null
+        ? content.slice(test.start, test.end)
+        : names.join(', ');
+
+      ranges.push({
+        start: loc.start,
+        end: loc.end,
+        condition: whenTrue ? condition : `!(${condition})`,
+        matches: (feature) => this.guardNamesCover(names, feature)
+      });
+    };
+
+    traverse(ast, {
+      IfStatement: (path: any) => {
+        const node = path.node as t.IfStatement;
+        addRange(node.consequent.loc, node.test, true);
+        addRange(node.alternate?.loc, node.test, false);
+
+        // `if (!('X' in window)) return;` guards the rest of the enclosing block
+        if (!node.alternate && this.alwaysExits(node.consequent) && node.loc && path.parent?.loc) {
+          addRange({ ...path.parent.loc, start: node.loc.end }, node.test, false);
+        }
+      },
+
+      ConditionalExpression: (path: any) => {
+        const node = path.node as t.ConditionalExpression;
+        addRange(node.consequent.loc, node.test, true);
+        addRange(node.alternate.loc, node.test, false);
+      },
+
+      LogicalExpression: (path: any) => {
+        const node = path.node as t.LogicalExpression;
+        if (node.operator === '&&') {
+          addRange(node.right.loc, node.left, true);
+        } else if (node.operator === '||') {
+          addRange(node.right.loc, node.left, false);
+        }
+      }
+    });
+
+    const apiFeatures = features.filter(feature => feature.type === 'js' && /^[A-Za-z_$][\w$.]*$/.test(feature.feature));
+    this.applyRanges(ranges, apiFeatures, lineOffset);
+  }
+
+  /**
+   * Mark features that fall inside a range whose condition tests them
+   */
+  private static applyRanges(ranges: GuardRange[], features: DetectedFeature[], lineOffset: number): void {
+    if (ranges.length === 0) {
+      return;
+    }
+
+    for (const feature of features) {
+      const position = { line: feature.line - lineOffset, column: feature.column };
+      const guard = ranges.find(range =>
+        this.isWithin(position, range.start, range.end) && range.matches(feature.feature)
+      );
+
+      if (guard) {
+        feature.guarded = true;
+        feature.guard = guard.condition;
+      }
+    }
+  }
+
+  /**
+   * Check whether an `@supports` condition tests the given CSS feature
+   */
+  private static supportsConditionTests(condition: string, feature: string): boolean {
+    const name = feature.toLowerCase();
+
+    if (name.startsWith('@')) {
+      return condition.includes(`at-rule(${name})`) ||
+        (this.AT_RULE_PROPERTIES[name] ?? []).some(property => this.testsProperty(condition, property));
+    }
+
+    // Functions, e.g. clamp() or oklch(from)
+    if (name.endsWith(')') && !name.startsWith(':')) {
+      return condition.includes(name.slice(0, -1));
+    }
+
+    if (name.startsWith(':')) {
+      return condition.includes('selector(') && condition.includes(name);
+    }
+
+    // Value keywords, e.g. position: sticky
+    const [property, keyword] = name.split(': ');
+    if (property && keyword) {
+      return new RegExp(`(^|[\\s(])${this.escape(property)}\\s*:[^)]*\\b${this.escape(keyword)}\\b`).test(condition);
+    }
+
+    // Properties, or units such as dvh in (height: 100dvh)
+    return this.testsProperty(condition, name) || new RegExp(`\\d${this.escape(name)}\\b`).test(condition);
+  }
+
+  /**
+   * Check whether an `@supports` condition contains a `(property: value)` test
+   */
+  private static testsProperty(condition: string, property: string): boolean {
+    return new RegExp(`(^|[\\s(])${this.escape(property)}\\s*:`).test(condition);
+  }
+
+  /**
+   * Escape text for use in a RegExp
+   */
+  private static escape(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
+  /**
+   * Collect the API names known to exist when `test` evaluates to `whenTrue`
+   */
+  private static collectGuardNames(test: t.Node, whenTrue: boolean): string[] {
+    if (t.isUnaryExpression(test) && test.operator === '!') {
+      return this.collectGuardNames(test.argument, !whenTrue);
+    }
+
+    if (t.isLogicalExpression(test)) {
+      if (test.operator === '&&' && whenTrue) {
+        return [...this.collectGuardNames(test.left, true), ...this.collectGuardNames(test.right, true)];
+      }
+      if (test.operator === '||' && !whenTrue) {
+        return [...this.collectGuardNames(test.left, false), ...this.collectGuardNames(test.right, false)];
+      }
+      return [];
+    }
+
+    if (t.isBinaryExpression(test)) {
+      // 'X' in window, 'at' in Array.prototype
+      if (test.operator === 'in' && t.isStringLiteral(test.left)) {
+        const objectPath = this.getExpressionPath(test.right);
+        return whenTrue ? [objectPath ? `${objectPath}.${test.left.value}` : test.left.value] : [];
+      }
+
+      const isEquality = test.operator === '===' || test.operator === '==';
+      const isInequality = test.operator === '!==' || test.operator === '!=';
+      if (!isEquality && !isInequality) {
+        return [];
+      }
+
+      // typeof X !== 'undefined', typeof X === 'function'
+      const typeofSide = [test.left, test.right].find(
+        (side): side is t.UnaryExpression => t.isUnaryExpression(side) && side.operator === 'typeof'
+      );
+      const literalSide = [test.left, test.right].find((side): side is t.StringLiteral => t.isStringLiteral(side));
+      if (typeofSide && literalSide) {
+        const exists = isInequality === (literalSide.value === 'undefined');
+        return this.pathsWhen(typeofSide.argument, exists === whenTrue);
+      }
+
+      // X != null, X !== undefined
+      const nullishSide = [test.left, test.right].find(side =>
+        t.isNullLiteral(side) || (t.isIdentifier(side) && side.name === 'undefined')
+      );
+      if (nullishSide) {
+        const otherSide = test.left === nullishSide ? test.right : test.left;
+        return this.pathsWhen(otherSide, isInequality === whenTrue);
+      }
+
+      return [];
+    }
+
+    // if (window.ResizeObserver), if (navigator.clipboard)
+    if (t.isIdentifier(test) || t.isMemberExpression(test)) {
+      return this.pathsWhen(test, whenTrue);
+    }
+
+    return [];
+  }
+
+  /**
+   * Return the expression path as a guard name when the condition holds
+   */
+  private static pathsWhen(node: t.Node, holds: boolean): string[] {
+    const path = holds ? this.getExpressionPath(node) : '';
+    return path ? [path] : [];
+  }
+
+  /**
+   * Get a dotted path for an identifier or member expression, without global object prefixes
+   */
+  private static getExpressionPath(node: t.Node): string {
+    const parts: string[] = [];
+    let current: t.Node = node;
+
+    while (t.isMemberExpression(current)) {
+      if (t.isIdentifier(current.property) && !current.computed) {
+        parts.unshift(current.property.name);
+      } else if (t.isStringLiteral(current.property)) {
+        parts.unshift(current.property.value);
+      } else {
+        return '';
+      }
+      current = current.object;
+    }
+
+    if (!t.isIdentifier(current)) {
+      return '';
+    }
+    parts.unshift(current.name);
+
+    while (parts.length > 0 && this.GLOBAL_OBJECTS.has(parts[0]!)) {
+      parts.shift();
+    }
+
+    return parts.join('.');
+  }
+
+  /**
+   * Check whether any guard name covers the feature's API path
+   *
+   * A guard covers the API it names, the objects on the way to it, and members of
+   * a specific API such as `navigator.clipboard`. A bare object such as `navigator`
+   * or `Array.prototype` says nothing about which of its members exist.
+   */
+  private static guardNamesCover(names: string[], feature: string): boolean {
+    const featurePath = feature.split('.').filter(part => !this.GLOBAL_OBJECTS.has(part)).join('.');
+    if (!featurePath) {
+      return false;
+    }
+
+    return names.some(name =>
+      name === featurePath ||
+      name.startsWith(`${featurePath}.`) ||
+      (featurePath.startsWith(`${name}.`) && name.includes('.') && !name.endsWith('.prototype'))
+    );
+  }
+
+  /**
+   * Check whether a statement always returns or throws
+   */
+  private static alwaysExits(statement: t.Statement): boolean {
+    if (t.isReturnStatement(statement) || t.isThrowStatement(statement)) {
+      return true;
+    }
+
+    if (t.isBlockStatement(statement)) {
+      const last = statement.body[statement.body.length - 1];
+      return last !== undefined && this.alwaysExits(last);
+    }
+
+    return false;
+  }
+
+  /**
+   * Check whether a position falls inside a source range
+   */
+  private static isWithin(position: SourcePosition, start: SourcePosition, end: SourcePosition): boolean {
+    const afterStart = position.line > start.line || (position.line === start.line && position.column >= start.column);
+    const beforeEnd = position.line < end.line || (position.line === end.line && position.column <= end.column);
+    return afterStart && beforeEnd;
+  }
+}
@@ -3,6 +3,15 @@ export * from './parser.js';
 export * from './react-parser.js';
 export * from './vue-parser.js';
 export * from './svelte-parser.js';
+export * from './angular-parser.js';
+export * from './astro-parser.js';
+export * from './mdx-parser.js';
 export * from './vanilla-parser.js';
+export * from './style-syntax.js';
+export * from './embedded-source.js';
+export * from './css-in-js.js';
+export * from './guard-detector.js';
+export * from './global-api-resolver.js';
+export * from './type-aware-analyzer.js';
 export * from './feature-validator.js';
 export * from './parser-manager.js';
\ No newline at end of file
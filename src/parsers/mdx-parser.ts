@@ -0,0 +1,98 @@
+import { Parser } from './parser.js';
+import type { DetectedFeature } from '../types/index.js';
+import { VanillaParser } from './vanilla-parser.js';
+import { ReactParser } from './react-parser.js';
+import { EmbeddedSource, type SourceRange } from './embedded-source.js';
+
+/**
+ * MDX parser (.mdx) - extracts ALL web platform features from `import`/`export`
+ * statements, `{...}` expressions and JSX elements embedded in Markdown
+ *
+ * Frontmatter, code blocks and inline code are skipped. ESM and expressions go
+ * to ReactParser and the JSX elements to VanillaParser's HTML extraction, each
+ * with the rest of the file blanked out.
+ */
+export class MDXParser extends Parser {
+  private readonly vanillaParser = new VanillaParser();
+  private readonly reactParser = new ReactParser();
+
+  canParse(filePath: string): boolean {
+    return /\.mdx$/.test(filePath);
+  }
+
+  async parseFeatures(content: string, filePath: string): Promise<DetectedFeature[]> {
+    const features: DetectedFeature[] = [];
+
+    try {
+      const literalText = this.findLiteralText(content);
+      const esm = this.findESM(EmbeddedSource.remove(content, literalText));
+      const markdown = EmbeddedSource.remove(content, [...literalText, ...esm]);
+
+      if (esm.length > 0) {
+        features.push(...await this.reactParser.parseFeatures(EmbeddedSource.keep(content, esm), filePath));
+      }
+
+      features.push(...await this.vanillaParser.parseAs(markdown, filePath, '.html'));
+
+      for (const expression of EmbeddedSource.findExpressions(markdown)) {
+        features.push(...await this.reactParser.parseFeatures(EmbeddedSource.asExpression(markdown, expression), filePath));
+      }
+    } catch (error) {
+      console.warn(`Warning: Could not parse MDX file ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    return EmbeddedSource.withSourceContext(features, content);
+  }
+
+  /**
+   * Frontmatter, fenced code blocks and inline code spans, which hold no JSX
+   */
+  private findLiteralText(content: string): SourceRange[] {
+    const ranges: SourceRange[] = [];
+
+    const frontmatter = content.match(/^---[ \t]*\r?\n[\s\S]*?\n---[ \t]*(?=\r?\n|$)/);
+    if (frontmatter) {
+      ranges.push({ start: 0, end: frontmatter[0].length });
+    }
+
+    // A fence closes with at least as many of the same character, or at the end of the file
+    const fenceRegex = /^ {0,3}(`{3,}|~{3,})[^\n]*\n[\s\S]*?(?:\n {0,3}\1[`~]*[ \t]*(?=\n|$)|$(?![\s\S]))/gm;
+    let fence: RegExpExecArray | null;
+    while ((fence = fenceRegex.exec(content)) !== null) {
+      ranges.push({ start: fence.index, end: fence.index + fence[0].length });
+    }
+
+    const prose = EmbeddedSource.remove(content, ranges);
+    const codeRegex = /(`+)[^`]([\s\S]*?[^`])?\1(?!`)/g;
+    let code: RegExpExecArray | null;
+    while ((code = codeRegex.exec(prose)) !== null) {
+      ranges.push({ start: code.index, end: code.index + code[0].length });
+    }
+
+    return ranges;
+  }
+
+  /**
+   * `import` and `export` blocks, which start a line and run to the next blank line
+   */
+  private findESM(content: string): SourceRange[] {
+    const ranges: SourceRange[] = [];
+    const esmRegex = /(^|\n[ \t]*\n)((?:import|export)\b[\s\S]*?)(?=\n[ \t]*\n|\s*$)/g;
+
+    let block: RegExpExecArray | null;
+    while ((block = esmRegex.exec(content)) !== null) {
+      const start = block.index + (block[1] ?? '').length;
+      ranges.push({ start, end: start + (block[2] ?? '').length });
+    }
+
+    return ranges;
+  }
+
+  getSupportedExtensions(): string[] {
+    return ['.mdx'];
+  }
+
+  getName(): string {
+    return 'MDXParser';
+  }
+}
@@ -10,6 +10,9 @@ import { join } from 'path';
  * for large codebases with advanced web APIs using lazy loading
  */
 export class ParserManager {
+  /** Bump when parser output changes so results in the disk parse cache are discarded */
+  static readonly PARSER_VERSION = 13;
+
   private parsers: Map<string, Parser> = new Map();
   private readonly validator: FeatureValidator;
   private readonly maxConcurrency: number;
@@ -35,17 +38,27 @@ export class ParserManager {
         { ReactParser },
         { VueParser },
         { SvelteParser },
+        { AngularParser },
+        { AstroParser },
+        { MDXParser },
         { VanillaParser }
       ] = await Promise.all([
         import('./react-parser.js'),
         import('./vue-parser.js'),
         import('./svelte-parser.js'),
+        import('./angular-parser.js'),
+        import('./astro-parser.js'),
+        import('./mdx-parser.js'),
         import('./vanilla-parser.js')
       ]);
 
       this.parsers.set('react', new ReactParser());
       this.parsers.set('vue', new VueParser());
       this.parsers.set('svelte', new SvelteParser());
+      // Before vanilla, which would also claim .component.ts and .component.html files
+      this.parsers.set('angular', new AngularParser());
+      this.parsers.set('astro', new AstroParser());
+      this.parsers.set('mdx', new MDXParser());
       this.parsers.set('vanilla', new VanillaParser());
 
       this.initialized = true;
@@ -115,9 +128,9 @@ export class ParserManager {
   }
 
   /**
-   * Parse a single file with memory optimization
+   * Parse a single file with memory optimization, or in-memory content such as an unsaved editor buffer
    */
-  async parseFile(filePath: string): Promise<DetectedFeature[]> {
+  async parseFile(filePath: string, source?: string): Promise<DetectedFeature[]> {
     try {
       // Find appropriate parser
       const parser = await this.getParserForFile(filePath);
@@ -125,15 +138,18 @@ export class ParserManager {
         return [];
       }
 
-      // Check file size and use streaming for large files
-      const fileStats = await stat(filePath);
-      
-      if (MemoryManager.shouldStream(fileStats.size)) {
-        return await this.parseFileStreaming(filePath, parser);
-      }
+      let content = source;
+      if (content === undefined) {
+        // Check file size and use streaming for large files
+        const fileStats = await stat(filePath);
+        
+        if (MemoryManager.shouldStream(fileStats.size)) {
+          return await this.parseFileStreaming(filePath, parser);
+        }
 
-      // Read file content for smaller files
-      const content = await readFile(filePath, 'utf-8');
+        // Read file content for smaller files
+        content = await readFile(filePath, 'utf-8');
+      }
       
       // Parse features
       const features = await parser.parseFeatures(content, filePath);
@@ -1,6 +1,10 @@
 import { Parser } from './parser.js';
 import type { DetectedFeature } from '../types/index.js';
 import { LazyLoader } from '../core/lazy-loader.js';
+import { FeatureIndex } from '../core/feature-index.js';
+import { GuardDetector } from './guard-detector.js';
+import { CSSInJS } from './css-in-js.js';
+import { GlobalAPIResolver } from './global-api-resolver.js';
 
 /**
  * React/JSX parser using Babel - extracts ALL web platform features
@@ -128,35 +132,43 @@ export class ReactParser extends Parser {
         ]
       });
 
+      const index = await FeatureIndex.load();
+
       traverse(ast, {
-        // Extract JavaScript Web APIs
-        MemberExpression: (path: any) => {
-          const feature = this.extractWebAPIFeature(path.node, content, t);
+        // Extract function calls to Web APIs
+        CallExpression: (path: any) => {
+          const feature = this.extractWebAPICall(path, content, index);
           if (feature) {
-            features.push({
-              ...feature,
-              file: filePath,
-              line: path.node.loc?.start.line || 0,
-              column: path.node.loc?.start.column || 0
-            });
+            features.push({ ...feature, file: filePath });
+          }
+
+          // Object styles passed to css({...}) or styled.div({...})
+          if (CSSInJS.isStyleCall(path.node)) {
+            features.push(...CSSInJS.extractFromCall(path.node, content, filePath));
           }
         },
 
-        // Extract function calls to Web APIs
-        CallExpression: (path: any) => {
-          const feature = this.extractWebAPICall(path.node, content, t);
+        // Extract Web API constructors
+        NewExpression: (path: any) => {
+          const feature = this.extractWebAPICall(path, content, index);
           if (feature) {
-            features.push({
-              ...feature,
-              file: filePath,
-              line: path.node.loc?.start.line || 0,
-              column: path.node.loc?.start.column || 0
-            });
+            features.push({ ...feature, file: filePath });
+          }
+        },
+
+        // Extract CSS from styled-components, Emotion and Lit tagged templates
+        TaggedTemplateExpression: (path: any) => {
+          if (CSSInJS.isStyleTag(path.node.tag)) {
+            features.push(...CSSInJS.extractFromTemplate(path.node, content, filePath));
           }
         },
 
         // Extract CSS from inline styles
         ObjectExpression: (path: any) => {
+          if (CSSInJS.isInsideStyleCall(path)) {
+            return;
+          }
+
           const cssFeatures = this.extractInlineCSS(path.node, content, t);
           cssFeatures.forEach(feature => {
             features.push({
@@ -221,6 +233,8 @@ export class ReactParser extends Parser {
         }
       });
 
+      GuardDetector.markJSGuards(ast, features, content);
+
     } catch (error) {
       console.warn(`Warning: Could not parse ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -228,50 +242,24 @@ export class ReactParser extends Parser {
     return features;
   }
 
-  private extractWebAPIFeature(node: any, content: string, t: any): DetectedFeature | null {
-    const apiName = this.getMemberExpressionName(node, t);
-    
-    if (!apiName || this.REACT_SPECIFIC_APIS.has(apiName)) {
-      return null;
-    }
-
-    if (this.WEB_PLATFORM_APIS.has(apiName)) {
-      return {
-        feature: apiName,
-        type: 'js',
-        context: this.getContext(content, node.loc?.start.line || 0),
-        line: node.loc?.start.line || 0,
-        column: node.loc?.start.column || 0
-      };
-    }
-
-    return null;
-  }
-
-  private extractWebAPICall(node: any, content: string, t: any): DetectedFeature | null {
-    let apiName = '';
-    
-    if (t.isIdentifier(node.callee)) {
-      apiName = node.callee.name;
-    } else if (t.isMemberExpression(node.callee)) {
-      apiName = this.getMemberExpressionName(node.callee, t);
-    }
+  /**
+   * Web API used by a call or `new` expression, resolved through scope bindings
+   */
+  private extractWebAPICall(path: any, content: string, index: FeatureIndex): DetectedFeature | null {
+    const node = path.node;
+    const apiName = GlobalAPIResolver.resolveCall(node.callee, path.scope, index, this.WEB_PLATFORM_APIS);
 
     if (!apiName || this.REACT_SPECIFIC_APIS.has(apiName)) {
       return null;
     }
 
-    if (this.WEB_PLATFORM_APIS.has(apiName)) {
-      return {
-        feature: apiName,
-        type: 'js',
-        context: this.getContext(content, node.loc?.start.line || 0),
-        line: node.loc?.start.line || 0,
-        column: node.loc?.start.column || 0
-      };
-    }
-
-    return null;
+    return {
+      feature: apiName,
+      type: 'js',
+      context: this.getContext(content, node.loc?.start.line || 0),
+      line: node.loc?.start.line || 0,
+      column: node.loc?.start.column || 0
+    };
   }
 
   private extractInlineCSS(node: any, content: string, t: any): DetectedFeature[] {
@@ -314,24 +302,6 @@ export class ReactParser extends Parser {
     return features;
   }
 
-  private getMemberExpressionName(node: any, t: any): string {
-    const parts: string[] = [];
-    
-    const traverse = (n: any): void => {
-      if (t.isIdentifier(n)) {
-        parts.unshift(n.name);
-      } else if (t.isMemberExpression(n)) {
-        if (t.isIdentifier(n.property)) {
-          parts.unshift(n.property.name);
-        }
-        traverse(n.object);
-      }
-    };
-    
-    traverse(node);
-    return parts.join('.');
-  }
-
   private isTopLevelAwait(path: any, t: any): boolean {
     let currentPath = path.parentPath;
     while (currentPath) {
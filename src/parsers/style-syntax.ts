@@ -0,0 +1,163 @@
+import postcss from 'postcss';
+import type { Root, Syntax } from 'postcss';
+import postcssScss from 'postcss-scss';
+import postcssLess from 'postcss-less';
+
+export type StyleLanguage = 'css' | 'scss' | 'sass' | 'less';
+
+/**
+ * Parses plain CSS and preprocessor stylesheets into a PostCSS tree
+ *
+ * SCSS and Less use their PostCSS syntaxes. Indented Sass is rewritten to
+ * SCSS first, only appending braces and semicolons to line ends so every
+ * node keeps its original line.
+ */
+export class StyleSyntax {
+  // Sass control flow and module at-rules; they never reach the browser
+  private static readonly SASS_AT_RULES = new Set([
+    'use', 'forward', 'mixin', 'include', 'function', 'return', 'if', 'else', 'each', 'for',
+    'while', 'extend', 'at-root', 'content', 'debug', 'warn', 'error'
+  ]);
+
+  private static readonly LESS_AT_RULES = new Set(['plugin']);
+
+  /**
+   * Language of a `<style lang>` attribute, or null for unsupported preprocessors like Stylus
+   */
+  static fromLang(lang: string | undefined): StyleLanguage | null {
+    const normalized = (lang ?? 'css').toLowerCase().replace(/^text\//, '');
+    switch (normalized) {
+      case '':
+      case 'css':
+      case 'postcss':
+      case 'pcss':
+        return 'css';
+      case 'scss':
+      case 'sass':
+      case 'less':
+        return normalized;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Language of a stylesheet by file extension, or null if it is not a stylesheet
+   */
+  static fromPath(filePath: string): StyleLanguage | null {
+    const match = filePath.toLowerCase().match(/\.(css|scss|sass|less)$/);
+    return match ? match[1] as StyleLanguage : null;
+  }
+
+  /**
+   * Parse a stylesheet in the given language
+   */
+  static parse(content: string, language: StyleLanguage = 'css'): Root {
+    switch (language) {
+      case 'scss':
+        return postcssScss.parse(content);
+      case 'sass':
+        return postcssScss.parse(this.sassToScss(content));
+      case 'less':
+        return postcssLess.parse(content) as Root;
+      default:
+        return postcss.parse(content);
+    }
+  }
+
+  /**
+   * Serialize a tree from `parse`, keeping preprocessor syntax such as `//` comments;
+   * indented Sass is parsed as rewritten SCSS and can't be written back
+   */
+  static stringify(root: Root, language: Exclude<StyleLanguage, 'sass'> = 'css'): string {
+    switch (language) {
+      case 'scss':
+        return root.toString(postcssScss);
+      case 'less':
+        return root.toString(postcssLess as Syntax);
+      default:
+        return root.toString();
+    }
+  }
+
+  /**
+   * Whether an at-rule is preprocessor syntax rather than a CSS at-rule
+   */
+  static isPreprocessorAtRule(atRule: { name: string; mixin?: boolean; variable?: boolean; function?: boolean }, language: StyleLanguage): boolean {
+    if (language === 'scss' || language === 'sass') {
+      return this.SASS_AT_RULES.has(atRule.name);
+    }
+    if (language === 'less') {
+      return !!(atRule.mixin || atRule.variable || atRule.function) || this.LESS_AT_RULES.has(atRule.name);
+    }
+    return false;
+  }
+
+  /**
+   * Whether a declaration is a preprocessor variable or has an interpolated property name
+   */
+  static isPreprocessorDeclaration(prop: string): boolean {
+    return prop.startsWith('$') || prop.startsWith('@') || prop.includes('#{') || prop.includes('@{');
+  }
+
+  /**
+   * Rewrite indented Sass as SCSS without moving any line
+   */
+  static sassToScss(content: string): string {
+    const lines = content.split('\n');
+    const indentOf = (line: string): number => line.length - line.trimStart().length;
+
+    // Comments, including their indented continuation lines, are blanked
+    const significant: number[] = [];
+    let commentIndent = -1;
+    lines.forEach((line, index) => {
+      const trimmed = line.trim();
+      if (trimmed === '') {
+        return;
+      }
+      if (commentIndent >= 0 && indentOf(line) > commentIndent) {
+        lines[index] = '';
+        return;
+      }
+      commentIndent = -1;
+      if (trimmed.startsWith('//') || trimmed.startsWith('/*')) {
+        commentIndent = indentOf(line);
+        lines[index] = '';
+        return;
+      }
+
+      // =mixin and +include shorthands
+      const indent = line.slice(0, indentOf(line));
+      if (trimmed.startsWith('=')) {
+        lines[index] = `${indent}@mixin ${trimmed.slice(1).trimStart()}`;
+      } else if (trimmed.startsWith('+') && !trimmed.startsWith('+ ')) {
+        lines[index] = `${indent}@include ${trimmed.slice(1)}`;
+      }
+      significant.push(index);
+    });
+
+    const open: number[] = [];
+    significant.forEach((index, position) => {
+      const indent = indentOf(lines[index] ?? '');
+      const next = significant[position + 1];
+      const nextIndent = next === undefined ? -1 : indentOf(lines[next] ?? '');
+      let line = (lines[index] ?? '').trimEnd();
+
+      if (nextIndent > indent) {
+        line += ' {';
+        open.push(indent);
+      } else if (!line.endsWith(',')) {
+        line += ';';
+      }
+
+      while (open.length > 0 && (open[open.length - 1] ?? 0) >= nextIndent) {
+        open.pop();
+        line += ' }';
+      }
+
+      lines[index] = line;
+    });
+
+    return lines.join('\n');
+  }
+}
@@ -1,10 +1,16 @@
 import { Parser } from './parser.js';
 import type { DetectedFeature } from '../types/index.js';
 import { LazyLoader } from '../core/lazy-loader.js';
+import { FeatureIndex } from '../core/feature-index.js';
 import { parse as parseBabel } from '@babel/parser';
-import traverse from '@babel/traverse';
+import babelTraverse from '@babel/traverse';
 import * as t from '@babel/types';
-import postcss from 'postcss';
+import { GuardDetector } from './guard-detector.js';
+import { StyleSyntax } from './style-syntax.js';
+import { GlobalAPIResolver } from './global-api-resolver.js';
+
+// @babel/traverse is CommonJS; under Node ESM the default import is the module object
+const traverse = (babelTraverse as unknown as typeof import('@babel/traverse')).default ?? babelTraverse;
 
 /**
  * Parser for Svelte files (.svelte) - extracts ALL web platform features
@@ -94,7 +100,7 @@ export class SvelteParser extends Parser {
     try {
       // Lazy load Svelte compiler
       const svelteCompiler = await LazyLoader.getSvelteCompiler();
-      const ast = svelteCompiler.parse(content, { filename: filePath });
+      const ast = svelteCompiler.parse(this.maskPreprocessedStyles(content), { filename: filePath });
       
       // Parse script sections for JavaScript features
       if (ast.instance) {
@@ -179,18 +185,20 @@ export class SvelteParser extends Parser {
         ].filter(plugin => isTypeScript || plugin !== 'typescript')
       });
 
+      const index = await FeatureIndex.load();
+
       traverse(ast, {
-        // Extract JavaScript Web APIs
-        MemberExpression: (path: any) => {
-          const feature = this.extractWebAPIFeature(path.node, scriptContent, scriptNode.start);
+        // Extract function calls to Web APIs
+        CallExpression: (path: any) => {
+          const feature = this.extractWebAPICall(path, scriptContent, scriptNode.start, index);
           if (feature) {
             features.push({ ...feature, file: filePath });
           }
         },
 
-        // Extract function calls to Web APIs
-        CallExpression: (path: any) => {
-          const feature = this.extractWebAPICall(path.node, scriptContent, scriptNode.start);
+        // Extract Web API constructors
+        NewExpression: (path: any) => {
+          const feature = this.extractWebAPICall(path, scriptContent, scriptNode.start, index);
           if (feature) {
             features.push({ ...feature, file: filePath });
           }
@@ -249,6 +257,8 @@ export class SvelteParser extends Parser {
         }
       });
 
+      GuardDetector.markJSGuards(ast, features, scriptContent, this.getLineOffset(scriptNode.start, fullContent));
+
     } catch (error) {
       console.warn(`Warning: Could not parse ${sectionType} script in ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -264,12 +274,21 @@ export class SvelteParser extends Parser {
     const features: DetectedFeature[] = [];
     
     try {
+      const language = StyleSyntax.fromLang(this.getStyleLang(styleNode));
+      if (!language) {
+        return features;
+      }
+
       const styleContent = this.extractStyleContent(styleNode, fullContent);
       const lineOffset = this.getLineOffset(styleNode.start, fullContent);
       
-      const root = postcss.parse(styleContent);
+      const root = StyleSyntax.parse(styleContent, language);
       
       root.walkDecls((decl: any) => {
+        if (StyleSyntax.isPreprocessorDeclaration(decl.prop)) {
+          return;
+        }
+
         features.push({
           feature: decl.prop,
           type: 'css',
@@ -298,6 +317,10 @@ export class SvelteParser extends Parser {
       });
 
       root.walkAtRules((atRule: any) => {
+        if (StyleSyntax.isPreprocessorAtRule(atRule, language)) {
+          return;
+        }
+
         // Extract at-rules like @supports, @container, etc.
         features.push({
           feature: `@${atRule.name}`,
@@ -308,6 +331,8 @@ export class SvelteParser extends Parser {
           file: filePath
         });
       });
+
+      GuardDetector.markCSSGuards(root, features, lineOffset);
       
     } catch (error) {
       console.warn(`Warning: Could not parse style section in ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -349,7 +374,7 @@ export class SvelteParser extends Parser {
                 if (this.isModernHTMLAttribute(attr.name, attr.value)) {
                   const lineOffset = this.getLineOffset(node.start, fullContent);
                   features.push({
-                    feature: attr.name,
+                    feature: `${tagName}[${attr.name}]`,
                     type: 'html',
                     context: this.getNodeContext(node, fullContent),
                     line: lineOffset,
@@ -370,50 +395,24 @@ export class SvelteParser extends Parser {
     return features;
   }
 
-  private extractWebAPIFeature(node: t.MemberExpression, content: string, offset: number): DetectedFeature | null {
-    const apiName = this.getMemberExpressionName(node);
-    
-    if (!apiName || this.SVELTE_SPECIFIC_APIS.has(apiName)) {
-      return null;
-    }
-
-    if (this.WEB_PLATFORM_APIS.has(apiName)) {
-      return {
-        feature: apiName,
-        type: 'js',
-        context: this.getContext(content, node.loc?.start.line || 0),
-        line: (node.loc?.start.line || 0) + this.getLineOffset(offset, content),
-        column: node.loc?.start.column || 0
-      };
-    }
-
-    return null;
-  }
-
-  private extractWebAPICall(node: t.CallExpression, content: string, offset: number): DetectedFeature | null {
-    let apiName = '';
-    
-    if (t.isIdentifier(node.callee)) {
-      apiName = node.callee.name;
-    } else if (t.isMemberExpression(node.callee)) {
-      apiName = this.getMemberExpressionName(node.callee);
-    }
+  /**
+   * Web API used by a call or `new` expression, resolved through scope bindings
+   */
+  private extractWebAPICall(path: any, content: string, offset: number, index: FeatureIndex): DetectedFeature | null {
+    const node = path.node as t.CallExpression | t.NewExpression;
+    const apiName = GlobalAPIResolver.resolveCall(node.callee, path.scope, index, this.WEB_PLATFORM_APIS);
 
     if (!apiName || this.SVELTE_SPECIFIC_APIS.has(apiName)) {
       return null;
     }
 
-    if (this.WEB_PLATFORM_APIS.has(apiName)) {
-      return {
-        feature: apiName,
-        type: 'js',
-        context: this.getContext(content, node.loc?.start.line || 0),
-        line: (node.loc?.start.line || 0) + this.getLineOffset(offset, content),
-        column: node.loc?.start.column || 0
-      };
-    }
-
-    return null;
+    return {
+      feature: apiName,
+      type: 'js',
+      context: this.getContext(content, node.loc?.start.line || 0),
+      line: (node.loc?.start.line || 0) + this.getLineOffset(offset, content),
+      column: node.loc?.start.column || 0
+    };
   }
 
   private extractScriptContent(scriptNode: any, fullContent: string): string {
@@ -422,6 +421,26 @@ export class SvelteParser extends Parser {
     return fullContent.slice(start, end);
   }
 
+  /**
+   * Blank out `<style lang="scss|sass|less">` contents, which the Svelte compiler can't parse as CSS
+   *
+   * Newlines and offsets are kept, so the style node still points at the original source.
+   */
+  private maskPreprocessedStyles(content: string): string {
+    return content.replace(/(<style\b([^>]*)>)([\s\S]*?)(<\/style>)/gi, (match, open: string, attributes: string, css: string, close: string) => {
+      const lang = attributes.match(/\b(?:lang|type)\s*=\s*["']?([\w/]+)/i)?.[1];
+      return StyleSyntax.fromLang(lang) === 'css' ? match : open + css.replace(/[^\n]/g, ' ') + close;
+    });
+  }
+
+  /**
+   * The lang (or type) attribute of a style section
+   */
+  private getStyleLang(styleNode: any): string | undefined {
+    const attribute = (styleNode.attributes ?? []).find((attr: any) => attr.name === 'lang' || attr.name === 'type');
+    return Array.isArray(attribute?.value) ? attribute.value[0]?.data : undefined;
+  }
+
   private extractStyleContent(styleNode: any, fullContent: string): string {
     const start = styleNode.content.start;
     const end = styleNode.content.end;
@@ -439,33 +458,8 @@ export class SvelteParser extends Parser {
     }
   }
 
-  private getMemberExpressionName(node: t.MemberExpression): string {
-    const parts: string[] = [];
-    
-    const traverse = (n: t.Expression): void => {
-      if (t.isIdentifier(n)) {
-        parts.unshift(n.name);
-      } else if (t.isMemberExpression(n)) {
-        if (t.isIdentifier(n.property)) {
-          parts.unshift(n.property.name);
-        }
-        traverse(n.object);
-      }
-    };
-    
-    traverse(node);
-    return parts.join('.');
-  }
-
   private isTopLevelAwait(path: any): boolean {
-    let parent = path.parent;
-    while (parent) {
-      if (t.isFunction(parent) || t.isArrowFunctionExpression(parent)) {
-        return false;
-      }
-      parent = path.parentPath?.parent;
-    }
-    return true;
+    return path.getFunctionParent() === null;
   }
 
   private extractSelectorFeature(selector: string): string {
@@ -0,0 +1,211 @@
+import { existsSync } from 'fs';
+import { createRequire } from 'module';
+import { join, resolve } from 'path';
+import type * as TS from 'typescript';
+import { parse as parseBabel } from '@babel/parser';
+import { GuardDetector } from './guard-detector.js';
+import { FeatureIndex } from '../core/feature-index.js';
+import { logger } from '../core/debug-logger.js';
+import type { DetectedFeature } from '../types/index.js';
+
+type TypeScript = typeof TS;
+
+/**
+ * Built-in method detection backed by the TypeScript type checker
+ *
+ * Loads the project's tsconfig and TypeScript install and resolves each method
+ * call to the declaration it binds to. A call is reported only when that
+ * declaration comes from TypeScript's default library, so `list.at(-1)` counts
+ * when `list` is an array or string and never on a custom class with its own
+ * `at()`; statics such as `Object.hasOwn` resolve through their constructor.
+ * Features carry the exact web-features ID of the BCD key, e.g.
+ * `javascript.builtins.Array.findLast` -> `array-findlast`.
+ *
+ * The last program per tsconfig is kept and passed to the next one as
+ * `oldProgram`, so watch mode only re-parses files whose text changed.
+ */
+export class TypeAwareAnalyzer {
+  private static readonly TYPED_ARRAY = /^(Int8|Uint8|Uint8Clamped|Int16|Uint16|Int32|Uint32|Float32|Float64|BigInt64|BigUint64)Array$/;
+
+  private static readonly categoryLogger = logger.createCategoryLogger('type-aware-analyzer');
+  private static readonly previousPrograms = new Map<string, TS.Program>();
+
+  private constructor(
+    private readonly ts: TypeScript,
+    private readonly program: TS.Program,
+    private readonly index: FeatureIndex
+  ) {}
+
+  /**
+   * Build a program from the project's tsconfig.json, reading `sources` from memory
+   * instead of disk; null when there is no tsconfig or TypeScript can't be loaded
+   */
+  static async create(path: string = process.cwd(), sources?: Map<string, string>): Promise<TypeAwareAnalyzer | null> {
+    const configPath = join(path, 'tsconfig.json');
+    if (!existsSync(configPath)) {
+      this.categoryLogger.warn('Type-aware analysis needs a tsconfig.json; falling back to name matching', { path });
+      return null;
+    }
+
+    const ts = await this.loadTypeScript(path);
+    if (!ts) {
+      this.categoryLogger.warn('Could not load TypeScript for type-aware analysis; falling back to name matching', { path });
+      return null;
+    }
+
+    const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+    if (error) {
+      this.categoryLogger.warn('Could not read tsconfig.json', { configPath, error: ts.flattenDiagnosticMessageText(error.messageText, '\n') });
+      return null;
+    }
+
+    const parsed = ts.parseJsonConfigFileContent(config, ts.sys, path);
+    const options = { ...parsed.options, noEmit: true };
+    const host = ts.createCompilerHost(options);
+    const files = new Map(Array.from(sources ?? [], ([file, content]) => [resolve(path, file), content]));
+
+    if (files.size > 0) {
+      const { fileExists, readFile } = host;
+      host.fileExists = file => files.has(resolve(file)) || fileExists.call(host, file);
+      host.readFile = file => files.get(resolve(file)) ?? readFile.call(host, file);
+    }
+
+    // Hand back the previous program's source files whose text is unchanged so they aren't parsed again
+    const oldProgram = this.previousPrograms.get(configPath);
+    const { getSourceFile } = host;
+    host.getSourceFile = (fileName, languageVersion, onError, shouldCreateNewSourceFile) => {
+      const previous = oldProgram?.getSourceFile(fileName);
+      if (previous && !shouldCreateNewSourceFile && previous.text === host.readFile(fileName)) {
+        return previous;
+      }
+      return getSourceFile.call(host, fileName, languageVersion, onError, shouldCreateNewSourceFile);
+    };
+
+    const program = ts.createProgram({
+      rootNames: Array.from(new Set([...parsed.fileNames, ...files.keys()])),
+      options,
+      host,
+      oldProgram
+    });
+    this.previousPrograms.set(configPath, program);
+
+    return new TypeAwareAnalyzer(ts, program, await FeatureIndex.load());
+  }
+
+  /**
+   * Built-in prototype method calls in a file of the program
+   */
+  analyze(filePath: string): DetectedFeature[] {
+    const sourceFile = this.program.getSourceFile(resolve(filePath));
+    if (!sourceFile) {
+      return [];
+    }
+
+    const ts = this.ts;
+    const checker = this.program.getTypeChecker();
+    const lines = sourceFile.text.split('\n');
+    const features: DetectedFeature[] = [];
+
+    const visit = (node: TS.Node): void => {
+      if (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression)) {
+        const method = node.expression.name;
+        const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+
+        for (const { owner, isStatic } of this.getBuiltinOwners(checker.getSymbolAtLocation(method))) {
+          const compatKey = `javascript.builtins.${owner}.${method.text}`;
+          // BCD suffixes statics that share a name with a prototype method, e.g. Array.of vs. the of_static key
+          const featureId = this.index.lookupCompatKey(compatKey) ?? (isStatic ? this.index.lookupCompatKey(`${compatKey}_static`) : null);
+          if (featureId) {
+            features.push({
+              feature: isStatic ? `${owner}.${method.text}` : `${owner}.prototype.${method.text}`,
+              featureId,
+              type: 'js',
+              line: line + 1,
+              column: character,
+              context: (lines[line] ?? '').trim(),
+              file: filePath
+            });
+          }
+        }
+      }
+
+      ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+
+    // A union receiver like string | string[] resolves to both owners; one report per feature is enough
+    const unique = features.filter((feature, index) =>
+      features.findIndex(other => other.line === feature.line && other.column === feature.column && other.featureId === feature.featureId) === index
+    );
+    this.markGuards(unique, sourceFile);
+    return unique;
+  }
+
+  /**
+   * Mark calls inside feature-detection branches as guarded, as the name-matching parsers do
+   */
+  private markGuards(features: DetectedFeature[], sourceFile: TS.SourceFile): void {
+    if (features.length === 0) {
+      return;
+    }
+
+    try {
+      const ast = parseBabel(sourceFile.text, {
+        sourceType: 'unambiguous',
+        plugins: ['typescript', 'decorators-legacy', ...(/\.[jt]sx$/.test(sourceFile.fileName) ? ['jsx' as const] : [])]
+      });
+      GuardDetector.markJSGuards(ast, features, sourceFile.text);
+    } catch (error) {
+      TypeAwareAnalyzer.categoryLogger.warn('Could not read feature detection guards', {
+        file: sourceFile.fileName,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Built-ins declaring a method symbol in the default library, e.g. Array for ReadonlyArray.at,
+   * TypedArray for Int8Array.at, or a static Object for ObjectConstructor.hasOwn
+   */
+  private getBuiltinOwners(symbol: TS.Symbol | undefined): Array<{ owner: string; isStatic: boolean }> {
+    const owners = new Map<string, boolean>();
+
+    for (const declaration of symbol?.declarations ?? []) {
+      const parent = declaration.parent;
+      if (!this.ts.isInterfaceDeclaration(parent) || !this.program.isSourceFileDefaultLibrary(declaration.getSourceFile())) {
+        continue;
+      }
+
+      const name = parent.name.text.replace(/^Readonly(?=[A-Z])/, '');
+      const isStatic = name.endsWith('Constructor');
+      const owner = name.replace(/Constructor$/, '');
+      owners.set(TypeAwareAnalyzer.TYPED_ARRAY.test(owner) ? 'TypedArray' : owner, isStatic);
+    }
+
+    return Array.from(owners, ([owner, isStatic]) => ({ owner, isStatic }));
+  }
+
+  /**
+   * Whether a file is part of the program, so its method calls are resolved by type
+   */
+  covers(filePath: string): boolean {
+    return this.program.getSourceFile(resolve(filePath)) !== undefined;
+  }
+
+  /**
+   * The project's own TypeScript, falling back to the one BaseGuard was installed with
+   */
+  private static async loadTypeScript(path: string): Promise<TypeScript | null> {
+    try {
+      return createRequire(join(path, 'package.json'))('typescript') as TypeScript;
+    } catch {
+      try {
+        const module = await import('typescript');
+        return (module.default ?? module) as TypeScript;
+      } catch {
+        return null;
+      }
+    }
+  }
+}
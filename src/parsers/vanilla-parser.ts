@@ -1,13 +1,42 @@
 import { Parser } from './parser.js';
 import type { DetectedFeature } from '../types/index.js';
 import { parse as parseBabel } from '@babel/parser';
-import traverse from '@babel/traverse';
+import babelTraverse from '@babel/traverse';
 import * as t from '@babel/types';
-import postcss from 'postcss';
+import { GuardDetector } from './guard-detector.js';
+import { StyleSyntax, type StyleLanguage } from './style-syntax.js';
+import { CSSInJS } from './css-in-js.js';
+import { FeatureIndex } from '../core/feature-index.js';
+import { GlobalAPIResolver } from './global-api-resolver.js';
+import { SAXParser, type StartTag } from 'parse5-sax-parser';
+
+// @babel/traverse is CommonJS; under Node ESM the default import is the module object
+const traverse = (babelTraverse as unknown as typeof import('@babel/traverse')).default ?? babelTraverse;
+
+/**
+ * Where an inline block's text starts in the document; line is 1-based, column 0-based
+ */
+interface BlockOffset {
+  line: number;
+  column: number;
+}
+
+type TagLocation = NonNullable<StartTag['sourceCodeLocation']> & {
+  attrs?: Record<string, NonNullable<StartTag['sourceCodeLocation']>>;
+};
+
+/**
+ * A <script> or <style> element's text and attributes
+ */
+interface InlineBlock extends BlockOffset {
+  tagName: 'script' | 'style';
+  attributes: Record<string, string>;
+  text: string;
+}
 
 /**
  * Vanilla JavaScript/CSS/HTML parser - extracts ALL web platform features
- * Handles .js, .ts, .html, and .css files with comprehensive feature detection
+ * Handles .js, .ts, .html, .css, .scss, .sass and .less files with comprehensive feature detection
  */
 export class VanillaParser extends Parser {
   private readonly WEB_PLATFORM_APIS = new Set([
@@ -207,6 +236,9 @@ export class VanillaParser extends Parser {
     '::first-line', '::before', '::after', '::file-selector-button'
   ]);
 
+  // Reported even where web-features has no entry for them
+  private readonly CSS_FUNCTIONS = new Set(['var', 'calc', 'clamp', 'min', 'max', 'minmax']);
+
   private readonly HTML_ELEMENTS = new Set([
     // Modern semantic elements
     'dialog', 'details', 'summary', 'main', 'article', 'section', 'nav', 'aside',
@@ -219,7 +251,7 @@ export class VanillaParser extends Parser {
     'datalist', 'output', 'keygen', 'fieldset', 'legend',
     
     // Interactive elements
-    'slot', 'template'
+    'slot', 'template', 'search'
   ]);
 
   private readonly HTML_ATTRIBUTES = new Set([
@@ -234,22 +266,37 @@ export class VanillaParser extends Parser {
     'preload', 'readonly', 'referrerpolicy', 'rel', 'required', 'reversed',
     'rows', 'rowspan', 'sandbox', 'scope', 'selected', 'shape', 'size',
     'sizes', 'span', 'spellcheck', 'srcdoc', 'srclang', 'srcset', 'start',
-    'step', 'target', 'translate', 'type', 'usemap', 'value', 'wrap'
+    'step', 'target', 'translate', 'type', 'usemap', 'value', 'wrap',
+    'popover', 'inert', 'closedby'
   ]);
 
+  // Attributes that are only a newer feature with these values
+  private readonly HTML_ATTRIBUTE_VALUES: Record<string, RegExp> = {
+    loading: /^lazy$/i,
+    decoding: /^async$/i
+  };
+
   canParse(filePath: string): boolean {
-    return /\.(js|ts|html|css)$/.test(filePath);
+    return /\.(js|ts|html|css|scss|sass|less)$/.test(filePath);
   }
 
   async parseFeatures(content: string, filePath: string): Promise<DetectedFeature[]> {
-    const extension = this.getFileExtension(filePath);
-    
+    return this.parseAs(content, filePath, this.getFileExtension(filePath));
+  }
+
+  /**
+   * Parse content as a file with the given extension, e.g. a `<script>` or `<style>` region of a component
+   */
+  async parseAs(content: string, filePath: string, extension: string): Promise<DetectedFeature[]> {
     switch (extension) {
       case '.js':
       case '.ts':
         return this.parseJavaScript(content, filePath, extension === '.ts');
       case '.css':
-        return this.parseCSS(content, filePath);
+      case '.scss':
+      case '.sass':
+      case '.less':
+        return this.parseCSS(content, filePath, StyleSyntax.fromPath(extension) ?? 'css');
       case '.html':
         return await this.parseHTML(content, filePath);
       default:
@@ -257,12 +304,17 @@ export class VanillaParser extends Parser {
     }
   }
 
-  private async parseJavaScript(content: string, filePath: string, isTypeScript: boolean): Promise<DetectedFeature[]> {
+  private async parseJavaScript(
+    content: string,
+    filePath: string,
+    isTypeScript: boolean,
+    sourceType: 'module' | 'script' = 'module'
+  ): Promise<DetectedFeature[]> {
     const features: DetectedFeature[] = [];
     
     try {
       const ast = parseBabel(content, {
-        sourceType: 'module',
+        sourceType,
         plugins: [
           'typescript' as any,
           'decorators-legacy' as any,
@@ -281,23 +333,36 @@ export class VanillaParser extends Parser {
         ].filter(plugin => isTypeScript || plugin !== 'typescript')
       });
 
+      const index = await FeatureIndex.load();
+
       traverse(ast, {
-        // Extract Web API member expressions
-        MemberExpression: (path: any) => {
-          const feature = this.extractWebAPIFeature(path.node, content);
+        // Extract Web API function calls
+        CallExpression: (path: any) => {
+          const feature = this.extractWebAPICall(path, content, index);
           if (feature) {
             features.push({ ...feature, file: filePath });
           }
+
+          if (CSSInJS.isStyleCall(path.node)) {
+            features.push(...CSSInJS.extractFromCall(path.node, content, filePath));
+          }
         },
 
-        // Extract Web API function calls
-        CallExpression: (path: any) => {
-          const feature = this.extractWebAPICall(path.node, content);
+        // Extract Web API constructors
+        NewExpression: (path: any) => {
+          const feature = this.extractWebAPICall(path, content, index);
           if (feature) {
             features.push({ ...feature, file: filePath });
           }
         },
 
+        // CSS in Lit, styled-components and Emotion tagged templates
+        TaggedTemplateExpression: (path: any) => {
+          if (CSSInJS.isStyleTag(path.node.tag)) {
+            features.push(...CSSInJS.extractFromTemplate(path.node, content, filePath));
+          }
+        },
+
         // Modern JavaScript syntax features
         OptionalMemberExpression: (path: any) => {
           features.push({
@@ -411,6 +476,8 @@ export class VanillaParser extends Parser {
         }
       });
 
+      GuardDetector.markJSGuards(ast, features, content);
+
     } catch (error) {
       console.warn(`Warning: Could not parse JavaScript file ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -418,15 +485,21 @@ export class VanillaParser extends Parser {
     return features;
   }
 
-  private async parseCSS(content: string, filePath: string): Promise<DetectedFeature[]> {
+  private async parseCSS(content: string, filePath: string, language: StyleLanguage = 'css'): Promise<DetectedFeature[]> {
     const features: DetectedFeature[] = [];
     
     try {
-      const root = postcss.parse(content);
+      const root = StyleSyntax.parse(content, language);
+      const index = await FeatureIndex.load();
       
       // Extract CSS properties
       root.walkDecls((decl: any) => {
-        if (this.CSS_PROPERTIES.has(decl.prop) || decl.prop.startsWith('--')) {
+        if (StyleSyntax.isPreprocessorDeclaration(decl.prop)) {
+          return;
+        }
+
+        const propertyReported = this.CSS_PROPERTIES.has(decl.prop) || decl.prop.startsWith('--');
+        if (propertyReported) {
           features.push({
             feature: decl.prop,
             type: 'css',
@@ -437,21 +510,21 @@ export class VanillaParser extends Parser {
           });
         }
 
-        // Check for CSS functions in values
-        if (decl.value.includes('var(') || decl.value.includes('calc(') || 
-            decl.value.includes('clamp(') || decl.value.includes('min(') || 
-            decl.value.includes('max(')) {
-          const func = this.extractCSSFunction(decl.value);
-          if (func) {
-            features.push({
-              feature: func,
-              type: 'css',
-              context: `${decl.prop}: ${decl.value}`,
-              line: decl.source?.start?.line || 0,
-              column: decl.source?.start?.column || 0,
-              file: filePath
-            });
+        // Value keywords, functions and units; a value that belongs to the property's own
+        // feature (container-type: inline-size) is already reported with the property
+        const propertyId = propertyReported ? index.lookup(decl.prop, 'css') : null;
+        for (const feature of this.extractCSSValueFeatures(decl.prop, decl.value, index)) {
+          if (propertyId && index.lookup(feature, 'css') === propertyId) {
+            continue;
           }
+          features.push({
+            feature,
+            type: 'css',
+            context: `${decl.prop}: ${decl.value}`,
+            line: decl.source?.start?.line || 0,
+            column: decl.source?.start?.column || 0,
+            file: filePath
+          });
         }
       });
 
@@ -473,16 +546,29 @@ export class VanillaParser extends Parser {
 
       // Extract at-rules
       root.walkAtRules((atRule: any) => {
+        if (StyleSyntax.isPreprocessorAtRule(atRule, language)) {
+          return;
+        }
+
         const atRuleName = `@${atRule.name}`;
-        features.push({
-          feature: atRuleName,
-          type: 'css',
-          context: `${atRuleName} ${atRule.params}`,
-          line: atRule.source?.start?.line || 0,
-          column: atRule.source?.start?.column || 0,
-          file: filePath
-        });
+        const atRuleFeatures = [atRuleName];
+        if (atRule.name.toLowerCase() === 'media') {
+          atRuleFeatures.push(...this.extractMediaFeatures(atRule.params, index));
+        }
+
+        for (const feature of atRuleFeatures) {
+          features.push({
+            feature,
+            type: 'css',
+            context: `${atRuleName} ${atRule.params}`,
+            line: atRule.source?.start?.line || 0,
+            column: atRule.source?.start?.column || 0,
+            file: filePath
+          });
+        }
       });
+
+      GuardDetector.markCSSGuards(root, features);
       
     } catch (error) {
       console.warn(`Warning: Could not parse CSS file ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -494,174 +580,287 @@ export class VanillaParser extends Parser {
   private async parseHTML(content: string, filePath: string): Promise<DetectedFeature[]> {
     const features: DetectedFeature[] = [];
     const lines = content.split('\n');
-    
-    // Parse HTML elements and attributes
-    const elementRegex = /<(\w+)([^>]*)>/g;
-    
-    lines.forEach((line, index) => {
-      let match: RegExpExecArray | null;
-      while ((match = elementRegex.exec(line)) !== null) {
-        const tagName = match[1];
-        const attributes = match[2];
-        
-        // Check for modern HTML elements
-        if (tagName && this.HTML_ELEMENTS.has(tagName)) {
-          features.push({
-            feature: tagName!,
-            type: 'html',
-            context: line.trim(),
-            line: index + 1,
-            column: match.index,
-            file: filePath
-          });
-        }
-        
-        // Check for modern HTML attributes
-        if (attributes) {
-          const modernAttrs = this.extractHTMLAttributes(attributes);
-          modernAttrs.forEach(attr => {
-            features.push({
-              feature: attr,
-              type: 'html',
-              context: line.trim(),
-              line: index + 1,
-              column: match?.index || 0,
-              file: filePath
-            });
-          });
-        }
+    const blocks: InlineBlock[] = [];
+    const styleAttributes: Array<{ value: string; offset: BlockOffset }> = [];
+    let openBlock: InlineBlock | null = null;
+
+    // parse5 tokenizes like a browser, so tags and attributes may span lines
+    // and <script>/<style> contents are raw text
+    const parser = new SAXParser({ sourceCodeLocationInfo: true });
+
+    parser.on('startTag', (tag) => {
+      features.push(...this.extractHTMLFeatures(tag, lines, filePath));
+
+      const style = this.getStyleAttribute(tag, content);
+      if (style) {
+        styleAttributes.push(style);
+      }
+
+      if ((tag.tagName === 'script' || tag.tagName === 'style') && !tag.selfClosing) {
+        openBlock = {
+          tagName: tag.tagName,
+          attributes: Object.fromEntries(tag.attrs.map(attr => [attr.name, attr.value])),
+          text: '',
+          line: (tag.sourceCodeLocation?.endLine ?? 1),
+          column: (tag.sourceCodeLocation?.endCol ?? 1) - 1
+        };
       }
     });
 
-    // Extract inline CSS and JavaScript
-    const styleRegex = /<style[^>]*>([\s\S]*?)<\/style>/gi;
-    const scriptRegex = /<script[^>]*>([\s\S]*?)<\/script>/gi;
-    
-    // Parse inline styles
-    let styleMatch;
-    while ((styleMatch = styleRegex.exec(content)) !== null) {
-      const cssContent = styleMatch[1];
-      const cssFeatures = cssContent ? await this.parseInlineCSS(cssContent, filePath) : [];
-      features.push(...cssFeatures);
+    parser.on('text', ({ text }) => {
+      if (openBlock) {
+        openBlock.text += text;
+      }
+    });
+
+    parser.on('endTag', ({ tagName }) => {
+      if (openBlock && tagName === openBlock.tagName) {
+        blocks.push(openBlock);
+        openBlock = null;
+      }
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      parser.once('finish', () => resolve());
+      parser.once('error', reject);
+      parser.end(content);
+    });
+
+    if (openBlock) {
+      // Unclosed at the end of the document, which browsers still run
+      blocks.push(openBlock);
     }
-    
-    // Parse inline scripts
-    let scriptMatch;
-    while ((scriptMatch = scriptRegex.exec(content)) !== null) {
-      const jsContent = scriptMatch[1];
-      const jsFeatures = jsContent ? await this.parseInlineJS(jsContent, filePath) : [];
-      features.push(...jsFeatures);
+
+    // Parse inline styles and scripts where they sit in the document
+    for (const block of blocks) {
+      if (!block.text.trim()) {
+        continue;
+      }
+
+      if (block.tagName === 'style') {
+        features.push(...await this.parseInlineCSS(block.text, filePath, block));
+        continue;
+      }
+
+      const sourceType = this.getScriptSourceType(block.attributes);
+      if (sourceType) {
+        features.push(...await this.parseInlineJS(block.text, filePath, block, sourceType));
+      }
+    }
+
+    // style="..." declarations, wrapped in a rule so they parse as a stylesheet
+    for (const { value, offset } of styleAttributes) {
+      features.push(...await this.parseInlineCSS(`*{${value}}`, filePath, offset));
     }
 
     return features;
   }
 
-  private async parseInlineCSS(cssContent: string, filePath: string): Promise<DetectedFeature[]> {
+  /**
+   * A start tag's style attribute and where its value starts, shifted back over the
+   * two-character `*{` wrapper it is parsed in
+   */
+  private getStyleAttribute(tag: StartTag, content: string): { value: string; offset: BlockOffset } | null {
+    const value = tag.attrs.find(attr => attr.name === 'style')?.value;
+    const position = (tag.sourceCodeLocation as TagLocation | null | undefined)?.attrs?.style;
+    if (!value?.trim() || !position) {
+      return null;
+    }
+
+    // Character references make the value differ from the source; fall back to the attribute itself
+    const start = content.slice(position.startOffset, position.endOffset).indexOf(value);
+    const valueOffset = position.startOffset + Math.max(start, 0);
+    const before = content.slice(0, valueOffset);
+
+    return {
+      value,
+      offset: {
+        line: before.split('\n').length,
+        column: valueOffset - (before.lastIndexOf('\n') + 1) - 2
+      }
+    };
+  }
+
+  /**
+   * Modern elements and attributes on a start tag, positioned at the tag or attribute
+   */
+  private extractHTMLFeatures(tag: StartTag, lines: string[], filePath: string): DetectedFeature[] {
+    const features: DetectedFeature[] = [];
+    // Start tags carry the location of each attribute as well
+    const location = tag.sourceCodeLocation as TagLocation | null | undefined;
+    const push = (feature: string, position?: { startLine: number; startCol: number } | null): void => {
+      const line = position?.startLine ?? 1;
+      features.push({
+        feature,
+        type: 'html',
+        context: lines[line - 1]?.trim() ?? '',
+        line,
+        column: (position?.startCol ?? 1) - 1,
+        file: filePath
+      });
+    };
+
+    if (this.HTML_ELEMENTS.has(tag.tagName)) {
+      push(tag.tagName, location);
+    }
+
+    // Qualified by element, since BCD keys attributes such as loading per element
+    for (const attr of tag.attrs) {
+      const value = this.HTML_ATTRIBUTE_VALUES[attr.name];
+      if (this.HTML_ATTRIBUTES.has(attr.name) && (!value || value.test(attr.value.trim()))) {
+        const name = value ? `${attr.name}="${attr.value.trim().toLowerCase()}"` : attr.name;
+        push(`${tag.tagName}[${name}]`, location?.attrs?.[attr.name] ?? location);
+      }
+    }
+
+    if (tag.tagName === 'script') {
+      const type = tag.attrs.find(attr => attr.name === 'type')?.value.trim().toLowerCase();
+      if (type === 'module') {
+        push('js-modules', location);
+      } else if (type === 'importmap') {
+        push('import-maps', location);
+      }
+    }
+
+    return features;
+  }
+
+  /**
+   * How a <script> block runs, or null if it never runs as JavaScript here
+   *
+   * `nomodule` scripts are the fallback for browsers without module support, and
+   * other types such as JSON, import maps and templates are data.
+   */
+  private getScriptSourceType(attributes: Record<string, string>): 'module' | 'script' | null {
+    if ('nomodule' in attributes) {
+      return null;
+    }
+
+    const type = (attributes.type ?? '').trim().toLowerCase();
+    if (type === 'module') {
+      return 'module';
+    }
+    if (type === '' || /^(text|application)\/(x-)?(java|ecma)script$/.test(type)) {
+      return 'script';
+    }
+    return null;
+  }
+
+  private async parseInlineCSS(cssContent: string, filePath: string, offset: BlockOffset): Promise<DetectedFeature[]> {
     try {
-      return await this.parseCSS(cssContent, filePath);
+      return this.offsetFeatures(await this.parseCSS(cssContent, filePath), offset);
     } catch (error) {
       console.warn(`Warning: Could not parse inline CSS in ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
       return [];
     }
   }
 
-  private async parseInlineJS(jsContent: string, filePath: string): Promise<DetectedFeature[]> {
+  private async parseInlineJS(
+    jsContent: string,
+    filePath: string,
+    offset: BlockOffset,
+    sourceType: 'module' | 'script'
+  ): Promise<DetectedFeature[]> {
     try {
-      return await this.parseJavaScript(jsContent, filePath, false);
+      return this.offsetFeatures(await this.parseJavaScript(jsContent, filePath, false, sourceType), offset);
     } catch (error) {
       console.warn(`Warning: Could not parse inline JavaScript in ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
       return [];
     }
   }
 
-  private extractWebAPIFeature(node: t.MemberExpression, content: string): DetectedFeature | null {
-    const apiName = this.getMemberExpressionName(node);
-    
-    if (this.WEB_PLATFORM_APIS.has(apiName)) {
-      return {
-        feature: apiName,
-        type: 'js',
-        context: this.getContext(content, node.loc?.start.line || 0),
-        line: node.loc?.start.line || 0,
-        column: node.loc?.start.column || 0
-      };
-    }
-
-    return null;
+  /**
+   * Map positions in an inline block to positions in the document
+   */
+  private offsetFeatures(features: DetectedFeature[], offset: BlockOffset): DetectedFeature[] {
+    return features.map(feature => ({
+      ...feature,
+      line: feature.line + offset.line - 1,
+      column: feature.line === 1 ? feature.column + offset.column : feature.column
+    }));
   }
 
-  private extractWebAPICall(node: t.CallExpression, content: string): DetectedFeature | null {
-    let apiName = '';
-    
-    if (t.isIdentifier(node.callee)) {
-      apiName = node.callee.name;
-    } else if (t.isMemberExpression(node.callee)) {
-      apiName = this.getMemberExpressionName(node.callee);
-    }
+  /**
+   * Web API used by a call or `new` expression, resolved through scope bindings
+   */
+  private extractWebAPICall(path: any, content: string, index: FeatureIndex): DetectedFeature | null {
+    const node = path.node as t.CallExpression | t.NewExpression;
+    const apiName = GlobalAPIResolver.resolveCall(node.callee, path.scope, index, this.WEB_PLATFORM_APIS);
 
-    if (this.WEB_PLATFORM_APIS.has(apiName)) {
-      return {
-        feature: apiName,
-        type: 'js',
-        context: this.getContext(content, node.loc?.start.line || 0),
-        line: node.loc?.start.line || 0,
-        column: node.loc?.start.column || 0
-      };
+    if (!apiName) {
+      return null;
     }
 
-    return null;
+    return {
+      feature: apiName,
+      type: 'js',
+      context: this.getContext(content, node.loc?.start.line || 0),
+      line: node.loc?.start.line || 0,
+      column: node.loc?.start.column || 0
+    };
   }
 
-  private extractCSSFunction(value: string): string | null {
-    const functions = ['var(', 'calc(', 'clamp(', 'min(', 'max(', 'minmax('];
-    for (const func of functions) {
-      if (value.includes(func)) {
-        return func.replace('(', '()');
+  /**
+   * Value-level features of a declaration that web-features tracks: keywords
+   * (`position: sticky`), functions (`clamp()`, `oklch()`), relative colors
+   * (`oklch(from)`) and units (`dvh`)
+   */
+  private extractCSSValueFeatures(prop: string, value: string, index: FeatureIndex): string[] {
+    const found = new Set<string>();
+    const property = prop.toLowerCase();
+    // Strings and url() contents are not CSS values
+    const source = value.replace(/url\([^)]*\)|"[^"]*"|'[^']*'/gi, ' ').toLowerCase();
+
+    for (const match of source.matchAll(/([a-z-]+)\(\s*(from\b)?/g)) {
+      const name = match[1] ?? '';
+      if (this.CSS_FUNCTIONS.has(name) || index.lookup(`${name}()`, 'css')) {
+        found.add(`${name}()`);
+      }
+      if (match[2] && index.lookup(`${name}(from)`, 'css')) {
+        found.add(`${name}(from)`);
       }
     }
-    return null;
-  }
 
-  private extractHTMLAttributes(attributes: string): string[] {
-    const modernAttrs: string[] = [];
-    
-    this.HTML_ATTRIBUTES.forEach(attr => {
-      const attrRegex = new RegExp(`\\b${attr}\\b`, 'i');
-      if (attrRegex.test(attributes)) {
-        modernAttrs.push(attr);
+    for (const match of source.matchAll(/(?:^|[^\w.#-])[+-]?(?:\d*\.)?\d+(?:e[+-]?\d+)?([a-z]+)\b/g)) {
+      const unit = match[1] ?? '';
+      if (index.lookup(unit, 'css')) {
+        found.add(unit);
       }
-    });
+    }
 
-    return modernAttrs;
+    for (const match of source.matchAll(/(?:^|[\s,/])([a-z][a-z-]*)(?=$|[\s,/!])/g)) {
+      const keyword = `${property}: ${match[1] ?? ''}`;
+      if (index.lookup(keyword, 'css')) {
+        found.add(keyword);
+      }
+    }
+
+    return [...found];
   }
 
-  private getMemberExpressionName(node: t.MemberExpression): string {
-    const parts: string[] = [];
-    
-    const traverse = (n: t.Expression): void => {
-      if (t.isIdentifier(n)) {
-        parts.unshift(n.name);
-      } else if (t.isMemberExpression(n)) {
-        if (t.isIdentifier(n.property)) {
-          parts.unshift(n.property.name);
-        }
-        traverse(n.object);
+  /**
+   * Media features such as `(prefers-color-scheme: dark)` and range syntax like `(width >= 600px)`
+   */
+  private extractMediaFeatures(params: string, index: FeatureIndex): string[] {
+    const found = new Set<string>();
+    const condition = params.toLowerCase();
+
+    for (const match of condition.matchAll(/\(\s*([a-z-]+)\s*(?=[:)])/g)) {
+      const feature = `@media (${match[1] ?? ''})`;
+      if (index.lookup(feature, 'css')) {
+        found.add(feature);
       }
-    };
-    
-    traverse(node);
-    return parts.join('.');
+    }
+
+    if (/\([^():]*(?:<|>|[^<>]=)[^():]*\)/.test(condition) && index.lookup('@media range syntax', 'css')) {
+      found.add('@media range syntax');
+    }
+
+    return [...found];
   }
 
   private isTopLevelAwait(path: any): boolean {
-    let parent = path.parent;
-    while (parent) {
-      if (t.isFunction(parent) || t.isArrowFunctionExpression(parent)) {
-        return false;
-      }
-      parent = path.parentPath?.parent;
-    }
-    return true;
+    return path.getFunctionParent() === null;
   }
 
   private getFileExtension(filePath: string): string {
@@ -676,7 +875,7 @@ export class VanillaParser extends Parser {
   }
 
   getSupportedExtensions(): string[] {
-    return ['.js', '.ts', '.html', '.css'];
+    return ['.js', '.ts', '.html', '.css', '.scss', '.sass', '.less'];
   }
 
   getName(): string {
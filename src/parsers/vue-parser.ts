@@ -1,6 +1,10 @@
 import { Parser } from './parser.js';
 import type { DetectedFeature } from '../types/index.js';
 import { LazyLoader } from '../core/lazy-loader.js';
+import { FeatureIndex } from '../core/feature-index.js';
+import { GuardDetector } from './guard-detector.js';
+import { StyleSyntax } from './style-syntax.js';
+import { GlobalAPIResolver } from './global-api-resolver.js';
 import * as t from '@babel/types';
 
 /**
@@ -94,7 +98,7 @@ export class VueParser extends Parser {
           descriptor.script.lang || 'js',
           filePath
         );
-        features.push(...scriptFeatures);
+        features.push(...this.offsetLines(scriptFeatures, descriptor.script.loc.start.line));
       }
       
       if (descriptor.scriptSetup) {
@@ -103,7 +107,7 @@ export class VueParser extends Parser {
           descriptor.scriptSetup.lang || 'js',
           filePath
         );
-        features.push(...setupFeatures);
+        features.push(...this.offsetLines(setupFeatures, descriptor.scriptSetup.loc.start.line));
       }
       
       // Parse style blocks for CSS features
@@ -114,7 +118,7 @@ export class VueParser extends Parser {
             style.lang || 'css',
             filePath
           );
-          features.push(...styleFeatures);
+          features.push(...this.offsetLines(styleFeatures, style.loc.start.line));
         }
       }
       
@@ -124,7 +128,7 @@ export class VueParser extends Parser {
           descriptor.template.content,
           filePath
         );
-        features.push(...templateFeatures);
+        features.push(...this.offsetLines(templateFeatures, descriptor.template.loc.start.line));
       }
       
     } catch (error) {
@@ -134,6 +138,14 @@ export class VueParser extends Parser {
     return features;
   }
 
+  /**
+   * Map block-relative line numbers to lines in the .vue file
+   */
+  private offsetLines(features: DetectedFeature[], blockStartLine: number): DetectedFeature[] {
+    const offset = blockStartLine - 1;
+    return features.map(feature => ({ ...feature, line: feature.line + offset }));
+  }
+
   private async parseScriptBlock(content: string, lang: string, filePath: string): Promise<DetectedFeature[]> {
     const features: DetectedFeature[] = [];
     
@@ -164,18 +176,20 @@ export class VueParser extends Parser {
         ].filter(plugin => isTypeScript || plugin !== 'typescript')
       });
 
+      const index = await FeatureIndex.load();
+
       traverse(ast, {
-        // Extract JavaScript Web APIs
-        MemberExpression: (path: any) => {
-          const feature = this.extractWebAPIFeature(path.node, path, content);
+        // Extract function calls to Web APIs
+        CallExpression: (path: any) => {
+          const feature = this.extractWebAPICall(path, content, index);
           if (feature) {
             features.push({ ...feature, file: filePath });
           }
         },
 
-        // Extract function calls to Web APIs
-        CallExpression: (path: any) => {
-          const feature = this.extractWebAPICall(path.node, path, content);
+        // Extract Web API constructors
+        NewExpression: (path: any) => {
+          const feature = this.extractWebAPICall(path, content, index);
           if (feature) {
             features.push({ ...feature, file: filePath });
           }
@@ -234,6 +248,8 @@ export class VueParser extends Parser {
         }
       });
 
+      GuardDetector.markJSGuards(ast, features, content);
+
     } catch (error) {
       console.warn(`Warning: Could not parse script block in ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -245,13 +261,16 @@ export class VueParser extends Parser {
     const features: DetectedFeature[] = [];
     
     try {
-      // For now, only handle CSS (not SCSS, Less, etc.)
-      if (lang === 'css' || !lang) {
-        // Lazy load PostCSS
-        const postcss = await LazyLoader.getPostCSS();
-        const root = postcss.parse(content);
+      // CSS, SCSS, Sass and Less; other preprocessors such as Stylus are skipped
+      const language = StyleSyntax.fromLang(lang);
+      if (language) {
+        const root = StyleSyntax.parse(content, language);
         
         root.walkDecls((decl: any) => {
+          if (StyleSyntax.isPreprocessorDeclaration(decl.prop)) {
+            return;
+          }
+
           features.push({
             feature: decl.prop,
             type: 'css',
@@ -280,6 +299,10 @@ export class VueParser extends Parser {
         });
 
         root.walkAtRules((atRule: any) => {
+          if (StyleSyntax.isPreprocessorAtRule(atRule, language)) {
+            return;
+          }
+
           // Extract at-rules like @supports, @container, etc.
           features.push({
             feature: `@${atRule.name}`,
@@ -290,6 +313,8 @@ export class VueParser extends Parser {
             file: filePath
           });
         });
+
+        GuardDetector.markCSSGuards(root, features);
       }
     } catch (error) {
       console.warn(`Warning: Could not parse style block in ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -328,7 +353,7 @@ export class VueParser extends Parser {
           const modernAttrs = this.extractModernAttributes(attributes);
           modernAttrs.forEach(attr => {
             features.push({
-              feature: attr,
+              feature: `${tagName}[${attr}]`,
               type: 'html',
               context: line.trim(),
               line: index + 1,
@@ -343,79 +368,28 @@ export class VueParser extends Parser {
     return features;
   }
 
-  private extractWebAPIFeature(node: t.MemberExpression, path: any, content: string): DetectedFeature | null {
-    const apiName = this.getMemberExpressionName(node);
-    
-    if (!apiName || this.VUE_SPECIFIC_APIS.has(apiName)) {
-      return null;
-    }
-
-    if (this.WEB_PLATFORM_APIS.has(apiName)) {
-      return {
-        feature: apiName,
-        type: 'js',
-        context: this.getContext(content, node.loc?.start.line || 0),
-        line: node.loc?.start.line || 0,
-        column: node.loc?.start.column || 0
-      };
-    }
-
-    return null;
-  }
-
-  private extractWebAPICall(node: t.CallExpression, path: any, content: string): DetectedFeature | null {
-    let apiName = '';
-    
-    if (t.isIdentifier(node.callee)) {
-      apiName = node.callee.name;
-    } else if (t.isMemberExpression(node.callee)) {
-      apiName = this.getMemberExpressionName(node.callee);
-    }
+  /**
+   * Web API used by a call or `new` expression, resolved through scope bindings
+   */
+  private extractWebAPICall(path: any, content: string, index: FeatureIndex): DetectedFeature | null {
+    const node = path.node as t.CallExpression | t.NewExpression;
+    const apiName = GlobalAPIResolver.resolveCall(node.callee, path.scope, index, this.WEB_PLATFORM_APIS);
 
     if (!apiName || this.VUE_SPECIFIC_APIS.has(apiName)) {
       return null;
     }
 
-    if (this.WEB_PLATFORM_APIS.has(apiName)) {
-      return {
-        feature: apiName,
-        type: 'js',
-        context: this.getContext(content, node.loc?.start.line || 0),
-        line: node.loc?.start.line || 0,
-        column: node.loc?.start.column || 0
-      };
-    }
-
-    return null;
-  }
-
-  private getMemberExpressionName(node: t.MemberExpression): string {
-    const parts: string[] = [];
-    
-    const traverse = (n: t.Expression): void => {
-      if (t.isIdentifier(n)) {
-        parts.unshift(n.name);
-      } else if (t.isMemberExpression(n)) {
-        if (t.isIdentifier(n.property)) {
-          parts.unshift(n.property.name);
-        }
-        traverse(n.object);
-      }
+    return {
+      feature: apiName,
+      type: 'js',
+      context: this.getContext(content, node.loc?.start.line || 0),
+      line: node.loc?.start.line || 0,
+      column: node.loc?.start.column || 0
     };
-    
-    traverse(node);
-    return parts.join('.');
   }
 
   private isTopLevelAwait(path: any): boolean {
-    let parent = path.parent;
-    while (parent) {
-      if (t.isFunction(parent) || t.isArrowFunctionExpression(parent)) {
-        return false;
-      }
-      parent = path.parentPath?.parent;
-    }
-    return true;
+    return path.getFunctionParent() === null;
   }
 
   private extractSelectorFeature(selector: string): string {
@@ -14,6 +14,7 @@ export interface Violation {
   actual: string | false;    // '16' or false
   baselineStatus: string;    // 'newly' | 'widely' | false
   reason: string;            // Human-readable explanation
+  override?: string;         // 'apps/admin/**' (files of the override whose targets applied)
 }
 
 export interface Analysis {
@@ -46,6 +47,11 @@ export interface BrowserTarget {
 export interface Configuration {
   version: string;
   targets: BrowserTarget[];
+  targetSource?: 'manual' | 'browserslist';  // 'browserslist' re-resolves targets on every load
+  reportTranspiledSyntax?: boolean;           // also check syntax the project's build downlevels
+  typeAware?: boolean;                        // resolve built-in method receivers with the TypeScript type checker
+  polyfills?: PolyfillConfig;
+  overrides?: TargetOverride[];               // per-path targets; the first override matching a file applies
   apiKeys: {
     jules: string | null;
     gemini: string | null;
@@ -60,9 +66,37 @@ export interface Configuration {
     autoAnalyze: boolean;
     autoFix: boolean;
     blockCommit: boolean;
+    changedLinesOnly?: boolean;   // report only violations on lines the commit or push changes
   };
 }
 
+export interface TargetOverride {
+  files: string[];            // globs relative to the project root, e.g. 'apps/admin/**'
+  targets?: BrowserTarget[];  // replaces the top-level targets for matching files
+  ignoreFeatures?: string[];  // web-features IDs or feature names not reported for matching files
+}
+
+export interface PolyfillConfig {
+  include?: string[];     // web-features IDs, API names or polyfill modules the app loads, e.g. 'structuredClone'
+  autoDetect?: boolean;   // find core-js imports, preset-env useBuiltIns and polyfill packages (default true)
+}
+
+export interface Polyfill {
+  source: string;         // e.g. 'core-js/actual/array/at', 'whatwg-fetch' or '.baseguardrc.json'
+  featureIds: string[];   // web-features IDs it provides
+  file?: string;          // file that imports it, or the config that enables it
+}
+
+export interface PolyfilledViolation {
+  violation: Violation;
+  polyfill: Polyfill;
+}
+
+export interface GuardedViolation {
+  violation: Violation;
+  guard: string;          // the feature detection or @supports condition that covers it
+}
+
 export interface DetectedFeature {
   feature: string;        // e.g., 'container-type', 'dialog.showModal'
   type: 'css' | 'js' | 'html';
@@ -70,11 +104,153 @@ export interface DetectedFeature {
   column: number;
   context: string;        // surrounding code for display
   file?: string;          // file path where feature was detected
+  guarded?: boolean;      // inside an @supports block or JS feature-detection branch
+  guard?: string;         // the guarding condition, e.g. "@supports (container-type: inline-size)"
+  featureId?: string;     // web-features ID when the detector already knows it, e.g. from the type checker
+}
+
+export interface SuppressionDirective {
+  kind: 'disable-next-line' | 'disable-line' | 'disable' | 'enable' | 'disable-file';
+  line: number;           // line the directive appears on
+  featureIds: string[];   // empty means all features
+  reason?: string;        // text after '--' in the directive
+}
+
+export interface SuppressedViolation {
+  violation: Violation;
+  directive: SuppressionDirective;
+}
+
+export interface CheckResult {
+  violations: Violation[];
+  suppressed: SuppressedViolation[];
+  transpiled?: TranspiledFeature[];  // syntax features the build downlevels, not checked
+  polyfilled?: PolyfilledViolation[];  // violations a loaded polyfill covers
+  guarded?: GuardedViolation[];      // violations behind @supports or feature detection
+  polyfills?: Polyfill[];            // polyfills detected or configured for the project
+}
+
+export interface BuildTarget {
+  tool: 'typescript' | 'babel' | 'swc' | 'vite' | 'esbuild';
+  source: string;                // config the target was read from, e.g. 'tsconfig.json'
+  target: string;                // as configured, e.g. 'es2019' or 'chrome87, safari14'
+  esVersion?: number;            // newest ECMAScript edition kept in the output, e.g. 2019
+  browsers?: BrowserTarget[];    // browsers the output is compiled for
+  extensions: string[];          // file extensions the tool compiles
+}
+
+export interface TranspiledFeature {
+  feature: DetectedFeature;
+  buildTarget: BuildTarget;      // the build step that downlevels the feature
+}
+
+export interface WatchUpdate {
+  introduced: Violation[];
+  resolved: Violation[];
+  changedFiles: string[];
+  removedFiles: string[];
+  violations: Violation[];   // full current violation set
+}
+
+export interface ViolationBaselineEntry {
+  file: string;           // path relative to the project root, forward slashes
+  featureId: string;
+  browser: string;
+  contextHash: string;    // hash of the whitespace-normalized source context
+  count: number;          // identical occurrences in the same file
+}
+
+export interface ViolationBaselineFile {
+  version: number;
+  generatedAt: string;
+  entries: ViolationBaselineEntry[];
+}
+
+export interface FixJournalEntry {
+  id: string;             // sequential, as typed in `base fix --undo <id>`
+  appliedAt: string;      // ISO timestamp
+  filePath: string;       // path relative to the project root, forward slashes
+  feature: string;
+  featureId: string;
+  browser: string;
+  explanation: string;    // first line of the fix explanation
+  confidence: number;
+  beforeHash: string;     // sha256 of the file before the fix
+  afterHash: string;      // sha256 of the file after the fix
+  backupPath: string;     // copy of the file before the fix
+  undoneAt?: string;
+}
+
+export interface FixJournalFile {
+  version: number;
+  nextId: number;
+  entries: FixJournalEntry[];
+}
+
+export interface ParseCacheVersions {
+  format: number;         // layout of cache entries
+  baseguard: string;
+  parser: number;         // ParserManager.PARSER_VERSION
+  webFeatures: string;
+}
+
+export interface ParseCacheStats {
+  directory: string;
+  entries: number;
+  staleEntries: number;   // written by other versions or unreadable
+  sizeBytes: number;
+  versions: ParseCacheVersions;
+  oldestUse?: Date;       // least recently used entry
+  newestUse?: Date;
 }
 
 export interface CompatibilityResult {
   violations: Violation[];
   featureData: any; // web-features data structure
+  polyfilled?: PolyfilledViolation[];  // violations satisfied by a polyfill instead
+  guarded?: Violation[];               // violations the code already falls back from
+}
+
+// The subset of SARIF 2.1.0 that `base check --format sarif` writes
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: SarifRun[];
+}
+
+export interface SarifRun {
+  tool: {
+    driver: {
+      name: string;
+      informationUri: string;
+      rules: SarifRule[];
+    };
+  };
+  originalUriBaseIds: Record<string, { uri: string }>;
+  results: SarifResult[];
+}
+
+export interface SarifRule {
+  id: string;                 // web-features ID
+  name: string;
+  shortDescription: { text: string };
+  helpUri: string;
+  properties: { baselineStatus: string };
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: 'error' | 'warning';
+  message: { text: string };
+  locations: Array<{
+    physicalLocation: {
+      artifactLocation: { uri: string; uriBaseId: string };
+      region: { startLine: number; startColumn: number; snippet?: { text: string } };
+    };
+  }>;
+  properties: Pick<Violation, 'feature' | 'browser' | 'required' | 'actual' | 'baselineStatus'>;
+  suppressions?: Array<{ kind: 'inSource'; justification?: string }>;
 }
 
 export interface AutomationOptions {
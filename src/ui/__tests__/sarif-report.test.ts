@@ -0,0 +1,70 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { join } from 'path';
+import { UIComponents } from '../components.js';
+import type { Violation } from '../../types/index.js';
+
+const violation: Violation = {
+  feature: 'container-type',
+  featureId: 'container-queries',
+  file: join(process.cwd(), 'src', 'my styles', 'card#1.css'),
+  line: 3,
+  column: 0,
+  context: '.card { container-type: inline-size; }',
+  browser: 'safari',
+  required: '14',
+  actual: '16',
+  baselineStatus: 'newly',
+  reason: 'Feature requires safari 16 but target is 14'
+};
+
+describe('SARIF report', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should build a SARIF 2.1.0 log with one rule per feature and encoded URIs', () => {
+    const log = UIComponents.createSARIFReport([violation, { ...violation, line: 9, browser: 'firefox' }], [
+      { violation: { ...violation, line: 12 }, directive: { kind: 'disable-next-line', line: 11, featureIds: ['container-queries'], reason: 'progressive enhancement' } }
+    ]);
+    const run = log.runs[0]!;
+
+    expect(log.version).toBe('2.1.0');
+    expect(log.$schema).toBe('https://json.schemastore.org/sarif-2.1.0.json');
+    expect(run.tool.driver.name).toBe('BaseGuard');
+    expect(run.tool.driver.rules.map(rule => rule.id)).toEqual(['container-queries']);
+    expect(run.originalUriBaseIds['%SRCROOT%']?.uri).toMatch(/^file:\/\/.*\/$/);
+    expect(run.results).toHaveLength(3);
+    expect(run.results[0]).toMatchObject({
+      ruleId: 'container-queries',
+      ruleIndex: 0,
+      level: 'warning',
+      locations: [{
+        physicalLocation: {
+          artifactLocation: { uri: 'src/my%20styles/card%231.css', uriBaseId: '%SRCROOT%' },
+          region: { startLine: 3, startColumn: 1 }
+        }
+      }]
+    });
+    expect(run.results[2]?.suppressions).toEqual([{ kind: 'inSource', justification: 'progressive enhancement' }]);
+  });
+
+  it('should keep stdout to the report while messages are routed to stderr', () => {
+    let stdout = '';
+    vi.spyOn(process.stdout, 'write').mockImplementation(chunk => {
+      stdout += String(chunk);
+      return true;
+    });
+    const stderr = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const restore = UIComponents.routeMessagesToStderr();
+    try {
+      console.log('🔄 Switched to Offline Mode');
+      UIComponents.showSARIFReport([violation]);
+    } finally {
+      restore();
+    }
+
+    expect(stderr).toHaveBeenCalledWith('🔄 Switched to Offline Mode');
+    expect(JSON.parse(stdout).runs[0].results).toHaveLength(1);
+  });
+});
@@ -2,7 +2,9 @@ import chalk from 'chalk';
 import * as Table from 'cli-table3';
 import boxen from 'boxen';
 import ora, { type Ora } from 'ora';
-import type { Violation, Analysis, Fix, Configuration } from '../types/index.js';
+import { relative, isAbsolute } from 'path';
+import { pathToFileURL } from 'url';
+import type { Violation, Analysis, Fix, Configuration, SuppressedViolation, SuppressionDirective, TranspiledFeature, Polyfill, PolyfilledViolation, GuardedViolation, WatchUpdate, SarifLog, SarifResult, SarifRule } from '../types/index.js';
 
 /**
  * Color scheme for consistent CLI output
@@ -66,6 +68,9 @@ export class UIComponents {
     console.log(`\n  ${Colors.error('●')} ${featureInfo} ${Colors.muted('at')} ${lineInfo}`);
     console.log(`    ${Colors.muted('Browser:')} ${browserInfo}`);
     console.log(`    ${Colors.muted('Baseline:')} ${baselineInfo}`);
+    if (violation.override) {
+      console.log(`    ${Colors.muted('Override:')} ${violation.override}`);
+    }
     
     if (violation.reason) {
       console.log(`    ${Colors.muted('Issue:')} ${violation.reason}`);
@@ -175,6 +180,136 @@ export class UIComponents {
     ]);
   }
 
+  /**
+   * Show violations silenced by inline baseguard-disable comments
+   */
+  static showSuppressedSummary(suppressed: SuppressedViolation[]): void {
+    if (suppressed.length === 0) {
+      return;
+    }
+
+    console.log(Colors.muted(`\n🔇 ${suppressed.length} violation${suppressed.length === 1 ? '' : 's'} suppressed by inline comments:`));
+    suppressed.forEach(({ violation, directive }) => {
+      const location = `${violation.file}:${violation.line}`;
+      const reason = directive.reason ? ` - ${directive.reason}` : '';
+      console.log(Colors.muted(`  • ${violation.feature} (${violation.browser}) at ${location} [baseguard-${directive.kind}]${reason}`));
+    });
+  }
+
+  /**
+   * Show how many violations were hidden because they are in the baseline snapshot
+   */
+  static showBaselineSummary(knownViolations: Violation[]): void {
+    if (knownViolations.length === 0) {
+      return;
+    }
+
+    console.log(Colors.muted(`\n📌 ${knownViolations.length} known violation${knownViolations.length === 1 ? '' : 's'} matched .baseguard-baseline.json (use --no-baseline to show them)`));
+  }
+
+  /**
+   * Show syntax features that weren't checked because the build downlevels them
+   */
+  static showTranspiledSummary(transpiled: TranspiledFeature[] = []): void {
+    if (transpiled.length === 0) {
+      return;
+    }
+
+    const groups = new Map<string, number>();
+    for (const { feature, buildTarget } of transpiled) {
+      const key = `${feature.feature} (${buildTarget.source}, target ${buildTarget.target})`;
+      groups.set(key, (groups.get(key) ?? 0) + 1);
+    }
+
+    console.log(Colors.muted(`\n🔧 ${transpiled.length} syntax feature${transpiled.length === 1 ? '' : 's'} transpiled by the build and not checked (set reportTranspiledSyntax to include them):`));
+    groups.forEach((count, key) => {
+      console.log(Colors.muted(`  • ${key}${count > 1 ? ` ×${count}` : ''}`));
+    });
+  }
+
+  /**
+   * Show features not reported because the code feature-detects them, once per location
+   */
+  static showGuardedSummary(guarded: GuardedViolation[] = []): void {
+    const locations = new Map<string, { violation: GuardedViolation['violation']; guard: string; browsers: Set<string> }>();
+    for (const { violation, guard } of guarded) {
+      const key = `${violation.file}:${violation.line}:${violation.column}:${violation.feature}`;
+      const entry = locations.get(key) ?? { violation, guard, browsers: new Set<string>() };
+      entry.browsers.add(`${violation.browser} ${violation.required}`);
+      locations.set(key, entry);
+    }
+
+    if (locations.size === 0) {
+      return;
+    }
+
+    console.log(Colors.muted(`\n🚧 ${locations.size} feature${locations.size === 1 ? '' : 's'} behind feature detection or @supports, not reported:`));
+    locations.forEach(({ violation, guard, browsers }) => {
+      const location = `${this.toDisplayPath(violation.file)}:${violation.line}:${violation.column}`;
+      console.log(Colors.muted(`  • ${violation.feature} (${[...browsers].join(', ')}) ${location} ← ${guard}`));
+    });
+  }
+
+  /**
+   * Show which polyfills cover which violations, and polyfills no violation needs
+   */
+  static showPolyfillSummary(polyfilled: PolyfilledViolation[] = [], polyfills: Polyfill[] = []): void {
+    if (polyfilled.length > 0) {
+      console.log(Colors.muted(`\n💊 ${polyfilled.length} violation${polyfilled.length === 1 ? '' : 's'} covered by polyfills:`));
+      polyfilled.forEach(({ violation, polyfill }) => {
+        const location = `${this.toDisplayPath(violation.file)}:${violation.line}:${violation.column}`;
+        console.log(Colors.muted(`  • ${violation.feature} (${violation.browser} ${violation.required}) ${location} ← ${polyfill.source}`));
+      });
+    }
+
+    const used = new Set(polyfilled.map(({ polyfill }) => polyfill.source));
+    const unused = polyfills.filter(polyfill => !used.has(polyfill.source));
+    if (unused.length > 0) {
+      console.log(Colors.muted('\n💊 Polyfills no checked code needs for the current targets:'));
+      unused.forEach(polyfill => {
+        console.log(Colors.muted(`  • ${polyfill.source}${polyfill.file ? ` (${polyfill.file})` : ''}`));
+      });
+    }
+  }
+
+  /**
+   * Show violations introduced and resolved since the previous watch-mode check
+   */
+  static showWatchUpdate(update: WatchUpdate): void {
+    const time = new Date().toLocaleTimeString();
+    const changed = [...update.changedFiles, ...update.removedFiles].map(file => this.toDisplayPath(file));
+    const files = changed.length <= 3 ? changed.join(', ') : `${changed.length} files`;
+
+    console.log(Colors.muted(`\n[${time}] `) + Colors.file(files));
+
+    if (update.introduced.length === 0 && update.resolved.length === 0) {
+      console.log(Colors.muted('  No change in violations'));
+    }
+    update.introduced.forEach(violation => {
+      console.log(Colors.error(`  + ${this.formatWatchViolation(violation)}`));
+    });
+    update.resolved.forEach(violation => {
+      console.log(Colors.success(`  - ${this.formatWatchViolation(violation)}`));
+    });
+
+    const total = update.violations.length;
+    console.log(Colors.muted(`  ${update.introduced.length} introduced, ${update.resolved.length} resolved, ${total} violation${total === 1 ? '' : 's'} total`));
+  }
+
+  /**
+   * Format a violation as a single watch-mode diff line
+   */
+  private static formatWatchViolation(violation: Violation): string {
+    return `${violation.feature} (${violation.browser} ${violation.required}) ${this.toDisplayPath(violation.file)}:${violation.line}:${violation.column}`;
+  }
+
+  /**
+   * Show absolute paths relative to the working directory
+   */
+  private static toDisplayPath(filePath: string): string {
+    return isAbsolute(filePath) ? relative(process.cwd(), filePath) : filePath;
+  }
+
   /**
    * Display analysis results with sources and recommendations
    */
@@ -266,7 +401,8 @@ export class UIComponents {
     
     console.log(`${Colors.muted('Version:')} ${config.version}`);
     
-    console.log(`\n${Colors.muted('Browser Targets:')}`);
+    const targetSource = config.targetSource === 'browserslist' ? Colors.muted(' (from browserslist)') : '';
+    console.log(`\n${Colors.muted('Browser Targets:')}${targetSource}`);
     config.targets.forEach(target => {
       const version = target.minVersion === 'baseline' ? Colors.baseline('baseline') : 
                      target.minVersion === 'baseline-newly' ? Colors.warning('baseline-newly') :
@@ -445,7 +581,8 @@ ${Colors.muted('━'.repeat(60))}
    * Create a formatted table for displaying data
    */
   static createTable(headers: string[]): any {
-    return new (Table as any)({
+    const TableConstructor = (Table as any).default || Table;
+    return new TableConstructor({
       head: headers.map(h => Colors.primary.bold(h)),
       style: {
         head: [],
@@ -532,6 +669,27 @@ ${Colors.muted('━'.repeat(60))}
     console.log(`${spaces}${Colors.muted(key + ':')} ${value}`);
   }
 
+  /**
+   * Route console.log and console.info to stderr so stdout carries nothing but a
+   * machine-readable report; returns a function that restores the console
+   */
+  static routeMessagesToStderr(): () => void {
+    const { log, info } = console;
+    console.log = (...args: unknown[]) => console.error(...args);
+    console.info = (...args: unknown[]) => console.error(...args);
+    return () => {
+      console.log = log;
+      console.info = info;
+    };
+  }
+
+  /**
+   * Write a machine-readable report to stdout
+   */
+  static writeReport(report: string): void {
+    process.stdout.write(`${report}\n`);
+  }
+
   /**
    * Show JUnit XML report for violations
    */
@@ -539,29 +697,140 @@ ${Colors.muted('━'.repeat(60))}
     const testSuites = this.groupViolationsByFile(violations);
     const totalTests = Object.keys(testSuites).length;
     const totalFailures = violations.length;
+    const lines: string[] = [];
     
-    console.log('<?xml version="1.0" encoding="UTF-8"?>');
-    console.log(`<testsuites tests="${totalTests}" failures="${totalFailures}" time="0">`);
+    lines.push('<?xml version="1.0" encoding="UTF-8"?>');
+    lines.push(`<testsuites tests="${totalTests}" failures="${totalFailures}" time="0">`);
     
     Object.entries(testSuites).forEach(([file, fileViolations]) => {
-      console.log(`  <testsuite name="${file}" tests="1" failures="${fileViolations.length}" time="0">`);
+      lines.push(`  <testsuite name="${file}" tests="1" failures="${fileViolations.length}" time="0">`);
       
       if (fileViolations.length > 0) {
-        console.log(`    <testcase name="compatibility-check" classname="${file}">`);
+        lines.push(`    <testcase name="compatibility-check" classname="${file}">`);
         fileViolations.forEach(violation => {
-          console.log(`      <failure message="${violation.feature} not compatible with ${violation.browser} ${violation.required}">`);
-          console.log(`        ${violation.reason || 'Compatibility violation detected'}`);
-          console.log(`        Line: ${violation.line}, Column: ${violation.column}`);
-          console.log('      </failure>');
+          lines.push(`      <failure message="${violation.feature} not compatible with ${violation.browser} ${violation.required}">`);
+          lines.push(`        ${violation.reason || 'Compatibility violation detected'}`);
+          lines.push(`        Line: ${violation.line}, Column: ${violation.column}`);
+          lines.push('      </failure>');
         });
-        console.log('    </testcase>');
+        lines.push('    </testcase>');
       } else {
-        console.log(`    <testcase name="compatibility-check" classname="${file}"/>`);
+        lines.push(`    <testcase name="compatibility-check" classname="${file}"/>`);
       }
       
-      console.log('  </testsuite>');
+      lines.push('  </testsuite>');
     });
     
-    console.log('</testsuites>');
+    lines.push('</testsuites>');
+    this.writeReport(lines.join('\n'));
+  }
+
+  /**
+   * Show SARIF 2.1.0 report for violations
+   */
+  static showSARIFReport(violations: Violation[], suppressed: SuppressedViolation[] = []): void {
+    this.writeReport(JSON.stringify(this.createSARIFReport(violations, suppressed), null, 2));
+  }
+
+  /**
+   * Build a SARIF 2.1.0 log with one rule per web-features ID
+   */
+  static createSARIFReport(violations: Violation[], suppressed: SuppressedViolation[] = []): SarifLog {
+    const rules: SarifRule[] = [];
+    const ruleIndexes = new Map<string, number>();
+    const entries: Array<{ violation: Violation; directive?: SuppressionDirective }> = [
+      ...violations.map(violation => ({ violation })),
+      ...suppressed
+    ];
+
+    const results = entries.map(({ violation, directive }): SarifResult => {
+      let ruleIndex = ruleIndexes.get(violation.featureId);
+      if (ruleIndex === undefined) {
+        ruleIndex = rules.length;
+        ruleIndexes.set(violation.featureId, ruleIndex);
+        rules.push({
+          id: violation.featureId,
+          name: violation.featureId,
+          shortDescription: {
+            text: `Browser compatibility of ${violation.featureId}`
+          },
+          helpUri: `https://webstatus.dev/features/${encodeURIComponent(violation.featureId)}`,
+          properties: {
+            baselineStatus: violation.baselineStatus
+          }
+        });
+      }
+
+      return {
+        ruleId: violation.featureId,
+        ruleIndex,
+        level: violation.baselineStatus === 'false' || violation.baselineStatus === 'limited' ? 'error' : 'warning',
+        message: {
+          text: violation.reason || `${violation.feature} is not compatible with ${violation.browser} ${violation.required}`
+        },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: {
+                uri: this.toSARIFUri(violation.file),
+                uriBaseId: '%SRCROOT%'
+              },
+              region: {
+                startLine: Math.max(1, violation.line),
+                startColumn: Math.max(1, violation.column),
+                ...(violation.context ? { snippet: { text: violation.context } } : {})
+              }
+            }
+          }
+        ],
+        properties: {
+          feature: violation.feature,
+          browser: violation.browser,
+          required: violation.required,
+          actual: violation.actual,
+          baselineStatus: violation.baselineStatus
+        },
+        ...(directive
+          ? {
+              suppressions: [
+                {
+                  kind: 'inSource',
+                  ...(directive.reason ? { justification: directive.reason } : {})
+                }
+              ]
+            }
+          : {})
+      };
+    });
+
+    return {
+      $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+      version: '2.1.0',
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: 'BaseGuard',
+              informationUri: 'https://github.com/ebuka1017/baseguard',
+              rules
+            }
+          },
+          originalUriBaseIds: {
+            '%SRCROOT%': {
+              uri: `${pathToFileURL(process.cwd()).href}/`
+            }
+          },
+          results
+        }
+      ]
+    };
+  }
+
+  /**
+   * Convert a violation file path to a percent-encoded SARIF artifact URI relative to the project root
+   */
+  private static toSARIFUri(filePath: string): string {
+    const relativePath = isAbsolute(filePath) ? relative(process.cwd(), filePath) : filePath;
+    return relativePath.split(/[\\/]/).map(segment => encodeURIComponent(segment)).join('/');
   }
 }
@@ -107,6 +107,7 @@ export function showGlobalHelp(): void {
   console.log(`  ${chalk.cyan('list')}                    Show configuration summary\n`);
   
   console.log(chalk.white('UTILITY COMMANDS:'));
+  console.log(`  ${chalk.cyan('lsp')}                     Run the language server for editor diagnostics`);
   console.log(`  ${chalk.cyan('version')}                 Show version and system information`);
   console.log(`  ${chalk.cyan('help')} ${chalk.white('[command]')}         Show help for specific command\n`);
   
@@ -143,8 +144,8 @@ export function showGlobalHelp(): void {
   
   console.log(chalk.white('SUPPORTED FILES:'));
   console.log('  • JavaScript/TypeScript: .js, .jsx, .ts, .tsx');
-  console.log('  • Framework files: .vue, .svelte');
-  console.log('  • Stylesheets: .css');
+  console.log('  • Framework files: .vue, .svelte, .astro, .mdx');
+  console.log('  • Stylesheets: .css, .scss, .sass, .less');
   console.log('  • Markup: .html\n');
   
   console.log(chalk.white('FEATURES DETECTED:'));
@@ -152,7 +153,7 @@ export function showGlobalHelp(): void {
   console.log('  • JavaScript APIs and ECMAScript features');
   console.log('  • HTML elements and attributes');
   console.log('  • Web platform APIs (Canvas, WebGL, WebRTC, WebAssembly, etc.)');
-  console.log('  • Framework-aware extraction (React, Vue, Svelte)\n');
+  console.log('  • Framework-aware extraction (React, Vue, Svelte, Angular, Astro, MDX)\n');
   
   console.log(chalk.white('CONFIGURATION:'));
   console.log(`  ${chalk.cyan('File:')} .baseguardrc.json (automatically created)`);
@@ -3,6 +3,7 @@ import open from 'open';
 import chalk from 'chalk';
 import { Colors, UIComponents } from './components.js';
 import { ApiKeyManager } from '../core/api-key-manager.js';
+import type { BrowserslistResolution } from '../core/browserslist-targets.js';
 import type { BrowserTarget } from '../types/index.js';
 
 /**
@@ -12,8 +13,9 @@ export class Prompts {
   /**
    * Prompt for initial BaseGuard setup
    */
-  static async setupWizard(): Promise<{
+  static async setupWizard(browserslist?: BrowserslistResolution | null): Promise<{
     targets: BrowserTarget[];
+    targetSource: 'manual' | 'browserslist';
     installHooks: boolean;
     hookTrigger: 'pre-commit' | 'pre-push';
     setupApiKeys: boolean;
@@ -29,6 +31,10 @@ export class Prompts {
         name: 'targetPreset',
         message: 'Which browser compatibility target would you like to use?',
         choices: [
+          ...(browserslist ? [{
+            name: `Browserslist from ${browserslist.source} (${browserslist.query}) - Detected`,
+            value: 'browserslist'
+          }] : []),
           {
             name: 'Baseline Widely (30+ months of support) - Recommended',
             value: 'baseline-widely'
@@ -46,7 +52,7 @@ export class Prompts {
             value: 'custom'
           }
         ],
-        default: 'baseline-widely'
+        default: browserslist ? 'browserslist' : 'baseline-widely'
       },
       {
         type: 'confirm',
@@ -81,7 +87,9 @@ export class Prompts {
 
     let targets: BrowserTarget[] = [];
     
-    if (answers.targetPreset === 'custom') {
+    if (answers.targetPreset === 'browserslist' && browserslist) {
+      targets = browserslist.targets;
+    } else if (answers.targetPreset === 'custom') {
       targets = await this.promptCustomTargets();
     } else {
       targets = this.getPresetTargets(answers.targetPreset);
@@ -89,12 +97,32 @@ export class Prompts {
 
     return {
       targets,
+      targetSource: answers.targetPreset === 'browserslist' ? 'browserslist' : 'manual',
       installHooks: answers.installHooks,
       hookTrigger: answers.hookTrigger || 'pre-commit',
       setupApiKeys: answers.setupApiKeys
     };
   }
 
+  /**
+   * Ask whether to use the project's browserslist config for browser targets
+   */
+  static async confirmBrowserslistImport(browserslist: BrowserslistResolution): Promise<boolean> {
+    console.log(Colors.muted(`\nFound browserslist config in ${browserslist.source}: ${browserslist.query}`));
+    console.log(Colors.muted(`Resolves to: ${browserslist.targets.map(t => `${t.browser} ${t.minVersion}`).join(', ')}\n`));
+
+    const { useBrowserslist } = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'useBrowserslist',
+        message: 'Use these browserslist targets?',
+        default: true
+      }
+    ]);
+
+    return useBrowserslist;
+  }
+
   /**
    * Prompt for custom browser targets
    */
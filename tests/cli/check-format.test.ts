@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readFile, realpath, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { check } from '../../src/commands/check.js';
+import { BaseGuard } from '../../src/core/baseguard.js';
+
+describe('check --format sarif', () => {
+  const originalCwd = process.cwd();
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await realpath(await mkdtemp(join(tmpdir(), 'baseguard-check-')));
+    await writeFile(join(dir, '.baseguardrc.json'), JSON.stringify({
+      version: '1.0.0',
+      targets: [{ browser: 'safari', minVersion: '14' }]
+    }));
+    process.chdir(dir);
+
+    // File checks parse in worker threads that load the built output, so parse in-process instead
+    vi.spyOn(BaseGuard.prototype, 'checkViolationsDetailed').mockImplementation(async function (this: BaseGuard, files = []) {
+      return this.checkSources(await Promise.all(files.map(async filePath => ({
+        filePath,
+        content: await readFile(filePath, 'utf-8')
+      }))));
+    });
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    process.chdir(originalCwd);
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should write only the SARIF log to stdout', async () => {
+    await writeFile(join(dir, 'card.css'), '.card {\n  aspect-ratio: 16 / 9;\n}\n');
+    await writeFile(join(dir, 'app.js'), 'const copy = structuredClone(state);\n');
+
+    let stdout = '';
+    vi.spyOn(process.stdout, 'write').mockImplementation(chunk => {
+      stdout += String(chunk);
+      return true;
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await check({ format: 'sarif', baseline: false });
+
+    const log = JSON.parse(stdout);
+    const [run] = log.runs;
+    expect(log.version).toBe('2.1.0');
+    expect(run.tool.driver.rules.map((rule: { id: string }) => rule.id).sort()).toEqual(['aspect-ratio', 'structured-clone']);
+    expect(run.originalUriBaseIds['%SRCROOT%'].uri).toBe(`file://${dir}/`);
+    expect(run.results.map((result: { ruleId: string; locations: Array<{ physicalLocation: { artifactLocation: { uri: string }; region: { startLine: number } } }> }) => {
+      const { artifactLocation, region } = result.locations[0]!.physicalLocation;
+      return `${artifactLocation.uri}:${region.startLine}:${result.ruleId}`;
+    }).sort()).toEqual(['app.js:1:structured-clone', 'card.css:2:aspect-ratio']);
+  });
+});
@@ -506,6 +506,22 @@ describe('BaseGuard End-to-End Tests', () => {
       expect(result.stdout).toMatch(/\d+\.\d+\.\d+/);
     }, TEST_TIMEOUT);
 
+    it('should write only the report to stdout for machine-readable formats', async () => {
+      const projectPath = await copyFixture('vanilla-project', 'sarif-test');
+      await createTestConfig(projectPath, {
+        version: '1.0.0',
+        targets: [{ browser: 'safari', minVersion: '14' }]
+      });
+
+      const sarif = await runBaseGuard(['check', '--format', 'sarif'], projectPath);
+      const log = JSON.parse(sarif.stdout);
+      expect(log.version).toBe('2.1.0');
+      expect(log.runs[0].results.length).toBeGreaterThan(0);
+
+      const json = await runBaseGuard(['check', '--format', 'json'], projectPath);
+      expect(Array.isArray(JSON.parse(json.stdout))).toBe(true);
+    }, TEST_TIMEOUT);
+
     it('should handle invalid commands gracefully', async () => {
       const result = await runBaseGuard(['invalid-command']);
       
@@ -6,6 +6,8 @@ export default defineConfig({
     environment: 'node',
     include: ['src/**/*.{test,spec}.{js,ts}', 'tests/**/*.{test,spec}.{js,ts}'],
     exclude: ['node_modules', 'dist', 'tests/e2e/**'],
+    // CLI commands resolve files against the working directory, which only forked workers can change
+    poolMatchGlobs: [['**/tests/cli/**', 'forks']],
     testTimeout: 60000, // 60 seconds for tests
     hookTimeout: 60000
   }